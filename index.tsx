@@ -3,10 +3,13 @@ import { createRoot } from 'react-dom/client';
 import { ControlPanel } from './src/components/ControlPanel';
 import { LoadingScreen } from './src/components/LoadingScreen';
 import { createMainScene } from './main';
+import { RemoteControlHost } from './src/remote/host';
 import type { RobotKey, MainSceneHandle, MainSceneProgress } from './src/types/scene';
 
 const App = () => {
   const [activeRobot, setActiveRobot] = useState<RobotKey>('lekiwi');
+  const [robotIds, setRobotIds] = useState<string[]>([]);
+  const [selectedRobotId, setSelectedRobotId] = useState<string | null>(null);
   const [isPanelOpen, setIsPanelOpen] = useState(true);
   const [sceneHandle, setSceneHandle] = useState<MainSceneHandle | null>(null);
   const [loadingProgress, setLoadingProgress] = useState<MainSceneProgress | null>(null);
@@ -40,6 +43,11 @@ const App = () => {
         if (disposed) return;
         setActiveRobot(key);
       },
+      onRobotsChange: (ids, selectedId) => {
+        if (disposed) return;
+        setRobotIds(ids);
+        setSelectedRobotId(selectedId);
+      },
       onProgress: handleProgress,
       debugHoldLoading: window.location.search.includes('debugLoading'),
     })
@@ -70,6 +78,15 @@ const App = () => {
     sceneHandle.switchRobot(activeRobot);
   }, [activeRobot, sceneHandle]);
 
+  // ?remote=ws://localhost:8765/scene lets scripts drive the scene through the remote control relay
+  useEffect(() => {
+    const relayUrl = new URLSearchParams(window.location.search).get('remote');
+    if (!sceneHandle || !relayUrl) return;
+    const host = new RemoteControlHost(sceneHandle);
+    host.connect(relayUrl);
+    return () => host.disconnect();
+  }, [sceneHandle]);
+
   return (
     <div className="relative bg-gray-100 w-screen h-screen">
       {!isSceneReady && <LoadingScreen progress={loadingProgress} />}
@@ -97,6 +114,9 @@ const App = () => {
           <ControlPanel
             activeRobot={activeRobot}
             onRobotChange={setActiveRobot}
+            robotIds={robotIds}
+            selectedRobotId={selectedRobotId}
+            onSelectRobot={(id) => sceneHandle?.selectRobot(id)}
             isPanelOpen={isPanelOpen}
             onTogglePanel={() => setIsPanelOpen((prev) => !prev)}
             sceneHandle={sceneHandle}
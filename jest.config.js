@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  // specs that load a robot use jsdom, urdf-loader parses the URDF with DOMParser
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  // types are checked by tsc, the specs are only transpiled
+  transform: {
+    '^.+\\.[tj]sx?$': ['ts-jest', { tsconfig: { allowJs: true, esModuleInterop: true, target: 'es2020', module: 'commonjs' }, diagnostics: false }],
+  },
+  // these packages ship ES modules only
+  transformIgnorePatterns: ['/node_modules/(?!(urdf-loader|enable3d|@enable3d|@yandeu|three/examples)/)'],
+};
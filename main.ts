@@ -2,9 +2,20 @@
 import * as THREE from 'three';
 import { AmmoPhysics, PhysicsLoader } from '@enable3d/ammo-physics';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { SO101, LeKiwi } from './src';
-import { Robot } from './src/robots/Robot';
-import type { RobotKey, MainSceneHandle, MainSceneProgress, MainSceneStage } from './src/types/scene';
+import { SO101, LeKiwi, BimanualSO101, ARM_SIDES, TeleopLink } from './src';
+import type { TeleopOptions } from './src';
+import { Robot, RobotState } from './src/robots/Robot';
+import type {
+  RobotKey,
+  MainSceneEvents,
+  MainSceneHandle,
+  MainSceneProgress,
+  MainSceneStage,
+  SceneRobot,
+  SpawnBimanualOptions,
+  SpawnObjectOptions,
+  SpawnRobotOptions
+} from './src/types/scene';
 import { createGrassGrid } from './src/utils/createGrassGrid';
 import { loadAsset } from './src/utils/loadAsset';
 import { createTree } from './src/utils/createTree';
@@ -20,11 +31,12 @@ export interface MainSceneOptions {
   container: HTMLElement;
   initialRobot?: RobotKey;
   onActiveRobotChange?: (key: RobotKey) => void;
+  onRobotsChange?: (ids: string[], selectedId: string | null) => void;
   onProgress?: (progress: MainSceneProgress) => void;
   debugHoldLoading?: boolean;
 }
 
-export type { RobotKey, MainSceneHandle };
+export type { RobotKey, MainSceneEvents, MainSceneHandle, SpawnBimanualOptions, SpawnObjectOptions, SpawnRobotOptions };
 
 let physicsLoaderPromise: Promise<void> | null = null;
 
@@ -43,6 +55,7 @@ export const createMainScene = async ({
   container,
   initialRobot = 'lekiwi',
   onActiveRobotChange,
+  onRobotsChange,
   onProgress,
   debugHoldLoading = false,
 }: MainSceneOptions): Promise<MainSceneHandle> => {
@@ -185,9 +198,31 @@ export const createMainScene = async ({
   let disposed = false;
   let animationFrameId: number | null = null;
 
-  let so101Robot: SO101 | null = null;
-  let leKiwiRobot: LeKiwi | null = null;
-  let activeRobotKey: RobotKey = initialRobot;
+  // Every robot in the scene by ID, the selected one is driven by the control panel
+  const robots = new Map<string, SceneRobot>();
+  let selectedRobotId: string | null = null;
+  // Robots replaced by switchRobot by ID, with their state for when they're switched back to
+  // and the ID of the robot that took their place
+  const swappedOut = new Map<string, SceneRobot & { state: RobotState; replacedBy: string | null }>();
+  // Bimanual rigs by ID, their arms are in robots too
+  const rigs = new Map<string, BimanualSO101>();
+  // Leader-follower links between robots in the scene, updated before the robots
+  let teleopLinks: TeleopLink[] = [];
+  // State of each robot right after it was spawned, restored by reset
+  const spawnStates = new WeakMap<Robot, RobotState>();
+  // Objects added with spawnObject by ID, removed by reset
+  const objects = new Map<string, THREE.Object3D>();
+  // Seconds simulated so far, the loop stops advancing the simulation while paused
+  let simulationTime = 0;
+  let paused = false;
+  const listeners: { [E in keyof MainSceneEvents]: Set<(payload: MainSceneEvents[E]) => void> } = {
+    robots: new Set(),
+    objects: new Set(),
+    step: new Set(),
+  };
+  const emit = <E extends keyof MainSceneEvents>(event: E, payload: MainSceneEvents[E]) => {
+    listeners[event].forEach(listener => listener(payload));
+  };
   // scene
   const scene = new THREE.Scene();
   scene.background = new THREE.Color(0xf3f4f6);
@@ -368,6 +403,13 @@ export const createMainScene = async ({
 
   await Promise.all(grassPromises);
 
+  // Where the props start, for reset
+  const props = [bun, bunClone, patty].map(object => ({
+    object,
+    position: object.position.clone(),
+    quaternion: object.quaternion.clone(),
+  }));
+
   const mangoTree = await mangoTreePromise;
   if (mangoTree) {
     scene.add(mangoTree);
@@ -424,11 +466,12 @@ export const createMainScene = async ({
     },
   }
 
-  const applyDefaultPose = (robot: SO101 | LeKiwi, key: 'lekiwi' | 'so101') => {
+  const applyDefaultPose = (robot: SO101 | LeKiwi, key: 'lekiwi' | 'so101', options: SpawnRobotOptions = {}) => {
     if (!robot.robot) return
     const pose = DEFAULT_POSES[key]
-    robot.robot.position.set(pose.position.x, pose.position.y, pose.position.z)
-    robot.robot.rotation.z = THREE.MathUtils.degToRad(pose.rotationDegrees)
+    const position = { ...pose.position, ...options.position }
+    robot.robot.position.set(position.x, position.y, position.z)
+    robot.robot.rotation.z = THREE.MathUtils.degToRad(options.rotationDegrees ?? pose.rotationDegrees)
     Robot.markLinksAsNeedingPhysicsUpdate(robot.robot)
     robot.updateGrippedObjectPositions()
   }
@@ -452,70 +495,318 @@ export const createMainScene = async ({
     });
   };
 
+  const getRobot = (id: string) => robots.get(id)?.robot ?? null;
+
+  const getRobotIds = () => Array.from(robots.keys());
+
+  const notifyRobotsChange = () => {
+    onRobotsChange?.(getRobotIds(), selectedRobotId);
+    emit('robots', { ids: getRobotIds(), selectedId: selectedRobotId });
+  };
+
+  // The robot key for the first robot of a kind, numbered after that
+  const nextRobotId = (key: RobotKey) => {
+    const taken = (id: string) => robots.has(id) || swappedOut.has(id);
+    if (!taken(key)) return key;
+    let n = 2;
+    while (taken(`${key}-${n}`)) n++;
+    return `${key}-${n}`;
+  };
+
+  const selectRobot = (id: string) => {
+    const entry = robots.get(id);
+    if (!entry) {
+      console.error(`Robot '${id}' not found`);
+      return false;
+    }
+    if (selectedRobotId === id) return true;
+
+    // The control panel only drives the selected robot, so a base left driving would never stop
+    const previous = selectedRobotId ? robots.get(selectedRobotId) : undefined;
+    if (previous?.robot instanceof LeKiwi) previous.robot.stopBase();
+
+    selectedRobotId = id;
+    onActiveRobotChange?.(entry.key);
+    notifyRobotsChange();
+    return true;
+  };
+
+  // Put a loaded robot in the scene's update loop
+  const addRobot = async (entry: SceneRobot) => {
+    if (entry.robot instanceof LeKiwi) await entry.robot.enableBasePhysics();
+    robots.set(entry.id, entry);
+    if (!selectedRobotId) {
+      selectRobot(entry.id);
+    } else {
+      notifyRobotsChange();
+    }
+  };
+
+  const spawnRobot = async (key: RobotKey, options: SpawnRobotOptions = {}) => {
+    const id = options.id ?? nextRobotId(key);
+    if (robots.has(id) || swappedOut.has(id)) {
+      console.error(`A robot with id '${id}' already exists`);
+      return null;
+    }
+
+    const robot = key === 'so101' ? new SO101() : new LeKiwi();
+    await robot.load({ scene, enable3dPhysicsObject: physics });
+    applyDefaultPose(robot, key, options);
+    applyDefaultJointValues(robot);
+    await addRobot({ id, key, robot });
+    spawnStates.set(robot, robot.getState());
+    return id;
+  };
+
+  const removeRobot = (id: string) => {
+    const entry = robots.get(id);
+    if (!entry) {
+      console.error(`Robot '${id}' not found`);
+      return false;
+    }
+
+    // Takes the links' physics bodies out of the world too
+    entry.robot.dispose();
+    robots.delete(id);
+    // A rig missing an arm isn't a rig anymore, its other arm stays as a robot of its own
+    const rigId = findRigId(entry.robot);
+    if (rigId) rigs.delete(rigId);
+    teleopLinks = teleopLinks.filter(link => link.leader !== entry.robot && link.follower !== entry.robot);
+    if (selectedRobotId === id) {
+      selectedRobotId = null;
+      const [next] = getRobotIds();
+      if (next) {
+        selectRobot(next);
+        return true;
+      }
+    }
+    notifyRobotsChange();
+    return true;
+  };
+
+  // The rig a robot is an arm of, if any
+  const findRigId = (robot: SO101 | LeKiwi) => {
+    for (const [id, rig] of Array.from(rigs.entries())) {
+      if (ARM_SIDES.some(side => rig.arms[side] === robot)) return id;
+    }
+    return null;
+  };
+
+  // Two SO101 arms on the dining table, left and right of its middle
+  const spawnBimanualRig = async (options: SpawnBimanualOptions = {}) => {
+    let id = options.id ?? 'bimanual';
+    if (!options.id) {
+      for (let n = 2; rigs.has(id); n++) id = `bimanual-${n}`;
+    }
+    if (rigs.has(id) || ARM_SIDES.some(side => robots.has(`${id}.${side}`))) {
+      console.error(`A rig with id '${id}' already exists`);
+      return null;
+    }
+
+    const rig = new BimanualSO101(options.spacing);
+    await rig.load({
+      scene,
+      enable3dPhysicsObject: physics,
+      center: table.getTopCenter(),
+      rotationDegrees: options.rotationDegrees,
+    });
+    rigs.set(id, rig);
+    for (const side of ARM_SIDES) {
+      applyDefaultJointValues(rig.arms[side]);
+      await addRobot({ id: `${id}.${side}`, key: 'so101', robot: rig.arms[side] });
+      spawnStates.set(rig.arms[side], rig.arms[side].getState());
+    }
+    return id;
+  };
+
+  const removeBimanualRig = (id: string) => {
+    if (!rigs.has(id)) {
+      console.error(`Rig '${id}' not found`);
+      return false;
+    }
+    ARM_SIDES.forEach(side => removeRobot(`${id}.${side}`));
+    rigs.delete(id);
+    return true;
+  };
+
+  // Mirror one robot's pivots onto another every frame
+  const connectTeleop = (leaderId: string, followerId: string, options: TeleopOptions = {}) => {
+    const leader = getRobot(leaderId);
+    const follower = getRobot(followerId);
+    if (!leader || !follower || leader === follower) {
+      console.error(`Can't teleoperate robot '${followerId}' from robot '${leaderId}'`);
+      return null;
+    }
+
+    const link = new TeleopLink(leader, follower, options);
+    teleopLinks.push(link);
+    return link;
+  };
+
+  const disconnectTeleop = (link: TeleopLink) => {
+    const count = teleopLinks.length;
+    teleopLinks = teleopLinks.filter(other => other !== link);
+    return teleopLinks.length < count;
+  };
+
+  const getObjectIds = () => Array.from(objects.keys());
+
+  // Drop a simple shape into the scene, above the middle of the table unless placed elsewhere
+  const spawnObject = (options: SpawnObjectOptions = {}) => {
+    const shape = options.shape ?? 'box';
+    let id = options.id ?? shape;
+    if (!options.id) {
+      for (let n = 2; objects.has(id) || scene.getObjectByName(id); n++) id = `${shape}-${n}`;
+    }
+    if (objects.has(id) || scene.getObjectByName(id)) {
+      console.error(`An object named '${id}' already exists`);
+      return null;
+    }
+
+    const size = options.size ?? 1;
+    const top = table.getTopCenter();
+    const position = { x: top.x, y: top.y + 5, z: top.z, ...options.position };
+    const config = { name: id, ...position, mass: options.mass ?? 1 };
+    const material = { lambert: { color: options.color ?? '#ff8800' } };
+    const object =
+      shape === 'sphere' ? physics.add.sphere({ ...config, radius: size / 2 }, material) :
+      shape === 'cylinder' ? physics.add.cylinder({ ...config, radiusTop: size / 2, radiusBottom: size / 2, height: size }, material) :
+      physics.add.box({ ...config, width: size, height: size, depth: size }, material);
+    object.userData.grippable = options.grippable ?? true;
+
+    objects.set(id, object);
+    emit('objects', { ids: getObjectIds() });
+    return id;
+  };
+
+  const removeObject = (id: string) => {
+    const object = objects.get(id);
+    if (!object) {
+      console.error(`Object '${id}' not found`);
+      return false;
+    }
+
+    robots.forEach(({ robot }) => robot.markObjectAsUngripped(id));
+    Robot.destroyBody(physics, object);
+    object.removeFromParent();
+    (object as THREE.Mesh).geometry?.dispose();
+    objects.delete(id);
+    emit('objects', { ids: getObjectIds() });
+    return true;
+  };
+
+  // Put every robot back the way it was spawned, remove spawned objects and put the props back
+  const reset = async () => {
+    for (const { robot } of Array.from(robots.values())) {
+      const state = spawnStates.get(robot);
+      if (state) await robot.setState(state);
+    }
+    getObjectIds().forEach(removeObject);
+
+    props.forEach(({ object, position, quaternion }) => {
+      const body = (object as any).body;
+      object.position.copy(position);
+      object.quaternion.copy(quaternion);
+      body?.setVelocity(0, 0, 0);
+      body?.setAngularVelocity(0, 0, 0);
+      Robot.moveBodyToObject(object);
+    });
+  };
+
+  // Advance the physics, the teleoperation links and the robots
+  const advance = (delta: number) => {
+    physics.update(delta * 1000);
+    teleopLinks.forEach(link => link.update(delta));
+    robots.forEach(({ robot }) => robot.update(delta));
+    simulationTime += delta;
+    emit('step', { delta, time: simulationTime });
+  };
+
+  const setPaused = (value: boolean) => {
+    paused = value;
+  };
+
+  const isPaused = () => paused;
+
+  // Advance by a fixed time, usually while paused so a script controls the pace
+  const step = (delta: number = 1 / 60) => {
+    advance(delta);
+    return simulationTime;
+  };
+
+  const getSimulationTime = () => simulationTime;
+
+  const subscribe = <E extends keyof MainSceneEvents>(event: E, listener: (payload: MainSceneEvents[E]) => void) => {
+    listeners[event].add(listener);
+    return () => {
+      listeners[event].delete(listener);
+    };
+  };
+
   // Load LeKiwi by default
-  leKiwiRobot = new LeKiwi();
-  await trackAsset('LeKiwi robot', () =>
-    leKiwiRobot!.load({ scene, enable3dPhysicsObject: physics, position: new THREE.Vector3(0, 1, 0) })
-  );
-  applyDefaultPose(leKiwiRobot, 'lekiwi');
-  applyDefaultJointValues(leKiwiRobot);
-  activeRobotKey = 'lekiwi';
-  onActiveRobotChange?.(activeRobotKey);
+  await trackAsset('LeKiwi robot', () => spawnRobot('lekiwi'));
 
   // clock
   const clock = new THREE.Clock();
 
-  const removeRobotFromScene = (robot: SO101 | LeKiwi | null) => {
-    if (!robot || !robot.robot) return;
-    // Remove URDF root from scene; physics bodies are attached to links and will be GC'ed with meshes
-    scene.remove(robot.robot);
-  };
-
   const getRobotXZ = (robot: SO101 | LeKiwi | null): { x: number, z: number } => {
     if (!robot || !robot.robot) return { x: 0, z: 0 };
     const pos = robot.robot.position;
     return { x: pos.x, z: pos.z };
   };
 
-  const switchRobot = async (target: RobotKey) => {
-    if (activeRobotKey === target) return;
-    // Capture current XZ of the active robot
-    const { x, z } = target === 'so101' ? getRobotXZ(leKiwiRobot) : getRobotXZ(so101Robot);
+  // A restored robot takes the place of the one it replaces
+  const placeStateAt = (state: RobotState, x: number, z: number): RobotState => ({
+    ...state,
+    pose: { ...state.pose, position: [x, state.pose.position[1], z] },
+  });
 
-    // Remove current
-    if (activeRobotKey === 'lekiwi') {
-      removeRobotFromScene(leKiwiRobot);
-    } else {
-      removeRobotFromScene(so101Robot);
+  // Replace the selected robot with one of another kind, in the same place
+  const switchRobot = async (target: RobotKey) => {
+    const current = selectedRobotId ? robots.get(selectedRobotId) : undefined;
+    if (current?.key === target) return;
+    // The rig's arms are SO101s, the control panel goes back to showing one
+    if (current && findRigId(current.robot)) {
+      console.error(`Robot '${current.id}' is an arm of a bimanual rig, it can't be switched`);
+      onActiveRobotChange?.(current.key);
+      return;
+    }
+    // Capture current XZ of the selected robot
+    const { x, z } = getRobotXZ(current?.robot ?? null);
+
+    // Remove current, keeping its pose, joints and held objects for when it's switched back to
+    if (current) {
+      swappedOut.set(current.id, { ...current, state: current.robot.getState(), replacedBy: null });
+      current.robot.unload();
+      robots.delete(current.id);
+      selectedRobotId = null;
     }
 
-    // Load target at same XZ; use preferred Y per robot
-    if (target === 'so101') {
-      const isFirstLoad = !so101Robot;
-      if (!so101Robot) so101Robot = new SO101();
-      await so101Robot.load({ scene, enable3dPhysicsObject: physics, position: new THREE.Vector3(x, 0.5, z) });
-      if (isFirstLoad) {
-        applyDefaultPose(so101Robot, 'so101');
-        applyDefaultJointValues(so101Robot);
-      }
+    // The robot the current one took the place of comes back, otherwise the last one of that kind switched out
+    const candidates = Array.from(swappedOut.values()).filter(entry => entry.key === target);
+    const swapped = candidates.find(entry => entry.replacedBy === current?.id) ?? candidates[candidates.length - 1];
+    let id: string | null;
+    if (swapped) {
+      // Load target at same XZ; use preferred Y per robot
+      swappedOut.delete(swapped.id);
+      const { state, replacedBy, ...entry } = swapped;
+      await entry.robot.load({ scene, enable3dPhysicsObject: physics });
+      await entry.robot.setState(placeStateAt(state, x, z));
+      await addRobot(entry);
+      id = entry.id;
     } else {
-      const isFirstLoad = !leKiwiRobot;
-      if (!leKiwiRobot) leKiwiRobot = new LeKiwi();
-      await leKiwiRobot.load({ scene, enable3dPhysicsObject: physics, position: new THREE.Vector3(x, 1, z) });
-      if (isFirstLoad) {
-        applyDefaultPose(leKiwiRobot, 'lekiwi');
-        applyDefaultJointValues(leKiwiRobot);
-      }
+      id = await spawnRobot(target);
     }
 
-    activeRobotKey = target;
-    onActiveRobotChange?.(activeRobotKey);
+    const replaced = current ? swappedOut.get(current.id) : undefined;
+    if (replaced) replaced.replacedBy = id;
   };
 
   // loop
   const animate = () => {
     if (disposed) return;
-    physics.update(clock.getDelta() * 1000);
+    const delta = clock.getDelta();
+    if (!paused) advance(delta);
     if (typeof physics.updateDebugger === 'function') {
       physics.updateDebugger();
     }
@@ -540,18 +831,53 @@ export const createMainScene = async ({
       cancelAnimationFrame(animationFrameId);
     }
     window.removeEventListener('resize', onWindowResize);
+    robots.forEach(({ robot }) => robot.dispose());
+    swappedOut.forEach(({ robot }) => robot.dispose());
+    robots.clear();
+    swappedOut.clear();
+    rigs.clear();
+    Object.values(listeners).forEach(set => set.clear());
     controls.dispose();
     renderer.dispose();
   };
 
   const getActiveRobot = () => {
-    return activeRobotKey === 'lekiwi' ? leKiwiRobot : so101Robot;
+    return selectedRobotId ? getRobot(selectedRobotId) : null;
+  };
+
+  const getActiveRobotKey = () => {
+    return (selectedRobotId ? robots.get(selectedRobotId)?.key : undefined) ?? initialRobot;
   };
 
-  const getActiveRobotKey = () => activeRobotKey;
+  const getSelectedRobotId = () => selectedRobotId;
+
+  const getBimanualRig = (id: string) => rigs.get(id) ?? null;
+
+  const getBimanualRigIds = () => Array.from(rigs.keys());
 
   return {
     switchRobot,
+    spawnRobot,
+    removeRobot,
+    getRobot,
+    getRobotIds,
+    selectRobot,
+    getSelectedRobotId,
+    spawnBimanualRig,
+    removeBimanualRig,
+    getBimanualRig,
+    getBimanualRigIds,
+    connectTeleop,
+    disconnectTeleop,
+    spawnObject,
+    removeObject,
+    getObjectIds,
+    reset,
+    setPaused,
+    isPaused,
+    step,
+    getSimulationTime,
+    subscribe,
     dispose,
     getActiveRobot,
     getActiveRobotKey,
@@ -1,46 +1,57 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { PlanarControl } from '../planar';
 import { MovementControl, RotationControl } from './index';
 import { Robot } from '../robots/Robot';
+import { LeKiwi } from '../robots/LeKiwi';
 import type { RobotKey, MainSceneHandle } from '../types/scene';
 import { inverseKinematics2Link } from '../utils/inverseKinematics';
+import type { Handedness } from '../utils/SmoothedHandDetector';
+import type { JointLimits } from '../utils/jointLimits';
 
 interface ControlPanelProps {
   activeRobot: RobotKey;
   onRobotChange: (key: RobotKey) => void;
+  robotIds: string[];
+  selectedRobotId: string | null;
+  onSelectRobot: (id: string) => void;
   isPanelOpen: boolean;
   onTogglePanel: () => void;
   sceneHandle: MainSceneHandle | null;
 }
 
+// LeKiwi's base speed at full stick, m/s and rad/s
+const BASE_SPEED = 0.25;
+const BASE_TURN_RATE = Math.PI / 3;
+
 const robotButtonBase =
   'px-3 py-1 text-xs bg-transparent text-gray-800 border rounded cursor-pointer ml-2 transition-colors';
 
-const getRobotButtonClasses = (activeRobot: RobotKey, key: RobotKey) =>
+const getRobotButtonClasses = (activeRobot: RobotKey | null, key: RobotKey) =>
   `${robotButtonBase} ${activeRobot === key ? 'border-gray-800' : 'border-gray-300'}`;
 
+const getSelectButtonClasses = (selectedRobotId: string | null, id: string) =>
+  `${robotButtonBase} ${selectedRobotId === id ? 'border-gray-800' : 'border-gray-300'}`;
+
 interface PlanarControlSectionProps {
-  sceneHandle: MainSceneHandle | null;
+  getRobot: () => Robot | null; // Robot the control drives, looked up on every change
+  handedness?: Handedness;      // Hand the control follows when tracking, any hand if unset
 }
 
-const PlanarControlSection: React.FC<PlanarControlSectionProps> = ({ sceneHandle }) => {
+const PlanarControlSection: React.FC<PlanarControlSectionProps> = ({ getRobot, handedness }) => {
   const planarControlRef = useRef<PlanarControl | null>(null);
   
   const planarControl = useMemo(() => {
     const control = new PlanarControl({
+      handedness,
       onChange: (position, theta, circleSize) => {
-        const robot = sceneHandle?.getActiveRobot();
+        const robot = getRobot();
         if (!robot) return;
         
         // Map X position (-1 to 1) to shoulder_pan (base rotation)
         const shoulderPanPivot = robot.pivotMap['shoulder_pan'];
         if (shoulderPanPivot) {
-          const lower = shoulderPanPivot.lower;
-          const upper = shoulderPanPivot.upper;
-
-          // map theta.radians (which goes from 0 to PI), to lower and upper
-          const value = lower + (theta.radians/Math.PI)*(upper-lower)
-          robot.setPivotValue('shoulder_pan', value);
+          // map theta.radians (which goes from 0 to PI) onto the whole range
+          robot.setPivot('shoulder_pan', (theta.radians/Math.PI)*100, 'RANGE_0_100');
         }
         
         // Use inverse kinematics for Y position (Z in world) and circleSize (reach)
@@ -93,13 +104,8 @@ const PlanarControlSection: React.FC<PlanarControlSectionProps> = ({ sceneHandle
               shoulderLiftTheta -= 2*Math.PI;
             }
 
-            // map between 0 to 1 corresponding to mappedLower to mappedUpper
-            const shoulderLiftValueNormalized = (shoulderLiftTheta - shoulderLiftPivot.mappedLower) / (shoulderLiftPivot.mappedUpper - shoulderLiftPivot.mappedLower);
-            const elbowFlexValueNormalized = (elbowTheta - elbowFlexPivot.mappedLower) / (elbowFlexPivot.mappedUpper - elbowFlexPivot.mappedLower);
-
-            // map between joint.lower to joint.upper
-            const shoulderLiftValue = -(shoulderLiftPivot.lower + shoulderLiftValueNormalized * (shoulderLiftPivot.upper - shoulderLiftPivot.lower))
-            const elbowFlexValue = -(elbowFlexPivot.lower + elbowFlexValueNormalized * (elbowFlexPivot.upper - elbowFlexPivot.lower))
+            const shoulderLiftValue = -robot.convertPivotValue('shoulder_lift', shoulderLiftTheta, 'rad', 'pivot');
+            const elbowFlexValue = -robot.convertPivotValue('elbow_flex', elbowTheta, 'rad', 'pivot');
             
             robot.setPivotValue('shoulder_lift', shoulderLiftValue);
             robot.setPivotValue('elbow_flex', elbowFlexValue);
@@ -107,7 +113,7 @@ const PlanarControlSection: React.FC<PlanarControlSectionProps> = ({ sceneHandle
         }
       },
       onGripperAngleChange: (angle) => {
-        const robot = sceneHandle?.getActiveRobot();
+        const robot = getRobot();
         if (!robot) return;
         
         const wristRollPivot = robot.pivotMap['wrist_roll'];
@@ -129,8 +135,7 @@ const PlanarControlSection: React.FC<PlanarControlSectionProps> = ({ sceneHandle
           }
 
           let normalizedAngle = (usedAngle - minAngle)/(maxAngle-minAngle);
-          let pivotValue = wristRollPivot.lower + normalizedAngle * (wristRollPivot.upper - wristRollPivot.lower);
-          robot.setPivotValue('wrist_roll', pivotValue);
+          robot.setPivot('wrist_roll', normalizedAngle * 100, 'RANGE_0_100');
 
 
           //console.log("wrist roll", angle)
@@ -138,19 +143,18 @@ const PlanarControlSection: React.FC<PlanarControlSectionProps> = ({ sceneHandle
         }
       },
       onGripperMouthAngleChange: (angle) => {
-        const robot = sceneHandle?.getActiveRobot();
+        const robot = getRobot();
         if (!robot) return;
         
         const gripperPivot = robot.pivotMap['gripper'];
         if (gripperPivot) {
-          // Map 0-120° to gripper range
+          // Map 0-120° to gripper range, closed at 120°
           const normalized = angle / 120;
-          const gripperValue = gripperPivot.upper - (gripperPivot.lower + normalized * (gripperPivot.upper - gripperPivot.lower));
-          robot.setPivotValue('gripper', gripperValue);
+          robot.setPivot('gripper', (1 - normalized) * 100, 'RANGE_0_100');
         }
       },
       onWristRollChange: (angleDegrees) => {
-        const robot = sceneHandle?.getActiveRobot();
+        const robot = getRobot();
         if (!robot) return;
         
         const wristFlexPivot = robot.pivotMap['wrist_flex'];
@@ -164,7 +168,7 @@ const PlanarControlSection: React.FC<PlanarControlSectionProps> = ({ sceneHandle
         }
       },
       onWristFlexChange: (angleDegrees) => {
-        const robot = sceneHandle?.getActiveRobot();
+        const robot = getRobot();
         if (!robot) return;
         
         const wristFlexPivot = robot.pivotMap['wrist_flex'];
@@ -173,31 +177,97 @@ const PlanarControlSection: React.FC<PlanarControlSectionProps> = ({ sceneHandle
           // Normalize the angle to a reasonable range (e.g., -180 to 180 degrees maps to full range)
           const normalized = (angleDegrees + 180) / 360; // Map -180 to 180 degrees to 0 to 1
           const clampedNormalized = Math.max(0, Math.min(1, normalized));
-          const wristFlexValue = wristFlexPivot.lower + clampedNormalized * (wristFlexPivot.upper - wristFlexPivot.lower);
-          robot.setPivotValue('wrist_flex', wristFlexValue);
+          robot.setPivot('wrist_flex', clampedNormalized * 100, 'RANGE_0_100');
         }
       },
     });
     
     planarControlRef.current = control;
     return control;
-  }, [sceneHandle]);
+  }, [getRobot, handedness]);
 
   const PlanarControls = useMemo(() => planarControl.renderControls(), [planarControl]);
 
   return <PlanarControls />;
 };
 
+// a limit the URDF doesn't give is Infinity
+const formatLimit = (value: number) => (Number.isFinite(value) ? value.toFixed(2) : '–');
+
+interface JointLimitsTableProps {
+  limits: { [pivotName: string]: JointLimits }; // Limits keyed by pivot name, see Robot.getPivotLimits
+}
+
+const JointLimitsTable: React.FC<JointLimitsTableProps> = ({ limits }) => {
+  const entries = Object.entries(limits);
+  if (entries.length === 0) return <p className="text-xs text-gray-600">Joint limits are shown once the robot is loaded.</p>;
+
+  return (
+    <table className="w-full text-xs text-gray-700" aria-label="joint-limits">
+      <thead>
+        <tr className="text-left text-gray-600">
+          <th className="font-semibold">Pivot</th>
+          <th className="font-semibold text-right">Velocity (rad/s)</th>
+          <th className="font-semibold text-right">Effort (N·m)</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map(([name, { velocity, effort }]) => (
+          <tr key={name}>
+            <td>{name}</td>
+            <td className="text-right">{formatLimit(velocity)}</td>
+            <td className="text-right">{formatLimit(effort)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
 export const ControlPanel : React.FC<ControlPanelProps> = ({
   activeRobot,
   onRobotChange,
+  robotIds,
+  selectedRobotId,
+  onSelectRobot,
   isPanelOpen,
   onTogglePanel,
   sceneHandle,
 }) => {
+  // in bimanual mode the planar controls drive the two arms of this rig instead of the selected robot
+  const [bimanualRigId, setBimanualRigId] = useState<string | null>(null);
+
+  const getSelectedRobot = useCallback(() => sceneHandle?.getActiveRobot() ?? null, [sceneHandle]);
+  const getLeftArm = useCallback(
+    () => (bimanualRigId ? sceneHandle?.getBimanualRig(bimanualRigId)?.left : null) ?? null,
+    [sceneHandle, bimanualRigId]
+  );
+  const getRightArm = useCallback(
+    () => (bimanualRigId ? sceneHandle?.getBimanualRig(bimanualRigId)?.right : null) ?? null,
+    [sceneHandle, bimanualRigId]
+  );
+
+  // read on every render, the panel renders again when robots are added or selected
+  const pivotLimits = (bimanualRigId
+    ? sceneHandle?.getBimanualRig(bimanualRigId)?.getPivotLimits()
+    : sceneHandle?.getActiveRobot()?.getPivotLimits()) ?? {};
+
+  const handleBimanualClick = async () => {
+    if (!sceneHandle) return;
+    const id = sceneHandle.getBimanualRigIds()[0] ?? (await sceneHandle.spawnBimanualRig());
+    setBimanualRigId(id);
+  };
+
+  const handleRobotChange = (key: RobotKey) => {
+    setBimanualRigId(null);
+    onRobotChange(key);
+  };
+
   const handleMove = (dx: number, dz: number) => {
     const robot = sceneHandle?.getActiveRobot();
     if (!robot || !robot.robot) return;
+    // LeKiwi drives on its wheels, see handleStickChange
+    if (robot instanceof LeKiwi) return;
 
     const anyRobot = robot as any;
     if (typeof anyRobot.moveByXZ === 'function') {
@@ -213,6 +283,8 @@ export const ControlPanel : React.FC<ControlPanelProps> = ({
   const handleRotate = (delta: number) => {
     const robot = sceneHandle?.getActiveRobot();
     if (!robot || !robot.robot) return;
+    // LeKiwi turns on its wheels, see handleRotationStateChange
+    if (robot instanceof LeKiwi) return;
 
     const anyRobot = robot as any;
     if (typeof anyRobot.rotateByYaw === 'function') {
@@ -224,6 +296,21 @@ export const ControlPanel : React.FC<ControlPanelProps> = ({
     }
   };
 
+  const handleStickChange = (stick: { x: number; z: number }) => {
+    const robot = sceneHandle?.getActiveRobot();
+    if (!(robot instanceof LeKiwi)) return;
+
+    // pushing the stick up drives forwards, pushing it right drives to the right
+    robot.setBaseVelocity({ ...robot.base.command, x: stick.z * BASE_SPEED, y: -stick.x * BASE_SPEED });
+  };
+
+  const handleRotationStateChange = (direction: number) => {
+    const robot = sceneHandle?.getActiveRobot();
+    if (!(robot instanceof LeKiwi)) return;
+
+    robot.setBaseVelocity({ ...robot.base.command, theta: direction * BASE_TURN_RATE });
+  };
+
   return (
     <div
       className={`absolute bottom-0 right-0 w-96 transition-transform duration-300 ease-in-out transform bg-gray-100 flex flex-col ${
@@ -240,35 +327,74 @@ export const ControlPanel : React.FC<ControlPanelProps> = ({
             <h3 className="text-lg font-semibold mr-4">Robot</h3>
             <div className="flex gap-2" aria-label="robot-switch">
               <button
-                className={getRobotButtonClasses(activeRobot, 'lekiwi')}
-                onClick={() => onRobotChange('lekiwi')}
+                className={getRobotButtonClasses(bimanualRigId ? null : activeRobot, 'lekiwi')}
+                onClick={() => handleRobotChange('lekiwi')}
                 type="button"
               >
                 LeKiwi (default)
               </button>
               <button
-                className={getRobotButtonClasses(activeRobot, 'so101')}
-                onClick={() => onRobotChange('so101')}
+                className={getRobotButtonClasses(bimanualRigId ? null : activeRobot, 'so101')}
+                onClick={() => handleRobotChange('so101')}
                 type="button"
               >
                 SO101
               </button>
+              <button
+                className={`${robotButtonBase} ${bimanualRigId ? 'border-gray-800' : 'border-gray-300'}`}
+                onClick={handleBimanualClick}
+                type="button"
+              >
+                Bimanual
+              </button>
             </div>
           </div>
         </div>
 
+        {robotIds.length > 1 && !bimanualRigId && (
+          <div className="flex items-center mb-3">
+            <h3 className="text-sm font-semibold mr-2">Drive</h3>
+            <div className="flex flex-wrap gap-2" aria-label="robot-select">
+              {robotIds.map((id) => (
+                <button
+                  key={id}
+                  className={getSelectButtonClasses(selectedRobotId, id)}
+                  onClick={() => onSelectRobot(id)}
+                  type="button"
+                >
+                  {id}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="border-t border-gray-200 my-3" />
 
         <h3 className="text-lg font-semibold mb-3">Robot Control</h3>
 
-        <div className="flex flex-col gap-4">
-          <PlanarControlSection sceneHandle={sceneHandle} />
-          
-          <div className="flex items-start gap-4">
-            <MovementControl onMove={handleMove} />
-            <RotationControl onRotate={handleRotate} />
+        {bimanualRigId ? (
+          <div className="flex flex-col gap-4" aria-label="bimanual-controls">
+            <h4 className="text-sm font-semibold">Left arm</h4>
+            <PlanarControlSection getRobot={getLeftArm} handedness="Left" />
+            <h4 className="text-sm font-semibold">Right arm</h4>
+            <PlanarControlSection getRobot={getRightArm} handedness="Right" />
           </div>
-        </div>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <PlanarControlSection getRobot={getSelectedRobot} />
+            
+            <div className="flex items-start gap-4">
+              <MovementControl onMove={handleMove} onPositionChange={handleStickChange} />
+              <RotationControl onRotate={handleRotate} onRotationStateChange={handleRotationStateChange} />
+            </div>
+          </div>
+        )}
+
+        <div className="border-t border-gray-200 my-3" />
+
+        <h3 className="text-lg font-semibold mb-3">Joint Limits</h3>
+        <JointLimitsTable limits={pivotLimits} />
 
         <div className="text-xs text-gray-600 mt-4 leading-normal border-t border-gray-200 pt-4" aria-label="attribution">
           Burger bun 3D model:
@@ -1,3 +1,56 @@
+import { Robot } from './robots/Robot';
 import { SO101 } from './robots/SO101';
 import { LeKiwi } from './robots/LeKiwi';
-export { SO101, LeKiwi };
+import { BimanualSO101, ARM_SIDES } from './robots/BimanualSO101';
+export { Robot, SO101, LeKiwi, BimanualSO101, ARM_SIDES };
+export type { ArmSide, BimanualLoaderOptions } from './robots/BimanualSO101';
+export { SO101_DEFINITION } from './robots/SO101';
+export { LEKIWI_DEFINITION } from './robots/LeKiwi';
+export { TeleopLink } from './utils/teleop';
+export type { ResolvedTeleopMapping, TeleopOptions, TeleopPivotMapping } from './utils/teleop';
+export {
+  BROADCAST_ID,
+  INSTRUCTIONS,
+  STATUS_ERRORS,
+  STS3215_CONTROL_TABLE,
+  STS3215_SIGN_BITS,
+  STS3215_MODEL_NUMBER,
+  FeetechPacketReader,
+  checksum,
+  encodePacket,
+  decodePacket,
+  encodeValue,
+  decodeValue,
+  encodePing,
+  encodeRead,
+  encodeWrite,
+  encodeSyncRead,
+  encodeSyncWrite
+} from './utils/feetech';
+export type { FeetechPacket } from './utils/feetech';
+export { VirtualServoBus, assignServoIds } from './utils/servoBus';
+export type { VirtualServoBusOptions } from './utils/servoBus';
+export { SerialBridge, VirtualSerialPort } from './utils/serialBridge';
+export type { SerialBridgeMode, SerialBridgeOptions, SerialPortLike } from './utils/serialBridge';
+export { JSON_RPC_VERSION, RPC_ERRORS, REMOTE_EVENTS, RemoteControlError } from './remote/protocol';
+export type { RemoteEvent, RemoteMethod, RemoteMethods, SceneState } from './remote/protocol';
+export { RemoteControlHost } from './remote/host';
+export type { RemoteSession } from './remote/host';
+export { RemoteControlClient } from './remote/client';
+export type { MessageSocket } from './remote/client';
+export {
+  ROBOT_DEFINITION_VERSION,
+  RobotDefinitionError,
+  validateRobotDefinition,
+  parseRobotDefinition
+} from './robots/RobotDefinition';
+export type { RobotDefinition } from './robots/RobotDefinition';
+export {
+  CalibrationError,
+  validateCalibration,
+  parseCalibration
+} from './robots/Calibration';
+export type { CalibrationFile, MotorCalibration, NormMode } from './robots/Calibration';
+export type { GrippedObjectState, JointCommandOptions, PivotUnit, RobotState } from './robots/Robot';
+export type { JointLimits } from './utils/jointLimits';
+export type { LeKiwiState } from './robots/LeKiwi';
@@ -5,7 +5,7 @@ import * as handPoseDetection from '@tensorflow-models/hand-pose-detection';
 import { Settings } from 'lucide-react';
 import { IKVisualization } from './components/IKVisualization';
 import { inverseKinematics2Link } from './utils/inverseKinematics';
-import { SmoothedHandDetector } from './utils/SmoothedHandDetector';
+import { Handedness, SmoothedHandDetector } from './utils/SmoothedHandDetector';
 
 type PlanarPosition = {
   x: number;
@@ -22,6 +22,7 @@ type PlanarControlOptions = {
   onGripperMouthAngleChange?: (angleDegrees: number) => void;
   onWristRollChange?: (angleDegrees: number) => void;
   onWristFlexChange?: (angleDegrees: number) => void;
+  handedness?: Handedness; // Only follow this hand when tracking, so two controls can share the camera
 };
 
 type InteractionAxis = 'x' | 'y' | 'both';
@@ -225,12 +226,13 @@ export class PlanarControl {
         runtime: 'mediapipe',
         solutionPath: 'https://cdn.jsdelivr.net/npm/@mediapipe/hands',
         modelType: 'full',
-        maxHands: 1,
+        // with a handedness set the other hand may be in view too, driving another control
+        maxHands: this.options.handedness ? 2 : 1,
       }
     );
 
     // Wrap with smoothing (buffer size of 5 frames, adjust as needed)
-    this.detector = new SmoothedHandDetector(rawDetector, 30);
+    this.detector = new SmoothedHandDetector(rawDetector, 30, this.options.handedness);
 
     return this.detector;
   }
@@ -0,0 +1,207 @@
+import type { SpawnObjectOptions, MainSceneEvents } from '../types/scene';
+import type { PivotUnit, RobotState } from '../robots/Robot';
+import type { BaseVelocity } from '../utils/omniBase';
+import type { RemoteControlHost } from './host';
+import {
+  JSON_RPC_VERSION,
+  RPC_ERRORS,
+  RemoteControlError,
+  RemoteEvent,
+  RemoteMethod,
+  RemoteMethods,
+  RpcEventNotification,
+  RpcResponse,
+  SceneState,
+} from './protocol';
+
+/**
+ * Calls the scene's remote control methods, over a WebSocket or in-process
+ */
+
+/**
+ * The part of a WebSocket the client uses, the browser's and the ws package's both fit
+ */
+export interface MessageSocket {
+  send(data: string): void;
+  close(): void;
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+  addEventListener(type: 'close', listener: () => void): void;
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export class RemoteControlClient {
+  private send: (message: string) => void;
+  private onClose: () => void;
+  private nextId: number;
+  private pending: Map<number, PendingCall>;
+  private listeners: { [E in RemoteEvent]: Set<(data: MainSceneEvents[E]) => void> };
+  private closed: boolean;
+
+  /**
+   * @param send Delivers a message to the host, whose replies are passed to receive
+   * @param onClose Called by close, e.g. to close the socket
+   */
+  constructor(send: (message: string) => void, onClose: () => void = () => undefined) {
+    this.send = send;
+    this.onClose = onClose;
+    this.nextId = 1;
+    this.pending = new Map();
+    this.listeners = { robots: new Set(), objects: new Set(), step: new Set() };
+    this.closed = false;
+  }
+
+  /**
+   * A client talking to the relay over an open WebSocket
+   */
+  static fromWebSocket(socket: MessageSocket): RemoteControlClient {
+    const client = new RemoteControlClient(message => socket.send(message), () => socket.close());
+    socket.addEventListener('message', event => client.receive(String(event.data)));
+    socket.addEventListener('close', () => client.close());
+    return client;
+  }
+
+  /**
+   * A client calling a host in the same process, without a network in between, e.g. in tests
+   */
+  static inProcess(host: RemoteControlHost): RemoteControlClient {
+    let session: ReturnType<RemoteControlHost['openSession']> | null = null;
+    const client = new RemoteControlClient(message => session?.receive(message), () => session?.close());
+    session = host.openSession(message => client.receive(message));
+    return client;
+  }
+
+  /**
+   * Handle a message from the host: resolve the call it answers or pass an event to the listeners
+   */
+  receive(message: string): void {
+    let parsed: RpcResponse | RpcEventNotification | (RpcResponse | RpcEventNotification)[];
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      console.warn(`Ignoring a remote control message that isn't JSON`);
+      return;
+    }
+
+    (Array.isArray(parsed) ? parsed : [parsed]).forEach(item => {
+      if ('method' in item && item.method === 'event') {
+        this.notify(item);
+        return;
+      }
+
+      const response = item as RpcResponse;
+      const call = typeof response.id === 'number' ? this.pending.get(response.id) : undefined;
+      if (!call) return;
+      this.pending.delete(response.id as number);
+      if (response.error) {
+        call.reject(new RemoteControlError(response.error.code, response.error.message, response.error.data));
+      } else {
+        call.resolve(response.result);
+      }
+    });
+  }
+
+  /**
+   * Call a method on the scene
+   * @throws RemoteControlError if the host answered with an error
+   */
+  call<M extends RemoteMethod>(method: M, params: RemoteMethods[M]['params']): Promise<RemoteMethods[M]['result']> {
+    if (this.closed) {
+      return Promise.reject(new RemoteControlError(RPC_ERRORS.INTERNAL_ERROR, 'The client is closed'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      // the host answers each method with its result type
+      this.pending.set(id, { resolve: result => resolve(result as RemoteMethods[M]['result']), reject });
+      this.send(JSON.stringify({ jsonrpc: JSON_RPC_VERSION, id, method, params }));
+    });
+  }
+
+  /**
+   * State of every robot in the scene, the spawned objects and the simulation time
+   */
+  getState(): Promise<SceneState>;
+  /**
+   * State of one robot, see Robot.getState
+   */
+  getState(robotId: string): Promise<RobotState>;
+  getState(robotId?: string): Promise<SceneState | RobotState> {
+    return this.call('getState', robotId === undefined ? {} : { robotId });
+  }
+
+  setPivotValues(values: { [pivotName: string]: number }, options: { robotId?: string; unit?: PivotUnit } = {}): Promise<boolean> {
+    return this.call('setPivotValues', { ...options, values });
+  }
+
+  /**
+   * Drive a LeKiwi's base at a velocity until told otherwise, see LeKiwi.setBaseVelocity
+   */
+  moveBase(velocity: Partial<BaseVelocity>, robotId?: string): Promise<boolean> {
+    return this.call('moveBase', { ...velocity, robotId });
+  }
+
+  /**
+   * @returns The new object's ID
+   */
+  spawnObject(options: SpawnObjectOptions = {}): Promise<string> {
+    return this.call('spawnObject', options);
+  }
+
+  removeObject(id: string): Promise<boolean> {
+    return this.call('removeObject', { id });
+  }
+
+  reset(): Promise<boolean> {
+    return this.call('reset', {});
+  }
+
+  setPaused(paused: boolean): Promise<boolean> {
+    return this.call('setPaused', { paused });
+  }
+
+  /**
+   * Advance the simulation, usually while it's paused
+   * @param delta Seconds per step, defaults to 1/60
+   * @param steps Number of steps
+   * @returns The simulation time afterwards
+   */
+  step(delta?: number, steps?: number): Promise<number> {
+    return this.call('step', { delta, steps });
+  }
+
+  /**
+   * Listen to an event of the scene
+   * @returns A function that removes the listener, and unsubscribes once no listener is left
+   */
+  async subscribe<E extends RemoteEvent>(event: E, listener: (data: MainSceneEvents[E]) => void): Promise<() => Promise<void>> {
+    const listeners = this.listeners[event] as Set<(data: MainSceneEvents[E]) => void>;
+    if (listeners.size === 0) await this.call('subscribe', { event });
+    listeners.add(listener);
+
+    return async () => {
+      if (!listeners.delete(listener) || listeners.size > 0) return;
+      await this.call('unsubscribe', { event });
+    };
+  }
+
+  // pass an event to its listeners, events this client doesn't know are ignored
+  private notify<E extends RemoteEvent>(notification: RpcEventNotification<E>): void {
+    const listeners = this.listeners[notification.params.event] as Set<(data: MainSceneEvents[E]) => void> | undefined;
+    listeners?.forEach(listener => listener(notification.params.data));
+  }
+
+  /**
+   * Close the connection, calls that haven't been answered fail
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.pending.forEach(call => call.reject(new RemoteControlError(RPC_ERRORS.INTERNAL_ERROR, 'The connection was closed')));
+    this.pending.clear();
+    this.onClose();
+  }
+}
@@ -0,0 +1,279 @@
+/** @jest-environment jsdom */
+import type { MainSceneEvents, MainSceneHandle, SpawnObjectOptions } from '../types/scene';
+import { SO101 } from '../robots/SO101';
+import { LeKiwi } from '../robots/LeKiwi';
+import { loadRobot } from '../testing/loadRobot';
+import { RemoteControlHost } from './host';
+import { RemoteControlClient } from './client';
+import { RPC_ERRORS, RemoteControlError, RemoteMethod, RpcResponse, SceneState } from './protocol';
+
+type Listener = (payload: unknown) => void;
+
+// the parts of the scene the host uses, with objects that are only names
+function createStubScene(robots: { [id: string]: SO101 | LeKiwi }) {
+  const objects = new Set<string>();
+  const listeners: { [event: string]: Set<Listener> } = {};
+  const emit = <E extends keyof MainSceneEvents>(event: E, payload: MainSceneEvents[E]) =>
+    listeners[event]?.forEach(listener => listener(payload));
+  let time = 0;
+  let paused = false;
+
+  const scene = {
+    getRobot: (id: string) => robots[id] ?? null,
+    getRobotIds: () => Object.keys(robots),
+    getSelectedRobotId: () => 'arm',
+    getActiveRobot: () => robots.arm,
+    getObjectIds: () => Array.from(objects),
+    spawnObject: jest.fn((options: SpawnObjectOptions = {}) => {
+      const id = options.id ?? options.shape ?? 'box';
+      if (objects.has(id)) return null;
+      objects.add(id);
+      emit('objects', { ids: Array.from(objects) });
+      return id;
+    }),
+    removeObject: (id: string) => {
+      objects.delete(id);
+      emit('objects', { ids: Array.from(objects) });
+      return true;
+    },
+    reset: jest.fn(async () => {
+      objects.clear();
+      time = 0;
+    }),
+    setPaused: (value: boolean) => paused = value,
+    isPaused: () => paused,
+    step: (delta = 1 / 60) => {
+      time += delta;
+      emit('step', { delta, time });
+      return time;
+    },
+    getSimulationTime: () => time,
+    subscribe: jest.fn((event: string, listener: Listener) => {
+      (listeners[event] ??= new Set()).add(listener);
+      return () => listeners[event].delete(listener);
+    }),
+  };
+  return { scene, handle: scene as unknown as MainSceneHandle, listeners };
+}
+
+const rpcError = (code: number) => expect.objectContaining({ name: 'RemoteControlError', code });
+
+describe('RemoteControlHost', () => {
+  let arm: SO101;
+  let kiwi: LeKiwi;
+  let stub: ReturnType<typeof createStubScene>;
+  let host: RemoteControlHost;
+  let client: RemoteControlClient;
+
+  beforeAll(async () => {
+    arm = await loadRobot(new SO101(), 'urdf/so101.urdf');
+  });
+
+  beforeEach(() => {
+    kiwi = new LeKiwi();
+    jest.spyOn(kiwi, 'getState').mockReturnValue(arm.getState() as ReturnType<LeKiwi['getState']>);
+    stub = createStubScene({ arm, kiwi });
+    host = new RemoteControlHost(stub.handle);
+    client = RemoteControlClient.inProcess(host);
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  // messages a session sends back for a raw message
+  const exchange = async (message: string): Promise<RpcResponse | RpcResponse[] | undefined> => {
+    const sent: string[] = [];
+    await host.openSession(reply => sent.push(reply)).receive(message);
+    return sent.length > 0 ? JSON.parse(sent[0]) : undefined;
+  };
+
+  describe('getState', () => {
+    it('describes the scene', async () => {
+      stub.scene.spawnObject({ id: 'cube' });
+      const state = await client.getState();
+      expect(Object.keys(state.robots)).toEqual(['arm', 'kiwi']);
+      expect(state).toMatchObject<Partial<SceneState>>({ selectedRobotId: 'arm', objects: ['cube'], time: 0, paused: false });
+    });
+
+    it('describes one robot', async () => {
+      arm.setPivotValue('elbow_flex', 30);
+      expect((await client.getState('arm')).pivots.elbow_flex).toBe(30);
+    });
+
+    it(`fails for a robot that doesn't exist`, async () => {
+      await expect(client.getState('nope')).rejects.toEqual(rpcError(RPC_ERRORS.NOT_FOUND));
+    });
+  });
+
+  describe('setPivotValues', () => {
+    it('sets pivots of the selected robot', async () => {
+      expect(await client.setPivotValues({ shoulder_pan: 20, wrist_flex: -10 })).toBe(true);
+      expect(arm.pivotMap.shoulder_pan.value).toBeCloseTo(20);
+      expect(arm.pivotMap.wrist_flex.value).toBeCloseTo(-10);
+    });
+
+    it('converts from the given unit', async () => {
+      await client.setPivotValues({ elbow_flex: 0.5 }, { robotId: 'arm', unit: 'rad' });
+      expect(arm.getPivot('elbow_flex', 'rad')).toBeCloseTo(0.5);
+    });
+
+    it('rejects unknown pivots, values that are not numbers and unknown units', async () => {
+      await expect(client.setPivotValues({ tail: 1 })).rejects.toEqual(rpcError(RPC_ERRORS.NOT_FOUND));
+      await expect(client.call('setPivotValues', { values: { elbow_flex: 'up' as unknown as number } }))
+        .rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      await expect(client.call('setPivotValues', { values: {}, unit: 'furlong' as 'deg' }))
+        .rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+    });
+
+    it(`doesn't set any pivot when one of the values is invalid`, async () => {
+      const before = arm.pivotMap.shoulder_pan.value;
+      await expect(client.call('setPivotValues', { values: { shoulder_pan: 20, elbow_flex: 'up' as unknown as number } }))
+        .rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      expect(arm.pivotMap.shoulder_pan.value).toBe(before);
+    });
+
+    it('sets every pivot even after one fails', async () => {
+      const setPivot = jest.spyOn(arm, 'setPivot').mockImplementationOnce(() => false);
+      expect(await client.setPivotValues({ shoulder_pan: 20, wrist_flex: -10 })).toBe(false);
+      expect(setPivot).toHaveBeenCalledTimes(2);
+      expect(arm.pivotMap.wrist_flex.value).toBeCloseTo(-10);
+      setPivot.mockRestore();
+    });
+  });
+
+  describe('moveBase', () => {
+    it(`drives a LeKiwi's base, leaving out components as 0`, async () => {
+      const setBaseVelocity = jest.spyOn(kiwi, 'setBaseVelocity').mockImplementation(() => undefined);
+      expect(await client.moveBase({ x: 0.2 }, 'kiwi')).toBe(true);
+      expect(setBaseVelocity).toHaveBeenCalledWith({ x: 0.2, y: 0, theta: 0 });
+    });
+
+    it('fails for a robot without a base', async () => {
+      await expect(client.moveBase({ x: 0.2 }, 'arm')).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+    });
+  });
+
+  describe('objects', () => {
+    it('spawns and removes objects', async () => {
+      expect(await client.spawnObject({ id: 'ball', shape: 'sphere', size: 2 })).toBe('ball');
+      expect(stub.scene.spawnObject).toHaveBeenCalledWith(expect.objectContaining({ id: 'ball', shape: 'sphere', size: 2 }));
+      expect(await client.removeObject('ball')).toBe(true);
+      expect(stub.scene.getObjectIds()).toEqual([]);
+    });
+
+    it('checks the spawn options', async () => {
+      await expect(client.spawnObject({ shape: 'cone' as 'box' })).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      await expect(client.spawnObject({ size: -1 })).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      await expect(client.spawnObject({ position: { x: 'left' as unknown as number } })).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      expect(stub.scene.spawnObject).not.toHaveBeenCalled();
+    });
+
+    it('fails to spawn an object whose ID is taken', async () => {
+      await client.spawnObject({ id: 'cube' });
+      await expect(client.spawnObject({ id: 'cube' })).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+    });
+
+    it(`fails to remove an object that doesn't exist`, async () => {
+      await expect(client.removeObject('ghost')).rejects.toEqual(rpcError(RPC_ERRORS.NOT_FOUND));
+    });
+  });
+
+  describe('simulation', () => {
+    it('resets the scene', async () => {
+      expect(await client.reset()).toBe(true);
+      expect(stub.scene.reset).toHaveBeenCalled();
+    });
+
+    it('pauses and steps', async () => {
+      expect(await client.setPaused(true)).toBe(true);
+      expect(stub.scene.isPaused()).toBe(true);
+      expect(await client.step(0.5, 4)).toBeCloseTo(2);
+      expect(await client.step()).toBeCloseTo(2 + 1 / 60);
+    });
+
+    it('rejects a step count out of range and a delta that is not positive', async () => {
+      await expect(client.step(1 / 60, 0)).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      await expect(client.step(1 / 60, 1001)).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      await expect(client.step(0)).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      await expect(client.call('setPaused', { paused: 'yes' as unknown as boolean })).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+    });
+  });
+
+  describe('JSON-RPC', () => {
+    it('answers unknown methods with METHOD_NOT_FOUND', async () => {
+      await expect(client.call('fly' as RemoteMethod, {})).rejects.toEqual(rpcError(RPC_ERRORS.METHOD_NOT_FOUND));
+    });
+
+    it('answers messages that are not JSON or not requests', async () => {
+      expect(await exchange('{')).toMatchObject({ id: null, error: { code: RPC_ERRORS.PARSE_ERROR } });
+      expect(await exchange('{"id": 3, "method": "reset"}')).toMatchObject({ id: 3, error: { code: RPC_ERRORS.INVALID_REQUEST } });
+      expect(await exchange('[]')).toMatchObject({ id: null, error: { code: RPC_ERRORS.INVALID_REQUEST } });
+      expect(await exchange('{"jsonrpc": "2.0", "id": 4, "method": "step", "params": [1]}'))
+        .toMatchObject({ id: 4, error: { code: RPC_ERRORS.INVALID_PARAMS } });
+    });
+
+    it('answers each request of a batch but not its notifications', async () => {
+      const responses = await exchange(JSON.stringify([
+        { jsonrpc: '2.0', id: 1, method: 'setPaused', params: { paused: true } },
+        { jsonrpc: '2.0', method: 'step', params: { delta: 1 } },
+        { jsonrpc: '2.0', id: 'time', method: 'getState' },
+        { jsonrpc: '2.0', id: 3, method: 'fly' },
+      ])) as RpcResponse[];
+
+      expect(responses.map(response => response.id)).toEqual([1, 'time', 3]);
+      expect(responses[0].result).toBe(true);
+      expect((responses[1].result as SceneState).time).toBe(1);
+      expect(responses[2].error?.code).toBe(RPC_ERRORS.METHOD_NOT_FOUND);
+    });
+
+    it(`doesn't answer notifications, even failing ones`, async () => {
+      expect(await exchange('{"jsonrpc": "2.0", "method": "step", "params": {"delta": 1}}')).toBeUndefined();
+      expect(await exchange('{"jsonrpc": "2.0", "method": "fly"}')).toBeUndefined();
+      expect(await exchange('[{"jsonrpc": "2.0", "method": "reset"}]')).toBeUndefined();
+      expect(stub.scene.getSimulationTime()).toBe(0);
+      expect(stub.scene.reset).toHaveBeenCalled();
+    });
+  });
+
+  describe('events', () => {
+    it('passes events to the listeners until they unsubscribe', async () => {
+      const listener = jest.fn();
+      const unsubscribe = await client.subscribe('objects', listener);
+      await client.spawnObject({ id: 'cube' });
+      expect(listener).toHaveBeenCalledWith({ ids: ['cube'] });
+
+      await unsubscribe();
+      await client.removeObject('cube');
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(stub.listeners.objects.size).toBe(0);
+    });
+
+    it('subscribes to the scene once however many listeners there are', async () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const unsubscribeFirst = await client.subscribe('step', first);
+      await client.subscribe('step', second);
+      await client.step();
+      expect(stub.scene.subscribe).toHaveBeenCalledTimes(1);
+
+      await unsubscribeFirst();
+      await client.step();
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(2);
+      expect(stub.listeners.step.size).toBe(1);
+    });
+
+    it('rejects unknown events and tells whether an unsubscribe removed anything', async () => {
+      await expect(client.call('subscribe', { event: 'weather' as 'step' })).rejects.toEqual(rpcError(RPC_ERRORS.INVALID_PARAMS));
+      expect(await client.call('unsubscribe', { event: 'robots' })).toBe(false);
+    });
+
+    it('drops the subscriptions of a closed client', async () => {
+      await client.subscribe('objects', jest.fn());
+      client.close();
+      expect(stub.listeners.objects.size).toBe(0);
+      await expect(client.reset()).rejects.toBeInstanceOf(RemoteControlError);
+    });
+  });
+});
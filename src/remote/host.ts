@@ -0,0 +1,364 @@
+import type { MainSceneEvents, MainSceneHandle, SceneObjectShape, SpawnObjectOptions } from '../types/scene';
+import type { PivotUnit, RobotState } from '../robots/Robot';
+import { LeKiwi } from '../robots/LeKiwi';
+import {
+  JSON_RPC_VERSION,
+  REMOTE_EVENTS,
+  RPC_ERRORS,
+  RelayEnvelope,
+  RemoteControlError,
+  RemoteEvent,
+  RemoteMethod,
+  RemoteMethods,
+  RpcEventNotification,
+  RpcId,
+  RpcRequest,
+  RpcResponse,
+  SceneState,
+} from './protocol';
+
+/**
+ * Answers JSON-RPC requests against the scene. Each connected client gets a session, which keeps its event subscriptions
+ */
+
+export interface RemoteSession {
+  receive(message: string): Promise<void>;  // Handle a message from the client, the response is sent through the session's send
+  close(): void;                            // Drop the client's subscriptions
+}
+
+type Params = { [key: string]: unknown };
+
+const PIVOT_UNITS: PivotUnit[] = ['pivot', 'rad', 'deg', 'RANGE_M100_100', 'RANGE_0_100', 'DEGREES'];
+
+const OBJECT_SHAPES: SceneObjectShape[] = ['box', 'sphere', 'cylinder'];
+
+// longest run of steps a single request may ask for, so one call can't stall the page for long
+const MAX_STEPS = 1000;
+
+const isObject = (value: unknown): value is Params =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRpcId = (value: unknown): value is RpcId => typeof value === 'number' || typeof value === 'string';
+
+const isRequest = (value: unknown): value is RpcRequest =>
+  isObject(value) && value.jsonrpc === JSON_RPC_VERSION && typeof value.method === 'string' && (value.id === undefined || isRpcId(value.id));
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRemoteEvent = (value: unknown): value is RemoteEvent => REMOTE_EVENTS.includes(value as RemoteEvent);
+
+const isPivotUnit = (value: unknown): value is PivotUnit => PIVOT_UNITS.includes(value as PivotUnit);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isShape = (value: unknown): value is SceneObjectShape => OBJECT_SHAPES.includes(value as SceneObjectShape);
+
+const invalidParams = (message: string) => new RemoteControlError(RPC_ERRORS.INVALID_PARAMS, message);
+
+// a number from the params, or the fallback if it's left out
+const optionalNumber = (params: Params, key: string, fallback: number): number => {
+  const value = params[key] ?? fallback;
+  if (!isNumber(value)) throw invalidParams(`${key} must be a number`);
+  return value;
+};
+
+// a value from the params that's left out or passes the check
+const optional = <T>(params: Params, key: string, check: (value: unknown) => value is T, expected: string): T | undefined => {
+  const value = params[key];
+  if (value !== undefined && !check(value)) throw invalidParams(`${key} must be ${expected}`);
+  return value as T | undefined;
+};
+
+// spawn options from the params, checked as they come from outside the page
+function parseSpawnOptions(params: Params): SpawnObjectOptions {
+  const position = optional(params, 'position', isObject, 'an object with x, y and z');
+  if (position && !Object.values(position).every(isNumber)) throw invalidParams('position must be an object with x, y and z');
+
+  const size = optional(params, 'size', isNumber, 'a number');
+  const mass = optional(params, 'mass', isNumber, 'a number');
+  if (size !== undefined && size <= 0) throw invalidParams('size must be positive');
+  if (mass !== undefined && mass < 0) throw invalidParams(`mass can't be negative`);
+
+  return {
+    id: optional(params, 'id', isString, 'a string'),
+    shape: optional(params, 'shape', isShape, `one of ${OBJECT_SHAPES.join(', ')}`),
+    size,
+    position: position as SpawnObjectOptions['position'],
+    mass,
+    color: optional(params, 'color', isString, 'a string'),
+    grippable: optional(params, 'grippable', isBoolean, 'a boolean'),
+  };
+}
+
+export class RemoteControlHost {
+  readonly scene: MainSceneHandle;
+
+  private socket: WebSocket | null;
+  private relaySessions: Map<number, RemoteSession>;
+
+  constructor(scene: MainSceneHandle) {
+    this.scene = scene;
+    this.socket = null;
+    this.relaySessions = new Map();
+  }
+
+  /**
+   * Start a session for a client, e.g. an in-process RemoteControlClient
+   * @param send Delivers a message to the client
+   */
+  openSession(send: (message: string) => void): RemoteSession {
+    const subscriptions = new Map<RemoteEvent, () => void>();
+
+    const subscribe = <E extends RemoteEvent>(event: E) => {
+      if (subscriptions.has(event)) return;
+      subscriptions.set(event, this.scene.subscribe(event, (data: MainSceneEvents[E]) => {
+        const notification: RpcEventNotification<E> = { jsonrpc: JSON_RPC_VERSION, method: 'event', params: { event, data } };
+        send(JSON.stringify(notification));
+      }));
+    };
+
+    const unsubscribe = (event: RemoteEvent) => {
+      subscriptions.get(event)?.();
+      return subscriptions.delete(event);
+    };
+
+    return {
+      receive: async (message: string) => {
+        const response = await this.handleMessage(message, subscribe, unsubscribe);
+        if (response) send(JSON.stringify(response));
+      },
+      close: () => {
+        subscriptions.forEach(unsubscribeListener => unsubscribeListener());
+        subscriptions.clear();
+      },
+    };
+  }
+
+  /**
+   * Serve the clients of a WebSocket relay, see src/remote/relay.ts
+   * @param url The relay's scene endpoint, like ws://localhost:8765/scene
+   * @returns Boolean indicating whether the connection was made
+   */
+  connect(url: string): Promise<boolean> {
+    this.disconnect();
+
+    return new Promise(resolve => {
+      const socket = new WebSocket(url);
+      socket.addEventListener('open', () => {
+        this.socket = socket;
+        resolve(true);
+      });
+      socket.addEventListener('error', () => {
+        console.error(`Failed to connect to the remote control relay at ${url}`);
+        resolve(false);
+      });
+      socket.addEventListener('message', event => this.receiveFromRelay(socket, String(event.data)));
+      socket.addEventListener('close', () => {
+        if (this.socket === socket) this.disconnect();
+      });
+    });
+  }
+
+  disconnect(): void {
+    this.relaySessions.forEach(session => session.close());
+    this.relaySessions.clear();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  get isConnected(): boolean {
+    return this.socket !== null;
+  }
+
+  private receiveFromRelay(socket: WebSocket, data: string): void {
+    let envelope: RelayEnvelope;
+    try {
+      envelope = JSON.parse(data);
+    } catch {
+      console.warn(`Ignoring a message from the relay that isn't JSON`);
+      return;
+    }
+
+    const { client } = envelope;
+    if (envelope.closed) {
+      this.relaySessions.get(client)?.close();
+      this.relaySessions.delete(client);
+      return;
+    }
+    if (envelope.message === undefined) return;
+
+    let session = this.relaySessions.get(client);
+    if (!session) {
+      session = this.openSession(message => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ client, message }));
+      });
+      this.relaySessions.set(client, session);
+    }
+    session.receive(envelope.message);
+  }
+
+  // the response to a message, an array for batches, or null if it was only notifications
+  private async handleMessage(
+    message: string,
+    subscribe: (event: RemoteEvent) => void,
+    unsubscribe: (event: RemoteEvent) => boolean,
+  ): Promise<RpcResponse | RpcResponse[] | null> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      return this.errorResponse(null, new RemoteControlError(RPC_ERRORS.PARSE_ERROR, 'Message is not valid JSON'));
+    }
+
+    if (Array.isArray(parsed)) {
+      if (parsed.length === 0) {
+        return this.errorResponse(null, new RemoteControlError(RPC_ERRORS.INVALID_REQUEST, 'Batch is empty'));
+      }
+      const responses: RpcResponse[] = [];
+      for (const request of parsed) {
+        const response = await this.handleRequest(request, subscribe, unsubscribe);
+        if (response) responses.push(response);
+      }
+      return responses.length > 0 ? responses : null;
+    }
+    return this.handleRequest(parsed, subscribe, unsubscribe);
+  }
+
+  private async handleRequest(
+    request: unknown,
+    subscribe: (event: RemoteEvent) => void,
+    unsubscribe: (event: RemoteEvent) => boolean,
+  ): Promise<RpcResponse | null> {
+    if (!isRequest(request)) {
+      const id = isObject(request) && isRpcId(request.id) ? request.id : null;
+      return this.errorResponse(id, new RemoteControlError(RPC_ERRORS.INVALID_REQUEST, 'Not a JSON-RPC 2.0 request'));
+    }
+
+    const { id, method } = request;
+    const params = request.params ?? {};
+    try {
+      if (!isObject(params)) throw invalidParams('params must be an object');
+      const result = await this.call(method, params, subscribe, unsubscribe);
+      return id === undefined ? null : { jsonrpc: JSON_RPC_VERSION, id, result };
+    } catch (error) {
+      if (id === undefined) return null;
+      if (error instanceof RemoteControlError) return this.errorResponse(id, error);
+      return this.errorResponse(id, new RemoteControlError(RPC_ERRORS.INTERNAL_ERROR, String(error)));
+    }
+  }
+
+  private errorResponse(id: RpcResponse['id'], error: RemoteControlError): RpcResponse {
+    const rpcError = error.data === undefined
+      ? { code: error.code, message: error.message }
+      : { code: error.code, message: error.message, data: error.data };
+    return { jsonrpc: JSON_RPC_VERSION, id, error: rpcError };
+  }
+
+  private getRobot(robotId: unknown) {
+    if (robotId !== undefined && typeof robotId !== 'string') throw invalidParams('robotId must be a string');
+    const robot = typeof robotId === 'string' ? this.scene.getRobot(robotId) : this.scene.getActiveRobot();
+    if (!robot) {
+      throw new RemoteControlError(RPC_ERRORS.NOT_FOUND, robotId === undefined ? 'No robot is selected' : `Robot '${robotId}' not found`);
+    }
+    return robot;
+  }
+
+  private async call(
+    method: string,
+    params: Params,
+    subscribe: (event: RemoteEvent) => void,
+    unsubscribe: (event: RemoteEvent) => boolean,
+  ): Promise<RemoteMethods[RemoteMethod]['result']> {
+    switch (method as RemoteMethod) {
+      case 'getState': {
+        if (params.robotId !== undefined) return this.getRobot(params.robotId).getState();
+
+        const robots: { [robotId: string]: RobotState } = {};
+        this.scene.getRobotIds().forEach(id => robots[id] = this.scene.getRobot(id)!.getState());
+        const state: SceneState = {
+          robots,
+          selectedRobotId: this.scene.getSelectedRobotId(),
+          objects: this.scene.getObjectIds(),
+          time: this.scene.getSimulationTime(),
+          paused: this.scene.isPaused(),
+        };
+        return state;
+      }
+
+      case 'setPivotValues': {
+        const robot = this.getRobot(params.robotId);
+        const unit = params.unit ?? 'pivot';
+        if (!isPivotUnit(unit)) throw invalidParams(`unit must be one of ${PIVOT_UNITS.join(', ')}`);
+        const values = params.values;
+        if (!isObject(values)) throw invalidParams('values must be an object keyed by pivot name');
+
+        const missing = Object.keys(values).filter(name => !robot.pivotMap[name]);
+        if (missing.length > 0) throw new RemoteControlError(RPC_ERRORS.NOT_FOUND, `Pivots not found: ${missing.join(', ')}`);
+        // nothing is set unless every value is valid, then every pivot is set even if one fails
+        const invalid = Object.keys(values).find(name => !isNumber(values[name]));
+        if (invalid !== undefined) throw invalidParams(`values.${invalid} must be a number`);
+        return Object.entries(values as { [name: string]: number })
+          .map(([name, value]) => robot.setPivot(name, value, unit))
+          .every(Boolean);
+      }
+
+      case 'moveBase': {
+        const robot = this.getRobot(params.robotId);
+        if (!(robot instanceof LeKiwi)) throw invalidParams(`Robot '${robot.name}' has no mobile base`);
+        robot.setBaseVelocity({
+          x: optionalNumber(params, 'x', 0),
+          y: optionalNumber(params, 'y', 0),
+          theta: optionalNumber(params, 'theta', 0),
+        });
+        return true;
+      }
+
+      case 'spawnObject': {
+        const id = this.scene.spawnObject(parseSpawnOptions(params));
+        if (id === null) throw invalidParams(params.id === undefined ? `The object couldn't be spawned` : `An object named '${params.id}' already exists`);
+        return id;
+      }
+
+      case 'removeObject':
+        if (!isString(params.id)) throw invalidParams('id must be a string');
+        if (!this.scene.getObjectIds().includes(params.id)) {
+          throw new RemoteControlError(RPC_ERRORS.NOT_FOUND, `Object '${params.id}' not found`);
+        }
+        return this.scene.removeObject(params.id);
+
+      case 'reset':
+        await this.scene.reset();
+        return true;
+
+      case 'setPaused':
+        if (!isBoolean(params.paused)) throw invalidParams('paused must be a boolean');
+        this.scene.setPaused(params.paused);
+        return true;
+
+      case 'step': {
+        const delta = optionalNumber(params, 'delta', 1 / 60);
+        const steps = optionalNumber(params, 'steps', 1);
+        if (delta <= 0) throw invalidParams('delta must be positive');
+        if (!Number.isInteger(steps) || steps < 1 || steps > MAX_STEPS) {
+          throw invalidParams(`steps must be a whole number from 1 to ${MAX_STEPS}`);
+        }
+        for (let i = 0; i < steps; i++) this.scene.step(delta);
+        return this.scene.getSimulationTime();
+      }
+
+      case 'subscribe':
+      case 'unsubscribe': {
+        if (!isRemoteEvent(params.event)) throw invalidParams(`event must be one of ${REMOTE_EVENTS.join(', ')}`);
+        if (method === 'unsubscribe') return unsubscribe(params.event);
+        subscribe(params.event);
+        return true;
+      }
+
+      default:
+        throw new RemoteControlError(RPC_ERRORS.METHOD_NOT_FOUND, `Method '${method}' not found`);
+    }
+  }
+}
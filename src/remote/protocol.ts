@@ -0,0 +1,108 @@
+import type { MainSceneEvents, SpawnObjectOptions } from '../types/scene';
+import type { PivotUnit, RobotState } from '../robots/Robot';
+import type { BaseVelocity } from '../utils/omniBase';
+
+/**
+ * JSON-RPC 2.0 remote control of the scene, so scripts and tools outside the page can drive it.
+ * Requests are answered by a RemoteControlHost next to the scene, reached in-process or through
+ * the WebSocket relay in src/remote/relay.ts
+ */
+
+export const JSON_RPC_VERSION = '2.0';
+
+// error codes of the JSON-RPC specification, then server errors: something named in the params wasn't found,
+// or the relay has no scene to pass the request to
+export const RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  NOT_FOUND: -32000,
+  NO_SCENE: -32001,
+};
+
+export type RpcId = number | string;
+
+export interface RpcRequest {
+  jsonrpc: typeof JSON_RPC_VERSION;
+  id?: RpcId;       // Left out for notifications, which get no response
+  method: string;
+  params?: unknown;
+}
+
+export interface RpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface RpcResponse {
+  jsonrpc: typeof JSON_RPC_VERSION;
+  id: RpcId | null;
+  result?: unknown;
+  error?: RpcErrorObject;
+}
+
+/**
+ * Sent by the host to subscribed clients, see the subscribe method
+ */
+export interface RpcEventNotification<E extends RemoteEvent = RemoteEvent> {
+  jsonrpc: typeof JSON_RPC_VERSION;
+  method: 'event';
+  params: { event: E; data: MainSceneEvents[E] };
+}
+
+export type RemoteEvent = keyof MainSceneEvents;
+
+export const REMOTE_EVENTS: RemoteEvent[] = ['robots', 'objects', 'step'];
+
+export interface SceneState {
+  robots: { [robotId: string]: RobotState };
+  selectedRobotId: string | null;
+  objects: string[];
+  time: number;      // Seconds simulated so far
+  paused: boolean;
+}
+
+/**
+ * Parameters and results of every method, the robot defaults to the selected one
+ */
+export interface RemoteMethods {
+  getState: { params: { robotId?: string }; result: SceneState | RobotState };
+  setPivotValues: { params: { robotId?: string; values: { [pivotName: string]: number }; unit?: PivotUnit }; result: boolean };
+  moveBase: { params: { robotId?: string } & Partial<BaseVelocity>; result: boolean };
+  spawnObject: { params: SpawnObjectOptions; result: string };
+  removeObject: { params: { id: string }; result: boolean };
+  reset: { params: {}; result: boolean };
+  setPaused: { params: { paused: boolean }; result: boolean };
+  step: { params: { delta?: number; steps?: number }; result: number };
+  subscribe: { params: { event: RemoteEvent }; result: boolean };
+  unsubscribe: { params: { event: RemoteEvent }; result: boolean };
+}
+
+export type RemoteMethod = keyof RemoteMethods;
+
+/**
+ * Error returned by a remote call, carrying the JSON-RPC error code
+ */
+export class RemoteControlError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'RemoteControlError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Messages between the relay and the host, tagging each client's messages with the client's number
+ */
+export interface RelayEnvelope {
+  client: number;
+  message?: string;  // A JSON-RPC message to or from the client
+  closed?: boolean;  // The client disconnected
+}
@@ -0,0 +1,70 @@
+import { WebSocket } from 'ws';
+import { RemoteControlClient } from './client';
+import { RPC_ERRORS, RelayEnvelope, RpcResponse } from './protocol';
+import { RemoteControlRelay, SCENE_PATH, connectRemoteControl } from './relay';
+
+const rpcError = (code: number) => expect.objectContaining({ name: 'RemoteControlError', code });
+
+const open = (url: string) => new Promise<WebSocket>((resolve, reject) => {
+  const socket = new WebSocket(url);
+  socket.once('open', () => resolve(socket));
+  socket.once('error', reject);
+});
+
+const nextMessage = (socket: WebSocket) => new Promise<string>(resolve => socket.once('message', data => resolve(data.toString())));
+
+describe('RemoteControlRelay', () => {
+  let relay: RemoteControlRelay;
+  let url: string;
+  let client: RemoteControlClient | null;
+
+  beforeEach(async () => {
+    relay = new RemoteControlRelay({ port: 0 });
+    url = `ws://localhost:${await relay.listen()}`;
+    client = null;
+  });
+
+  afterEach(async () => {
+    client?.close();
+    await relay.close();
+  });
+
+  it('answers requests with NO_SCENE while no scene is connected', async () => {
+    client = await connectRemoteControl(url);
+    expect(relay.hasScene).toBe(false);
+    await expect(client.reset()).rejects.toEqual(rpcError(RPC_ERRORS.NO_SCENE));
+  });
+
+  it('answers each request of a batch with NO_SCENE, and not notifications', async () => {
+    const socket = await open(url);
+    const reply = nextMessage(socket);
+    socket.send(JSON.stringify([
+      { jsonrpc: '2.0', method: 'reset' },
+      { jsonrpc: '2.0', id: 7, method: 'getState' },
+    ]));
+
+    const responses: RpcResponse[] = JSON.parse(await reply);
+    expect(responses).toEqual([{ jsonrpc: '2.0', id: 7, error: { code: RPC_ERRORS.NO_SCENE, message: expect.any(String) } }]);
+    socket.close();
+  });
+
+  it(`passes a client's requests to the scene and the scene's replies back`, async () => {
+    const scene = await open(`${url}${SCENE_PATH}`);
+    scene.on('message', data => {
+      const { client, message }: RelayEnvelope = JSON.parse(data.toString());
+      if (message === undefined) return;
+      const { id } = JSON.parse(message);
+      scene.send(JSON.stringify({ client, message: JSON.stringify({ jsonrpc: '2.0', id, result: true }) }));
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(relay.hasScene).toBe(true);
+
+    client = await connectRemoteControl(url);
+    expect(await client.reset()).toBe(true);
+
+    const closed = nextMessage(scene);
+    client.close();
+    expect(JSON.parse(await closed)).toEqual({ client: 1, closed: true });
+    scene.close();
+  });
+});
@@ -0,0 +1,162 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { RemoteControlClient } from './client';
+import { JSON_RPC_VERSION, RPC_ERRORS, RelayEnvelope, RpcResponse } from './protocol';
+
+/**
+ * Node WebSocket server between the scene and its remote clients. The page can't accept connections itself,
+ * so the scene's RemoteControlHost connects to /scene and every other connection is a client, like a Python
+ * script. Each client's messages are passed to the scene tagged with the client's number, and the replies back.
+ * Run it with `node dist/remote/relay.js [port]`
+ */
+
+export const DEFAULT_RELAY_PORT = 8765;
+
+export const SCENE_PATH = '/scene';
+
+export interface RemoteControlRelayOptions {
+  port?: number;  // Defaults to DEFAULT_RELAY_PORT, 0 picks a free port
+  host?: string;  // Defaults to localhost, so other machines can't drive the scene
+}
+
+export class RemoteControlRelay {
+  readonly options: RemoteControlRelayOptions;
+
+  private server: WebSocketServer | null;
+  private scene: WebSocket | null;
+  private clients: Map<number, WebSocket>;
+  private nextClient: number;
+
+  constructor(options: RemoteControlRelayOptions = {}) {
+    this.options = options;
+    this.server = null;
+    this.scene = null;
+    this.clients = new Map();
+    this.nextClient = 1;
+  }
+
+  /**
+   * Start accepting connections
+   * @returns The port the relay listens on
+   */
+  listen(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({
+        port: this.options.port ?? DEFAULT_RELAY_PORT,
+        host: this.options.host ?? 'localhost',
+      });
+      server.once('error', reject);
+      server.once('listening', () => {
+        server.off('error', reject);
+        this.server = server;
+        resolve((server.address() as { port: number }).port);
+      });
+      server.on('connection', (socket, request) => {
+        if (request.url === SCENE_PATH) {
+          this.addScene(socket);
+        } else {
+          this.addClient(socket);
+        }
+      });
+    });
+  }
+
+  /**
+   * Disconnect the scene and every client and stop listening
+   */
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.scene?.close();
+    this.clients.forEach(client => client.close());
+    return new Promise(resolve => server ? server.close(() => resolve()) : resolve());
+  }
+
+  get hasScene(): boolean {
+    return this.scene !== null;
+  }
+
+  // the newest scene to connect serves the clients, the page may have been reloaded
+  private addScene(socket: WebSocket): void {
+    this.scene?.close();
+    this.scene = socket;
+
+    socket.on('message', data => {
+      let envelope: RelayEnvelope;
+      try {
+        envelope = JSON.parse(data.toString());
+      } catch {
+        console.warn(`Ignoring a message from the scene that isn't JSON`);
+        return;
+      }
+      const client = this.clients.get(envelope.client);
+      if (client && envelope.message !== undefined && client.readyState === WebSocket.OPEN) {
+        client.send(envelope.message);
+      }
+    });
+    socket.on('close', () => {
+      if (this.scene === socket) this.scene = null;
+    });
+  }
+
+  private addClient(socket: WebSocket): void {
+    const client = this.nextClient++;
+    this.clients.set(client, socket);
+
+    socket.on('message', data => {
+      const message = data.toString();
+      if (this.scene?.readyState === WebSocket.OPEN) {
+        this.scene.send(JSON.stringify({ client, message }));
+      } else {
+        this.rejectWithoutScene(socket, message);
+      }
+    });
+    socket.on('close', () => {
+      this.clients.delete(client);
+      if (this.scene?.readyState === WebSocket.OPEN) {
+        this.scene.send(JSON.stringify({ client, closed: true }));
+      }
+    });
+  }
+
+  // answer every request in a message with an error, as there's no scene to answer them
+  private rejectWithoutScene(socket: WebSocket, message: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      return;
+    }
+
+    const responses: RpcResponse[] = (Array.isArray(parsed) ? parsed : [parsed])
+      .filter(request => request && (typeof request.id === 'number' || typeof request.id === 'string'))
+      .map(request => ({
+        jsonrpc: JSON_RPC_VERSION,
+        id: request.id,
+        error: { code: RPC_ERRORS.NO_SCENE, message: 'No scene is connected to the relay' },
+      }));
+    if (responses.length > 0) socket.send(JSON.stringify(Array.isArray(parsed) ? responses : responses[0]));
+  }
+}
+
+/**
+ * Connect a client to a relay from Node
+ * @param url The relay's address, like ws://localhost:8765
+ */
+export function connectRemoteControl(url: string = `ws://localhost:${DEFAULT_RELAY_PORT}`): Promise<RemoteControlClient> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    socket.once('open', () => resolve(RemoteControlClient.fromWebSocket(socket)));
+    socket.once('error', reject);
+  });
+}
+
+if (require.main === module) {
+  const port = process.argv[2] ? Number(process.argv[2]) : DEFAULT_RELAY_PORT;
+  const relay = new RemoteControlRelay({ port });
+  relay.listen().then(listening => {
+    console.log(`Remote control relay listening on ws://localhost:${listening}, the scene connects to ${SCENE_PATH}`);
+  }).catch(error => {
+    console.error(`The remote control relay couldn't listen on port ${port}:`, error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,181 @@
+import * as THREE from 'three';
+import { JointCommandOptions, PivotUnit, RobotState } from './Robot';
+import { SO101 } from './SO101';
+import { JointLimits } from '../utils/jointLimits';
+
+export type ArmSide = 'left' | 'right';
+
+export const ARM_SIDES: ArmSide[] = ['left', 'right'];
+
+export interface BimanualLoaderOptions {
+  scene: THREE.Scene;
+  enable3dPhysicsObject: any;
+  center?: THREE.Vector3;     // Point halfway between the arms' bases, defaults to the origin
+  rotationDegrees?: number;   // Yaw of the rig, both arms face the same way
+}
+
+/**
+ * Two SO101 arms side by side, for two-arm tasks. Pivots of both arms are addressed
+ * through one namespace, the side and the arm's pivot name joined by a dot: 'left.shoulder_pan'
+ */
+export class BimanualSO101 {
+  // distance between the arms' bases in meters, like a typical bimanual workstation
+  static DEFAULT_SPACING = 0.3;
+
+  readonly arms: { [side in ArmSide]: SO101 };
+  private spacing: number;
+  private center: THREE.Vector3;
+
+  constructor(spacing: number = BimanualSO101.DEFAULT_SPACING) {
+    this.arms = { left: new SO101(), right: new SO101() };
+    this.spacing = spacing;
+    this.center = new THREE.Vector3();
+  }
+
+  get left(): SO101 {
+    return this.arms.left;
+  }
+
+  get right(): SO101 {
+    return this.arms.right;
+  }
+
+  async load(options: BimanualLoaderOptions) {
+    const { scene, enable3dPhysicsObject } = options;
+    const rotation = new THREE.Euler(0, 0, THREE.MathUtils.degToRad(options.rotationDegrees ?? 0));
+    this.center.copy(options.center ?? new THREE.Vector3());
+
+    await Promise.all(ARM_SIDES.map(side =>
+      this.arms[side].load({ scene, enable3dPhysicsObject, position: this.center.clone(), rotation })
+    ));
+    this.placeArms();
+  }
+
+  /**
+   * Split a namespaced pivot name into the arm and the arm's pivot name
+   * @returns [side, pivot name], or null if the name doesn't start with a side
+   */
+  static splitPivotName(name: string): [ArmSide, string] | null {
+    const separator = name.indexOf('.');
+    const side = name.slice(0, separator) as ArmSide;
+    if (separator < 0 || !ARM_SIDES.includes(side)) return null;
+    return [side, name.slice(separator + 1)];
+  }
+
+  /**
+   * Every pivot of both arms, namespaced: 'left.shoulder_pan', ..., 'right.gripper'
+   */
+  get pivotNames(): string[] {
+    return ARM_SIDES.flatMap(side => Object.keys(this.arms[side].pivotMap).map(name => `${side}.${name}`));
+  }
+
+  // the arm and pivot behind a namespaced name, logging if there's none
+  private resolvePivot(name: string): [SO101, string] | null {
+    const split = BimanualSO101.splitPivotName(name);
+    if (!split || !this.arms[split[0]].pivotMap[split[1]]) {
+      console.error(`Pivot '${name}' not found, pivots are named like 'left.shoulder_pan'`);
+      return null;
+    }
+    return [this.arms[split[0]], split[1]];
+  }
+
+  setPivotValue(name: string, value: number, options: JointCommandOptions = {}): boolean {
+    const resolved = this.resolvePivot(name);
+    return resolved ? resolved[0].setPivotValue(resolved[1], value, options) : false;
+  }
+
+  /**
+   * Set pivots of both arms at once
+   * @param pivotValueDictionary Values keyed by namespaced pivot name
+   * @param options Pass immediate to move the joints straight away
+   * @returns Boolean indicating whether every pivot was set
+   */
+  setPivotValues(pivotValueDictionary: { [key: string]: number }, options: JointCommandOptions = {}): boolean {
+    let success = true;
+    Object.entries(pivotValueDictionary).forEach(([name, value]) => {
+      success = this.setPivotValue(name, value, options) && success;
+    });
+    return success;
+  }
+
+  getPivot(name: string, unit: PivotUnit = 'pivot'): number | null {
+    const resolved = this.resolvePivot(name);
+    return resolved ? resolved[0].getPivot(resolved[1], unit) : null;
+  }
+
+  setPivot(name: string, value: number, unit: PivotUnit = 'pivot', options: JointCommandOptions = {}): boolean {
+    const resolved = this.resolvePivot(name);
+    return resolved ? resolved[0].setPivot(resolved[1], value, unit, options) : false;
+  }
+
+  /**
+   * Pivot values of both arms, keyed by namespaced pivot name
+   */
+  getPivotValues(): { [key: string]: number } {
+    const values: { [key: string]: number } = {};
+    ARM_SIDES.forEach(side => {
+      Object.entries(this.arms[side].pivotMap).forEach(([name, pivot]) => values[`${side}.${name}`] = pivot.value);
+    });
+    return values;
+  }
+
+  /**
+   * Joint limits of both arms, keyed by namespaced pivot name
+   */
+  getPivotLimits(): { [key: string]: JointLimits } {
+    const limits: { [key: string]: JointLimits } = {};
+    ARM_SIDES.forEach(side => {
+      Object.entries(this.arms[side].getPivotLimits()).forEach(([name, pivotLimits]) => limits[`${side}.${name}`] = pivotLimits);
+    });
+    return limits;
+  }
+
+  getSpacing(): number {
+    return this.spacing;
+  }
+
+  /**
+   * Move the arms apart or together, around the point halfway between them
+   * @param spacing Distance between the arms' bases in meters
+   */
+  setSpacing(spacing: number): void {
+    this.spacing = spacing;
+    this.placeArms();
+  }
+
+  // put each arm half the spacing to its side of the center
+  private placeArms(): void {
+    ARM_SIDES.forEach(side => {
+      const root = this.arms[side].robot;
+      if (!root) return;
+
+      // the SO101's URDF reaches along +x, so +y is to the arm's left
+      const toLeft = new THREE.Vector3(0, 1, 0).applyQuaternion(root.quaternion);
+      const offset = (side === 'left' ? 1 : -1) * (this.spacing / 2) * root.scale.x;
+      root.position.copy(this.center).addScaledVector(toLeft, offset);
+      SO101.markLinksAsNeedingPhysicsUpdate(root);
+      this.arms[side].updateGrippedObjectPositions();
+    });
+  }
+
+  update(delta: number): void {
+    ARM_SIDES.forEach(side => this.arms[side].update(delta));
+  }
+
+  getState(): { [side in ArmSide]: RobotState } {
+    return { left: this.left.getState(), right: this.right.getState() };
+  }
+
+  async setState(state: { [side in ArmSide]: RobotState }): Promise<boolean> {
+    const results = await Promise.all(ARM_SIDES.map(side => this.arms[side].setState(state[side])));
+    return results.every(Boolean);
+  }
+
+  unload(): void {
+    ARM_SIDES.forEach(side => this.arms[side].unload());
+  }
+
+  dispose(): void {
+    ARM_SIDES.forEach(side => this.arms[side].dispose());
+  }
+}
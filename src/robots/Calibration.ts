@@ -0,0 +1,161 @@
+/**
+ * LeRobot calibration files, as written by `lerobot-calibrate` for Feetech arms like the SO101 and LeKiwi.
+ * Each motor has a homing offset that the servo subtracts from its encoder reading, so the calibration pose
+ * reads as half a turn, and the range of positions it was moved through during calibration.
+ * Use Robot.setCalibration or Robot.loadCalibration to map pivots through one
+ */
+
+export interface MotorCalibration {
+  id: number;             // Bus ID of the motor
+  drive_mode: number;     // 1 inverts the direction of the normalized value
+  homing_offset: number;  // Subtracted from the encoder position by the servo, in ticks
+  range_min: number;      // Lowest position reached during calibration, in ticks after the homing offset
+  range_max: number;      // Highest position reached during calibration, in ticks after the homing offset
+}
+
+export interface CalibrationFile {
+  [motorName: string]: MotorCalibration;
+}
+
+/**
+ * LeRobot's normalizations of a motor position: -100 to 100 or 0 to 100 over the calibrated range,
+ * or degrees from the middle of the range
+ */
+export type NormMode = 'RANGE_M100_100' | 'RANGE_0_100' | 'DEGREES';
+
+export const NORM_MODES: NormMode[] = ['RANGE_M100_100', 'RANGE_0_100', 'DEGREES'];
+
+// value ranges of each normalization, the DEGREES range depends on the joint and is only a placeholder
+export const NORM_MODE_RANGES: { [mode in NormMode]: [number, number] } = {
+  RANGE_M100_100: [-100, 100],
+  RANGE_0_100: [0, 100],
+  DEGREES: [-180, 180],
+};
+
+// STS3215 encoder resolution
+export const TICKS_PER_REVOLUTION = 4096;
+
+// position reported in the calibration pose, where the URDF joint is at 0
+export const HALF_TURN_TICKS = TICKS_PER_REVOLUTION / 2 - 1;
+
+/**
+ * Thrown when a calibration file doesn't match the format, lists every problem found
+ */
+export class CalibrationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid calibration:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'CalibrationError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value);
+
+/**
+ * Checks data against the calibration file format
+ * @param data Parsed JSON
+ * @returns Every problem found, empty if the calibration is valid
+ */
+export function validateCalibration(data: unknown): string[] {
+  if (!isObject(data)) {
+    return ['a calibration must be a JSON object keyed by motor name'];
+  }
+
+  const issues: string[] = [];
+  Object.entries(data).forEach(([motorName, motor]) => {
+    if (!isObject(motor)) {
+      issues.push(`${motorName} must be an object`);
+      return;
+    }
+
+    ['id', 'drive_mode', 'homing_offset', 'range_min', 'range_max'].forEach(key => {
+      if (!isInteger(motor[key])) issues.push(`${motorName}.${key} must be an integer`);
+    });
+
+    if (isInteger(motor.drive_mode) && motor.drive_mode !== 0 && motor.drive_mode !== 1) {
+      issues.push(`${motorName}.drive_mode must be 0 or 1`);
+    }
+
+    const { range_min, range_max } = motor;
+    if (isInteger(range_min) && isInteger(range_max)) {
+      if (Math.min(range_min, range_max) < 0 || Math.max(range_min, range_max) >= TICKS_PER_REVOLUTION) {
+        issues.push(`${motorName} range [${range_min}, ${range_max}] is outside of [0, ${TICKS_PER_REVOLUTION - 1}]`);
+      } else if (range_min >= range_max) {
+        issues.push(`${motorName}.range_min must be smaller than range_max`);
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates data and narrows it to a CalibrationFile
+ * @param data Parsed JSON
+ * @throws CalibrationError listing every problem if the calibration is invalid
+ */
+export function parseCalibration(data: unknown): CalibrationFile {
+  const issues = validateCalibration(data);
+  if (issues.length > 0) {
+    throw new CalibrationError(issues);
+  }
+  return data as CalibrationFile;
+}
+
+/**
+ * Position a servo reports for an encoder position, after its homing offset
+ */
+export function encoderToPosition(encoder: number, calibration: MotorCalibration): number {
+  return encoder - calibration.homing_offset;
+}
+
+/**
+ * Encoder position for a position a servo reports
+ */
+export function positionToEncoder(position: number, calibration: MotorCalibration): number {
+  return position + calibration.homing_offset;
+}
+
+/**
+ * Joint value in radians for a servo position in ticks
+ */
+export function positionToJointValue(position: number): number {
+  return ((position - HALF_TURN_TICKS) * 2 * Math.PI) / TICKS_PER_REVOLUTION;
+}
+
+/**
+ * Servo position in ticks for a joint value in radians
+ */
+export function jointValueToPosition(jointValue: number): number {
+  return (jointValue * TICKS_PER_REVOLUTION) / (2 * Math.PI) + HALF_TURN_TICKS;
+}
+
+/**
+ * Joint values at the ends of a pivot's range, so the pivot's lower end maps to range_min
+ * and its upper end to range_max, the other way around when drive_mode inverts the motor.
+ * Like in LeRobot, drive_mode doesn't invert degrees
+ * @param normMode Normalization of the pivot's values
+ * @returns [joint value at the pivot's lower end, joint value at the pivot's upper end]
+ */
+export function calibratedJointRange(calibration: MotorCalibration, normMode: NormMode = 'RANGE_M100_100'): [number, number] {
+  const lower = positionToJointValue(calibration.range_min);
+  const upper = positionToJointValue(calibration.range_max);
+  return calibration.drive_mode === 1 && normMode !== 'DEGREES' ? [upper, lower] : [lower, upper];
+}
+
+/**
+ * Ends of the calibrated range in LeRobot's DEGREES normalization, degrees from the middle of the range
+ * @returns [degrees at range_min, degrees at range_max]
+ */
+export function calibratedDegreesRange(calibration: MotorCalibration): [number, number] {
+  const middle = (calibration.range_min + calibration.range_max) / 2;
+  // LeRobot divides by the largest position rather than the resolution
+  const degreesPerTick = 360 / (TICKS_PER_REVOLUTION - 1);
+  return [(calibration.range_min - middle) * degreesPerTick, (calibration.range_max - middle) * degreesPerTick];
+}
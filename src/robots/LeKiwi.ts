@@ -1,7 +1,40 @@
-import { ExtendedMesh } from 'enable3d';
-import { Robot, UnmappedPivotMap } from './Robot';
-import { SO101 } from './SO101';
+import { ExtendedMesh, ExtendedObject3D } from 'enable3d';
+import { URDFJoint, URDFLink, URDFRobot } from 'urdf-loader';
+import { Robot, RobotState } from './Robot';
+import { parseRobotDefinition } from './RobotDefinition';
 import * as THREE from 'three';
+import { BasePose, BaseVelocity, OmniBase, OmniBaseGeometry } from '../utils/omniBase';
+import { WheelOdometry } from '../utils/odometry';
+import { computeLinkGeometryBounds, getLinkInertial } from '../utils/urdfGeometry';
+import lekiwiDefinition from './definitions/lekiwi.robot.json';
+
+/**
+ * Base velocity as LeRobot's LeKiwi reports it, measured by the wheel encoders
+ */
+export interface LeKiwiBaseObservation {
+  'x.vel': number;      // Forward, m/s
+  'y.vel': number;      // To the left, m/s
+  'theta.vel': number;  // Counter-clockwise, degrees per second
+}
+
+/**
+ * Robot state with the mobile base, see Robot.getState
+ */
+export interface LeKiwiState extends RobotState {
+  base: {
+    command: BaseVelocity      // Commanded velocity
+    pose: BasePose             // Real pose, relative to where the odometry was last reset
+    estimatedPose: BasePose    // Where the odometry thinks the base is
+    wheelPositions: number[]   // How far each wheel has turned, rad
+    physics: boolean           // Whether the base is a dynamic body, see enableBasePhysics
+  }
+}
+
+/**
+ * LeKiwi's arm pivots and collision boxes. The arm is an SO101 whose joints and links have other names in the URDF,
+ * its motors have the SO101's servo IDs and the wheels follow them. From definitions/lekiwi.robot.json
+ */
+export const LEKIWI_DEFINITION = parseRobotDefinition(lekiwiDefinition);
 
 /**
  * SO101 Robot Implementation
@@ -10,6 +43,43 @@ import * as THREE from 'three';
  * taken from here : https://github.com/huggingface/lerobot/blob/945e1ff2669bb7b31cb7fe6033fe9679767c2442/src/lerobot/teleoperators/so100_leader/so100_leader.py#L47
  */
 export class LeKiwi extends Robot {
+  // wheel joints in LeRobot's order: left, back and right
+  static WHEEL_JOINTS = [
+    'ST3215_Servo_Motor-v1_Revolute-64',
+    'ST3215_Servo_Motor-v1-2_Revolute-60',
+    'ST3215_Servo_Motor-v1-1_Revolute-62',
+  ];
+
+  // the URDF's wheel axes point outwards, so a wheel driving the base forwards turns backwards around its joint
+  static WHEEL_JOINT_DIRECTION = -1;
+
+  // geometry used by LeRobot's LeKiwi driver, wheels mounted at 240°, 0° and 120° from the front
+  static BASE_GEOMETRY: OmniBaseGeometry = {
+    wheelRadius: 0.05,
+    baseRadius: 0.125,
+    wheelAngles: [240, 0, 120].map(angle => THREE.MathUtils.degToRad(angle - 90)),
+    // LeRobot caps wheel commands at 3000 encoder ticks per second
+    maxWheelSpeed: (3000 / 4096) * 2 * Math.PI,
+  };
+
+  // friction coefficient between the wheels and the ground, limits how hard the base can push
+  static WHEEL_TRACTION = 0.8;
+  // seconds the wheels take to bring the base up to the commanded velocity when traction allows
+  static BASE_DRIVE_TIME = 0.1;
+  // used when the URDF's base links have no <inertial> masses, kg
+  static DEFAULT_BASE_MASS = 5;
+
+  public base : OmniBase
+  // pose estimate from the wheel encoders, set odometry.options to add slip and noise
+  public odometry : WheelOdometry
+
+  // dynamic body the base drives around with once enableBasePhysics is called, the URDF root follows it
+  private chassis : ExtendedObject3D | null = null
+  private chassisToRoot = new THREE.Matrix4()
+  private chassisRadius = 0
+  // URDF root's transform when the odometry was last reset, the real pose is measured from it
+  private poseOrigin = new THREE.Matrix4()
+
   // Static method to create a cube mesh for physics representation
   static createCubeMesh(
     dimensions: number[], 
@@ -36,113 +106,306 @@ export class LeKiwi extends Robot {
     // Create a base physics representation for the robot
     const basePhysicsRepresentation = LeKiwi.createCubeMesh([1, 1, 1], [0, 1, 0], [0, 0, 0]);
 
-    // SO101 has the same joints as LeKiwi, but with different names
-    const unmappedPivotMap: UnmappedPivotMap = {
-      'gripper': { // done - works
-        name: 'gripper',
-        jointName: 'STS3215_03a-v1-4_Revolute-57',
-        value: 0,
-        lower: 0,
-        upper: 100,
-        physicsRepresentation: {}
-      },
-      'shoulder_pan': { // done - works, angle corrected
-        name: 'shoulder_pan',
-        jointName: 'STS3215_03a-v1_Revolute-45',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {}
-      },
-      'shoulder_lift': { // done - works, angle corrected
-        name: 'shoulder_lift',
-        jointName: 'STS3215_03a-v1-1_Revolute-49',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {}
-      },
-      'elbow_flex': { // done - works, angle corrected
-        name: 'elbow_flex',
-        jointName: 'STS3215_03a-v1-2_Revolute-51',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {},
-      },
-      'wrist_flex': { // done - works, angle corrected
-        name: 'wrist_flex',
-        jointName: 'STS3215_03a-v1-3_Revolute-53',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {}
-      },
-      'wrist_roll': { // done - works, angle corrected
-        name: 'wrist_roll',
-        jointName: 'STS3215_03a_Wrist_Roll-v1_Revolute-55',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {},
-      },
-    }; 
+    // Call super with options object
+    super({
+      ...Robot.optionsFromDefinition(LEKIWI_DEFINITION, window.location.origin + '/urdf/lekiwi/'),
+      basePhysicsRepresentation,
+      // LeKiwi's calibration files prefix the arm motors, as they share a bus with the wheels
+      calibrationMotorNames: Object.fromEntries(LEKIWI_DEFINITION.pivots.map(({ name }) => [name, `arm_${name}`]))
+    });
 
-    const jawParam = SO101.jawMesh.geometry.parameters
-    const clonedJaw = LeKiwi.createCubeMesh([jawParam.width, jawParam.depth, jawParam.height], [SO101.jawMesh.position.x, SO101.jawMesh.position.y + 0.08, SO101.jawMesh.position.z - 0.05], [0, 0, 0]);
+    this.base = new OmniBase(LeKiwi.BASE_GEOMETRY);
+    this.odometry = new WheelOdometry(LeKiwi.BASE_GEOMETRY);
+  }
 
-    const clonedWristMeshParams = SO101.wristMesh.geometry.parameters
-    const clonedWristMesh = LeKiwi.createCubeMesh([clonedWristMeshParams.depth, clonedWristMeshParams.width, clonedWristMeshParams.height], [SO101.wristMesh.position.x - 0.04, SO101.wristMesh.position.y, SO101.wristMesh.position.z -0.05], [0, 0, 0]);
+  /**
+   * Drive the base, it keeps moving at this velocity until told otherwise
+   * @param velocity Velocity in the base's frame: x forward and y to the left in m/s, theta counter-clockwise in rad/s
+   */
+  setBaseVelocity(velocity: BaseVelocity): void {
+    this.base.setVelocity(velocity);
+  }
 
-    const lowerArmParam = SO101.lowerArmMesh.geometry.parameters
-    const clonedLowerArmMesh = LeKiwi.createCubeMesh([lowerArmParam.depth, lowerArmParam.width, lowerArmParam.height], [SO101.lowerArmMesh.position.x + 0.015, SO101.lowerArmMesh.position.y - 0.05, SO101.lowerArmMesh.position.z - 0.015], [0, 0, 0]);
+  stopBase(): void {
+    this.base.stop();
+  }
 
-    const upperArmParam = SO101.upperArmMesh.geometry.parameters
-    const clonedUpperArmMesh = LeKiwi.createCubeMesh([upperArmParam.depth, upperArmParam.width, upperArmParam.height], [SO101.upperArmMesh.position.x + 0.015, SO101.upperArmMesh.position.y + 0.05, SO101.upperArmMesh.position.z - 0.015], [0, 0, 0]);
-    
-    const gripperParam = SO101.gripperMesh.geometry.parameters
-    const clonedGripperMesh = LeKiwi.createCubeMesh([gripperParam.width, gripperParam.depth, gripperParam.height], [SO101.gripperMesh.position.x + 0.015, SO101.gripperMesh.position.y + 0.04, SO101.gripperMesh.position.z + 0.025], [0, 0, 0]);
-    
-    const shoulderParam = SO101.shoulderMesh.geometry.parameters
-    const clonedShoulderMesh = LeKiwi.createCubeMesh([shoulderParam.width, shoulderParam.height, shoulderParam.depth], [SO101.shoulderMesh.position.x + 0.03, SO101.shoulderMesh.position.y - 0.03, SO101.shoulderMesh.position.z], [0, 0, 0]);
-    // SO101 has the same links as LeKiwi, but with different names
-    const linkPhysicsMap = {
-      'Moving_Jaw_08d-v1': {
-        physicsMesh: clonedJaw,
-        gripper_part_a: true,
-        color: new THREE.Color(0x00ff00)
-      },
-      'SO_ARM100_08k_116_Square-v1': {
-        physicsMesh: clonedLowerArmMesh,
-        color: new THREE.Color(0x0000ff)
-      },
-      'Rotation_Pitch_08i-v1': {
-        physicsMesh: clonedShoulderMesh,
-        color: new THREE.Color(0x00ff00)
-      },
-      'Wrist_Roll_Pitch_08i-v1': {
-        physicsMesh: clonedWristMesh,
-        color: new THREE.Color(0x00ff00)
-      },
-      'SO_ARM100_08k_Mirror-v1': {
-        physicsMesh: clonedUpperArmMesh,
-        color: new THREE.Color(0x00ff00)
-      },
-      'Wrist_Roll_08c-v1': {
-        gripper_part_b: true,
-        physicsMesh: clonedGripperMesh,
-        color: new THREE.Color(0x00ee00)
-      }
+  unload(): void {
+    // the chassis isn't part of the URDF, so it has to leave the physics world itself
+    this.disableBasePhysics()
+    this.stopBase()
+    super.unload()
+  }
+
+  /**
+   * Links that move with the base: everything not behind one of the arm's joints, including the wheels
+   */
+  private static getBaseLinks(robot: URDFRobot): URDFLink[] {
+    const links: URDFLink[] = [];
+    const visit = (object: THREE.Object3D) => {
+      if ((object as URDFLink).isURDFLink) links.push(object as URDFLink);
+      object.children.forEach(child => {
+        const joint = child as URDFJoint;
+        if (joint.isURDFJoint && (joint.jointType === 'revolute' || joint.jointType === 'prismatic')) return;
+        visit(child);
+      });
+    };
+    visit(robot);
+    return links;
+  }
+
+  /**
+   * Make the base a dynamic body that drives on wheel traction, so it's blocked by obstacles,
+   * rolls down slopes it can't hold and pushes loose objects. The chassis is a cylinder around
+   * the base's meshes with the mass of the base's links from the URDF
+   * @returns Boolean indicating success
+   */
+  async enableBasePhysics(): Promise<boolean> {
+    if (!this.robot) throw Error("robot must be initialized before calling this function")
+    if (this.chassis) return true;
+    if (!this.physics || !this.robot.parent) {
+      console.error('The base needs a physics world and the robot in a scene to be simulated');
+      return false;
     }
-    // Call super with options object
-    super({
-      name: "LeKiwi",
-      // temporary change, needs to be reverted to https://cdn.jsdelivr.net/gh/therealadityashankar/die-roboter/urdf/
-      // before pushing
-      modelPath: window.location.origin + "/urdf/lekiwi/LeKiwi.urdf", 
-      unmappedPivotMap,
-      basePhysicsRepresentation,
-      linkPhysicsMap
+
+    const root = this.robot;
+    const baseLinks = LeKiwi.getBaseLinks(root);
+    await Promise.all(baseLinks.map(link => new Promise<void>(resolve => Robot.waitForLinkMeshesWithBackoff(link, resolve))));
+    // the robot could have been reloaded in the meantime
+    if (root !== this.robot || this.chassis) return this.chassis !== null;
+
+    // bounds of the base in the root's frame, in meters, z is up
+    root.updateWorldMatrix(true, true);
+    const rootInverse = root.matrixWorld.clone().invert();
+    const bounds = new THREE.Box3();
+    let mass = 0;
+    baseLinks.forEach(link => {
+      const linkBounds = computeLinkGeometryBounds(link);
+      if (linkBounds) bounds.union(linkBounds.applyMatrix4(rootInverse.clone().multiply(link.matrixWorld)));
+      mass += getLinkInertial(link)?.mass ?? 0;
+    });
+    if (bounds.isEmpty()) {
+      console.warn('The base has no meshes, its chassis is sized from the wheel geometry');
+      const { baseRadius, wheelRadius } = LeKiwi.BASE_GEOMETRY;
+      bounds.set(new THREE.Vector3(-baseRadius, -baseRadius, -wheelRadius), new THREE.Vector3(baseRadius, baseRadius, wheelRadius));
+    }
+    if (mass <= 0) mass = LeKiwi.DEFAULT_BASE_MASS;
+
+    const scale = root.scale.x;
+    const size = bounds.getSize(new THREE.Vector3());
+    this.chassisRadius = (Math.max(size.x, size.y) / 2) * scale;
+
+    const chassis = new ExtendedObject3D();
+    chassis.name = `${this.name}-chassis`;
+    chassis.position.copy(root.localToWorld(bounds.getCenter(new THREE.Vector3())));
+    chassis.quaternion.copy(root.getWorldQuaternion(new THREE.Quaternion()));
+    root.parent!.add(chassis);
+
+    this.physics.add.existing(chassis, {
+      shape: 'cylinder',
+      axis: 'z',
+      radius: this.chassisRadius,
+      height: size.z * scale,
+      mass,
+      collisionGroup: Robot.LINK_COLLISION_GROUP,
+      collisionMask: ~(Robot.HELD_OBJECT_COLLISION_GROUP | Robot.LINK_COLLISION_GROUP)
     });
+    // the ground doesn't hold the chassis back, the wheels' traction is applied in driveChassis
+    chassis.body.setFriction(0);
+    chassis.body.ammo.setActivationState(4);
+
+    chassis.updateMatrix();
+    root.updateMatrix();
+    this.chassisToRoot.copy(chassis.matrix).invert().multiply(root.matrix);
+    this.chassis = chassis;
+    // the pose is measured from the chassis from here on
+    this.resetOdometry();
+    return true;
+  }
+
+  /**
+   * Go back to moving the base kinematically, from wherever the chassis left it
+   */
+  disableBasePhysics(): void {
+    if (!this.chassis) return;
+
+    Robot.destroyBody(this.physics, this.chassis);
+    this.chassis.removeFromParent();
+    this.chassis = null;
+  }
+
+  get hasBasePhysics(): boolean {
+    return this.chassis !== null;
+  }
+
+  /**
+   * Where the base really is, relative to where it was when the odometry was last reset
+   */
+  getBasePose(): BasePose {
+    return { ...this.base.pose };
+  }
+
+  /**
+   * Where the odometry thinks the base is, relative to where it was when the odometry was last reset
+   */
+  getEstimatedBasePose(): BasePose {
+    return { ...this.odometry.pose };
+  }
+
+  /**
+   * Measure both the real and the estimated pose from the current pose again
+   */
+  resetOdometry(): void {
+    this.robot?.updateMatrix();
+    if (this.robot) this.poseOrigin.copy(this.robot.matrix);
+    this.base.resetPose();
+    this.odometry.reset();
+  }
+
+  getState(): LeKiwiState {
+    return {
+      ...super.getState(),
+      base: {
+        command: { ...this.base.command },
+        pose: this.getBasePose(),
+        estimatedPose: this.getEstimatedBasePose(),
+        wheelPositions: [...this.base.wheelPositions],
+        physics: this.hasBasePhysics,
+      },
+    };
+  }
+
+  /**
+   * Restore a snapshot taken with getState, including the base. The chassis is made again around the
+   * restored pose, at rest
+   */
+  async setState(state: RobotState | LeKiwiState): Promise<boolean> {
+    const physics = 'base' in state ? state.base.physics : this.hasBasePhysics;
+    this.disableBasePhysics();
+    let success = await super.setState(state);
+    if (physics) success = (await this.enableBasePhysics()) && success;
+    if (!('base' in state)) return success;
+
+    const { base } = state;
+    this.base.setVelocity(base.command);
+    this.base.wheelPositions = [...base.wheelPositions];
+    this.base.resetPose(base.pose);
+    this.odometry.reset(base.estimatedPose);
+
+    // the pose is measured from the origin, so put it where the restored pose comes out
+    const { x, y, theta } = base.pose;
+    const relative = new THREE.Matrix4().makeRotationZ(theta).setPosition(-y, x, 0);
+    this.robot!.updateMatrix();
+    this.poseOrigin.copy(this.robot!.matrix).multiply(relative.invert());
+    return success;
+  }
+
+  /**
+   * Base velocity measured by the wheel encoders in the last update, in LeRobot's observation format
+   */
+  getBaseObservation(): LeKiwiBaseObservation {
+    const velocity = this.odometry.velocity;
+    return {
+      'x.vel': velocity.x,
+      'y.vel': velocity.y,
+      'theta.vel': THREE.MathUtils.radToDeg(velocity.theta),
+    };
+  }
+
+  update(delta: number): void {
+    this.followChassis();
+    super.update(delta);
+    this.updateBase(delta);
+  }
+
+  /**
+   * Move the URDF root to where the physics engine put the chassis
+   */
+  private followChassis(): void {
+    if (!this.robot || !this.chassis) return;
+
+    const rootMatrix = new THREE.Matrix4()
+      .compose(this.chassis.position, this.chassis.quaternion, new THREE.Vector3(1, 1, 1))
+      .multiply(this.chassisToRoot);
+    rootMatrix.decompose(this.robot.position, this.robot.quaternion, this.robot.scale);
+
+    Robot.markLinksAsNeedingPhysicsUpdate(this.robot);
+    this.updateGrippedObjectPositions();
+  }
+
+  /**
+   * Pose of the URDF root relative to where it was when the odometry was last reset
+   */
+  private measureBasePose(): BasePose {
+    this.robot!.updateMatrix();
+    // the scale cancels out, so the translation is in meters in the root's frame
+    const relative = this.poseOrigin.clone().invert().multiply(this.robot!.matrix);
+    const e = relative.elements;
+    // the base's forward is the URDF's +y and its left the URDF's -x
+    return { x: e[13], y: -e[12], theta: Math.atan2(e[1], e[0]) };
+  }
+
+  /**
+   * Push the chassis towards the velocity the wheels are turning for, as hard as the wheels' traction allows
+   */
+  private driveChassis(velocity: BaseVelocity): void {
+    const body = this.chassis!.body;
+    const scale = this.robot!.scale.x;
+    const mass = 1 / body.ammo.getInvMass();
+
+    const quaternion = this.chassis!.quaternion;
+    const up = new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion);
+    const forward = new THREE.Vector3(0, 1, 0).applyQuaternion(quaternion);
+    const left = new THREE.Vector3(-1, 0, 0).applyQuaternion(quaternion);
+
+    const gravity = this.physics.physicsWorld.getGravity();
+    const maxForce = LeKiwi.WHEEL_TRACTION * mass * new THREE.Vector3(gravity.x(), gravity.y(), gravity.z()).length();
+
+    // the wheels only push along the ground
+    const current = new THREE.Vector3(body.velocity.x, body.velocity.y, body.velocity.z);
+    current.addScaledVector(up, -current.dot(up));
+    const target = forward.multiplyScalar(velocity.x * scale).addScaledVector(left, velocity.y * scale);
+    const force = target.sub(current).multiplyScalar(mass / LeKiwi.BASE_DRIVE_TIME).clampLength(0, maxForce);
+    body.applyCentralForce(force.x, force.y, force.z);
+
+    // turning is limited by the traction at the wheels, a cylinder's inertia is m r² / 2
+    const turnRate = new THREE.Vector3(body.angularVelocity.x, body.angularVelocity.y, body.angularVelocity.z).dot(up);
+    const inertia = (mass * this.chassisRadius * this.chassisRadius) / 2;
+    const maxTorque = maxForce * this.chassisRadius;
+    const torque = THREE.MathUtils.clamp((inertia * (velocity.theta - turnRate)) / LeKiwi.BASE_DRIVE_TIME, -maxTorque, maxTorque);
+    body.applyTorque(up.x * torque, up.y * torque, up.z * torque);
+  }
+
+  /**
+   * Turn the wheels and move the robot by the base's velocity, or drive the chassis towards it
+   */
+  private updateBase(delta: number): void {
+    if (!this.robot) return;
+
+    const velocity = this.base.step(delta);
+    this.odometry.update(this.base.wheelSpeeds, delta);
+    LeKiwi.WHEEL_JOINTS.forEach((jointName, index) => {
+      this.robot!.setJointValue(jointName, LeKiwi.WHEEL_JOINT_DIRECTION * this.base.wheelPositions[index]);
+    });
+
+    if (this.chassis) {
+      // the wheels can spin without the base moving, so the real pose comes from the chassis
+      this.driveChassis(velocity);
+      this.base.resetPose(this.measureBasePose());
+      return;
+    }
+
+    if (velocity.x === 0 && velocity.y === 0 && velocity.theta === 0) return;
+
+    // the base's forward is the URDF's +y and its left the URDF's -x, the URDF's z is up
+    const scale = this.robot.scale.x;
+    const turn = velocity.theta * delta;
+    this.robot.rotateZ(turn / 2);
+    this.robot.translateY(velocity.x * delta * scale);
+    this.robot.translateX(-velocity.y * delta * scale);
+    this.robot.rotateZ(turn / 2);
+
+    Robot.markLinksAsNeedingPhysicsUpdate(this.robot);
+    this.updateGrippedObjectPositions();
   }
 }
\ No newline at end of file
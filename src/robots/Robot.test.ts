@@ -0,0 +1,45 @@
+/** @jest-environment jsdom */
+import { SO101 } from './SO101';
+import { loadRobot } from '../testing/loadRobot';
+
+describe('Robot joint velocity limits', () => {
+  let robot: SO101;
+
+  beforeEach(async () => {
+    robot = await loadRobot(new SO101(), 'urdf/so101.urdf');
+  });
+
+  it('moves joints at the URDF velocity in update', () => {
+    const start = robot.pivotMap.elbow_flex.jointValue!;
+    const target = robot.convertPivotValue('elbow_flex', 80, 'pivot', 'rad');
+    const { velocity } = robot.pivotMap.elbow_flex.limits!;
+    robot.setPivotValue('elbow_flex', 80);
+    expect(robot.pivotMap.elbow_flex.jointValue).toBe(start);
+
+    robot.update(0.01);
+    expect(robot.pivotMap.elbow_flex.jointValue).toBeCloseTo(start + Math.sign(target - start) * velocity * 0.01);
+
+    robot.update(10);
+    expect(robot.pivotMap.elbow_flex.jointValue).toBeCloseTo(target);
+  });
+
+  it(`lists every pivot's limits from the URDF`, () => {
+    const limits = robot.getPivotLimits();
+    expect(Object.keys(limits)).toEqual(Object.keys(robot.pivotMap));
+    expect(limits.elbow_flex).toEqual(robot.pivotMap.elbow_flex.limits);
+    expect(Number.isFinite(limits.elbow_flex.velocity)).toBe(true);
+    expect(Number.isFinite(limits.elbow_flex.effort)).toBe(true);
+  });
+
+  it('moves joints straight away when asked to', () => {
+    robot.setPivotValue('elbow_flex', 20);
+    const joint = robot.convertPivotValue('elbow_flex', 80, 'pivot', 'rad');
+    robot.setPivotValue('elbow_flex', 80, { immediate: true });
+
+    expect(robot.pivotMap.elbow_flex.jointValue).toBeCloseTo(joint);
+    expect(robot.getPivot('elbow_flex', 'rad')).toBeCloseTo(joint);
+    // the earlier target is dropped
+    robot.update(10);
+    expect(robot.pivotMap.elbow_flex.jointValue).toBeCloseTo(joint);
+  });
+});
@@ -1,6 +1,32 @@
-import URDFLoader, { URDFRobot, URDFLink } from 'urdf-loader';
+import URDFLoader, { URDFRobot, URDFLink, URDFJoint } from 'urdf-loader';
 import { ExtendedMesh, ExtendedObject3D, THREE } from 'enable3d';
 import { Object3D } from 'three';
+import { Trajectory, TrajectoryLimits, TrajectoryProfile, createSynchronizedTrajectories } from '../utils/trajectory';
+import { JointValueMap, LinkPose, PoseFrame, computeAllLinkPoses, computeLinkPose } from '../utils/forwardKinematics';
+import { IKJoint, IKOptions, solveInverseKinematics } from '../utils/inverseKinematics';
+import { RobotDefinition, parseRobotDefinition } from './RobotDefinition';
+import {
+  CalibrationFile,
+  MotorCalibration,
+  NORM_MODE_RANGES,
+  NormMode,
+  calibratedDegreesRange,
+  calibratedJointRange,
+  parseCalibration
+} from './Calibration';
+import { GraspContact, GraspDetector, GraspOptions, GraspState } from '../utils/grasp';
+import { STS3215_PARAMETERS, ServoActuator, ServoActuatorState, ServoParameters } from '../utils/servo';
+import { JointLimits, getJointLimits, stepTowards } from '../utils/jointLimits';
+import {
+  computeLinkCollisionShapes,
+  computeLinkGeometryBounds,
+  getLinkInertial,
+  LinkInertial,
+  linkCollisionMeshesLoaded,
+  linkHasCollisionGeometry,
+  linkHasVisualGeometry,
+  linkMeshesLoaded
+} from '../utils/urdfGeometry';
 
 // Define the base structure for a pivot without mapped values
 export interface UnmappedPivot {
@@ -11,13 +37,22 @@ export interface UnmappedPivot {
   jointValue?: number      // Current value
   lower: number;      // Lower limit
   upper: number;      // Upper limit
+  normMode?: NormMode; // LeRobot normalization of the value, replaces lower/upper once the robot is loaded
   physicsRepresentation?: {};
 }
 
+/**
+ * Units pivot values can be read and written in: 'pivot' for the pivot's own range (lower/upper),
+ * 'rad' and 'deg' for the joint value, or one of LeRobot's normalizations
+ */
+export type PivotUnit = 'pivot' | 'rad' | 'deg' | NormMode;
+
 // Define the structure for a fully mapped pivot (extends UnmappedPivot with mapping properties)
 interface Pivot extends UnmappedPivot {
   mappedLower: number; // Mapped lower limit for UI/external use
   mappedUpper: number; // Mapped upper limit for UI/external use
+  limits?: JointLimits; // Velocity/effort limits and dynamics of the joint from the URDF, enforced once the robot is loaded
+  calibration?: MotorCalibration; // LeRobot calibration of the pivot's motor, replaces the URDF limits in the mapping
   physicsRepresentation?: {
     currentRotation : number
   }
@@ -41,7 +76,9 @@ type RobotLoaderOptions = {
   enable3dPhysicsObject : any,
   scale? : number,
   position? : THREE.Vector3,
-  rotation? : THREE.Euler
+  rotation? : THREE.Euler,
+  useURDFCollision? : boolean // generate collision shapes from the URDF's <collision> elements, defaults to true
+  dynamic? : boolean // simulate the links as dynamic bodies joined by hinges, see Robot.enableDynamics
 };
 
 export interface LinkPhysics{
@@ -49,12 +86,170 @@ export interface LinkPhysics{
   color?: THREE.Color
   gripper_part_a?: boolean
   gripper_part_b?: boolean
+  fitToGeometry?: boolean // size the collision box to the link's visual meshes, ignored if physicsMesh is set
+  useURDFCollision?: boolean // false ignores the link's URDF <collision> elements, without a physicsMesh or fitToGeometry the link then gets no body
 }
 
 export interface LinkPhysicsMap{
   [key: string]: LinkPhysics;
 }
 
+/**
+ * Options for setting pivot and joint values
+ */
+export interface JointCommandOptions {
+  immediate?: boolean // Move the joints straight away instead of at the URDF's velocity limit
+}
+
+/**
+ * Options for moving pivots along a smooth trajectory
+ */
+export interface MoveToPivotsOptions extends TrajectoryLimits {
+  profile?: TrajectoryProfile // Velocity profile shape, defaults to trapezoidal
+}
+
+// A motion in progress, advanced by Robot.update from the animation loop
+interface PivotMotion {
+  trajectories: { [key: string]: Trajectory }
+  elapsed: number
+  resolve: (arrived: boolean) => void
+}
+
+// Pose of gripper a in the previous frame and its estimated velocity, in world units
+interface GripperMotion {
+  position: THREE.Vector3
+  quaternion: THREE.Quaternion
+  linearVelocity: THREE.Vector3
+  angularVelocity: THREE.Vector3
+}
+
+// A link simulated as a dynamic body, see Robot.enableDynamics
+interface DynamicLink {
+  link: URDFLink
+  joint: URDFJoint              // Joint between the link and its parent
+  parentLink: URDFLink          // Closest link above the joint with a body
+  constraint: any               // Ammo constraint standing in for the joint
+  centerOfMass: THREE.Vector3   // Offset of the body origin from the link origin, in the link's frame and world units
+  reference: number             // Joint value at which the hinge angle is zero
+}
+
+/**
+ * Options for driving pivots through the servo model
+ */
+export interface EnableServosOptions {
+  pivots?: string[]                      // Pivots to drive, defaults to every pivot
+  parameters?: Partial<ServoParameters>  // Overrides of the STS3215 parameters
+}
+
+/**
+ * State of a servo driven pivot, positions are in the pivot's UI range
+ */
+export interface ServoState {
+  commanded: number  // Last commanded pivot value
+  actual: number     // Pivot value the servo has reached
+  velocity: number   // Joint velocity in radians (or meters) per second
+  torque: number     // Torque the motor produces, N·m
+  load: number       // External torque on the joint from contacts and held objects, N·m
+  stalled: boolean   // Pushing at the torque limit without getting closer to the commanded value
+}
+
+// robot holding each gripped object, shared by every robot in the scene
+const objectHolders = new WeakMap<THREE.Object3D, Robot>()
+
+/**
+ * Snapshot of everything about a robot that changes while it runs, plain JSON so it can be stored.
+ * Vectors are [x, y, z] and quaternions [x, y, z, w]
+ */
+export interface RobotState {
+  pose: { position: number[], quaternion: number[] }  // URDF root in its parent's frame
+  pivots: { [name: string]: number }                  // Pivot values, in the pivot's UI range
+  joints: { [jointName: string]: number[] }           // Values of every URDF joint, including those without a pivot
+  kinematicTargets: { [jointName: string]: number }   // Joint values still being moved to at the joint's velocity limit
+  servos: { [pivotName: string]: { parameters: ServoParameters, state: ServoActuatorState } }
+  dynamic: boolean                                    // Whether the links are simulated as dynamic bodies
+  jointTargets: { [jointName: string]: number }       // Motor targets of the joints in dynamic mode
+  holdMode: 'constraint' | 'kinematic'
+  grippedObjects: GrippedObjectState[]
+}
+
+/**
+ * An object held by the gripper, found by name in the scene when the state is restored
+ */
+export interface GrippedObjectState {
+  name: string
+  position: number[]    // Relative to gripper a, in its frame
+  quaternion: number[]  // Relative to gripper a
+}
+
+// A force on a link found while estimating servo loads, in world coordinates
+interface LinkForce {
+  link: THREE.Object3D
+  point: THREE.Vector3
+  direction: THREE.Vector3  // Unit direction of the force
+  magnitude: number         // Constant force in N, or 0 for a contact
+  depth: number             // Penetration in meters for a contact, the force is then SERVO_CONTACT_STIFFNESS * depth
+}
+
+/**
+ * Options for querying link poses through forward kinematics
+ */
+export interface LinkPoseOptions {
+  pivotValues?: { [key: string]: number } // Hypothetical pivot values, in the pivot's UI range
+  jointValues?: JointValueMap             // Hypothetical joint values, override pivotValues for the same joint
+  frame?: PoseFrame                       // 'world' (default) or 'base' for the URDF root frame in URDF units
+}
+
+/**
+ * Options for solving inverse kinematics on a robot
+ */
+export interface RobotIKOptions extends IKOptions {
+  endEffector?: string  // Link to move to the target, defaults to the gripper link (gripper_part_a)
+  pivots?: string[]     // Pivots the solver may move, defaults to every pivot
+  frame?: PoseFrame     // Frame the target is expressed in, 'world' (default) or 'base'
+}
+
+/**
+ * Result of solving inverse kinematics on a robot, pivot values are in each pivot's UI range
+ */
+export interface RobotIKResult {
+  pivotValues: { [key: string]: number }
+  converged: boolean
+  positionError: number     // Remaining position error in URDF units (meters)
+  orientationError: number  // Remaining orientation error in radians
+  iterations: number
+}
+
+/**
+ * Overrides for a pivot generated by Robot.fromURDF
+ */
+export interface URDFPivotOverride {
+  name?: string   // Pivot name, defaults to the joint name
+  lower?: number  // Lower limit of the UI range
+  upper?: number  // Upper limit of the UI range
+  value?: number  // Initial value, defaults to the joint's zero position
+  normMode?: NormMode // LeRobot normalization, replaces lower/upper
+}
+
+/**
+ * Options for generating a robot from a URDF file with Robot.fromURDF
+ */
+export interface URDFRobotOptions {
+  name?: string                                       // Robot name, defaults to the name in the URDF
+  range?: { lower: number, upper: number }            // UI range of generated pivots, defaults to -100 to 100
+  pivots?: { [jointName: string]: URDFPivotOverride | false } // Per joint overrides, false skips the joint
+  links?: { [linkName: string]: LinkPhysics | false } // Per link physics overrides, false removes the link's body
+  gripper?: { partA: string, partB: string }          // Links acting as the two gripper jaws
+  urdfLoaderOptions?: { manager : any }
+}
+
+/**
+ * Placement of a robot in the scene
+ */
+export interface RobotPose {
+  position: THREE.Vector3;
+  rotationDegrees: number; // Rotation around the vertical axis
+}
+
 /**
  * Options for creating a Robot instance
  */
@@ -64,6 +259,10 @@ interface RobotOptions {
   unmappedPivotMap?: UnmappedPivotMap; // Map of pivots
   basePhysicsRepresentation?: THREE.Mesh; // Base physics representation (not part of unmappedPivotMap)
   linkPhysicsMap: LinkPhysicsMap
+  defaultPose?: RobotPose; // Placement used by load() when no position/rotation is given
+  graspOptions?: Partial<GraspOptions>; // Thresholds for grasp detection
+  calibrationMotorNames?: { [pivotName: string]: string }; // Motor names in calibration files, defaults to the pivot names
+  servoIds?: { [pivotName: string]: number }; // Bus ID of each pivot's servo on the real arm, see assignServoIds
 }
 
 /**
@@ -117,6 +316,220 @@ export abstract class Robot extends THREE.Object3D {
     
     obj.rotateOnAxis(axis, theta); // rotate the OBJECT
   }
+
+  /**
+   * Generate a robot from any URDF file, without writing a subclass.
+   * A pivot is created for every revolute and prismatic joint with its limits taken from the file.
+   * Links get collision shapes from their <collision> elements, or a box fitted to their meshes if they have none.
+   * Call load on the returned robot to add it to the scene
+   * @param url Path to the URDF model
+   * @param options Overrides for pivot names and ranges, gripper links and link physics
+   * @returns The robot, not loaded yet
+   */
+  static async fromURDF(url: string, options: URDFRobotOptions = {}): Promise<Robot> {
+    const loader = new URDFLoader(options.urdfLoaderOptions?.manager);
+    // only the joint and link structure is needed here, meshes are loaded by load()
+    loader.parseVisual = false;
+    loader.parseCollision = false;
+    const urdf = await loader.loadAsync(url);
+
+    const range = options.range ?? { lower: -100, upper: 100 };
+    const unmappedPivotMap: UnmappedPivotMap = {};
+
+    Object.values(urdf.joints).forEach(joint => {
+      if (joint.jointType !== 'revolute' && joint.jointType !== 'prismatic') return;
+
+      const override = options.pivots?.[joint.name];
+      if (override === false) return;
+
+      const name = override?.name ?? joint.name;
+      const normMode = override?.normMode;
+      const lower = normMode ? NORM_MODE_RANGES[normMode][0] : override?.lower ?? range.lower;
+      const upper = normMode ? NORM_MODE_RANGES[normMode][1] : override?.upper ?? range.upper;
+
+      if (unmappedPivotMap[name]) {
+        console.warn(`Pivot name '${name}' is used by more than one joint, joint '${joint.name}' replaces '${unmappedPivotMap[name].jointName}'.`);
+      }
+
+      // start at the joint's zero position when it is within the limits, otherwise in the middle
+      let value = (lower + upper) / 2;
+      const { lower: jointLower, upper: jointUpper } = joint.limit;
+      if (jointLower < jointUpper && jointLower <= 0 && jointUpper >= 0) {
+        value = lower + ((0 - jointLower) / (jointUpper - jointLower)) * (upper - lower);
+      }
+
+      unmappedPivotMap[name] = {
+        name,
+        jointName: joint.name,
+        value: override?.value ?? value,
+        lower,
+        upper,
+        normMode,
+        physicsRepresentation: {}
+      };
+    });
+
+    Object.keys(options.pivots ?? {}).forEach(jointName => {
+      if (!urdf.joints[jointName]) {
+        console.warn(`Joint '${jointName}' not found in '${url}', its pivot override is ignored.`);
+      }
+    });
+
+    // links with <collision> elements get their shapes from those when loaded,
+    // the rest get a box fitted to their visual meshes
+    const linkPhysicsMap: LinkPhysicsMap = {};
+    Object.values(urdf.links).forEach(link => {
+      if (!linkHasCollisionGeometry(link) && linkHasVisualGeometry(link)) {
+        linkPhysicsMap[link.name] = { fitToGeometry: true };
+      }
+    });
+
+    if (options.gripper) {
+      const { partA, partB } = options.gripper;
+      linkPhysicsMap[partA] = { ...linkPhysicsMap[partA], gripper_part_a: true };
+      linkPhysicsMap[partB] = { ...linkPhysicsMap[partB], gripper_part_b: true };
+    }
+
+    Object.entries(options.links ?? {}).forEach(([linkName, override]) => {
+      if (override === false) {
+        linkPhysicsMap[linkName] = { useURDFCollision: false };
+      } else {
+        linkPhysicsMap[linkName] = { ...linkPhysicsMap[linkName], ...override };
+      }
+    });
+
+    Object.keys(linkPhysicsMap).forEach(linkName => {
+      if (!urdf.links[linkName]) {
+        console.warn(`Link '${linkName}' not found in '${url}', it will not get a physics body.`);
+      }
+    });
+
+    return new URDFModelRobot({
+      name: options.name ?? (urdf.robotName || url),
+      modelPath: url,
+      unmappedPivotMap,
+      linkPhysicsMap
+    });
+  }
+
+  /**
+   * Create a robot from a declarative robot definition (see RobotDefinition.ts)
+   * @param data The definition, validated before use
+   * @param baseUrl URL relative URDF paths are resolved against, usually the definition file's URL
+   * @returns The robot, not loaded yet
+   * @throws RobotDefinitionError listing every problem if the definition is invalid
+   */
+  static fromDefinition(data: RobotDefinition | unknown, baseUrl?: string): Robot {
+    return new URDFModelRobot(Robot.optionsFromDefinition(data, baseUrl));
+  }
+
+  /**
+   * The constructor options a robot definition describes, subclasses like SO101 are built from their definition with it
+   * @param data The definition, validated before use
+   * @param baseUrl URL relative URDF paths are resolved against
+   * @throws RobotDefinitionError listing every problem if the definition is invalid
+   */
+  protected static optionsFromDefinition(data: RobotDefinition | unknown, baseUrl?: string): RobotOptions {
+    const definition = parseRobotDefinition(data);
+
+    const unmappedPivotMap: UnmappedPivotMap = {};
+    const servoIds: { [pivotName: string]: number } = {};
+    definition.pivots.forEach(pivot => {
+      if (pivot.servoId !== undefined) servoIds[pivot.name] = pivot.servoId;
+      const [lower, upper] = pivot.range ?? NORM_MODE_RANGES[pivot.normMode!];
+      unmappedPivotMap[pivot.name] = {
+        name: pivot.name,
+        jointName: pivot.jointName,
+        value: pivot.default ?? (pivot.normMode === 'DEGREES' ? 0 : (lower + upper) / 2),
+        lower,
+        upper,
+        normMode: pivot.normMode,
+        physicsRepresentation: {}
+      };
+    });
+
+    const linkPhysicsMap: LinkPhysicsMap = {};
+    Object.entries(definition.links ?? {}).forEach(([linkName, link]) => {
+      const linkPhysics: LinkPhysics = {};
+
+      if (link.box) {
+        const [width, height, depth] = link.box.size;
+        const [x, y, z] = link.box.position ?? [0, 0, 0];
+        const material = new THREE.MeshBasicMaterial({ color: 0x00ff00, wireframe: true });
+        linkPhysics.physicsMesh = new THREE.Mesh(new THREE.BoxGeometry(width, height, depth), material);
+        linkPhysics.physicsMesh.position.set(x, y, z);
+      }
+
+      if (link.fitToGeometry) linkPhysics.fitToGeometry = true;
+      if (link.useURDFCollision !== undefined) linkPhysics.useURDFCollision = link.useURDFCollision;
+      if (link.color) linkPhysics.color = new THREE.Color(link.color);
+      if (link.gripperPart === 'a') linkPhysics.gripper_part_a = true;
+      if (link.gripperPart === 'b') linkPhysics.gripper_part_b = true;
+
+      linkPhysicsMap[linkName] = linkPhysics;
+    });
+
+    let defaultPose: RobotPose | undefined;
+    if (definition.defaultPose) {
+      const [x, y, z] = definition.defaultPose.position ?? [0, 0, 0];
+      defaultPose = {
+        position: new THREE.Vector3(x, y, z),
+        rotationDegrees: definition.defaultPose.rotationDegrees ?? 0
+      };
+    }
+
+    return {
+      name: definition.name,
+      modelPath: baseUrl ? new URL(definition.urdf, baseUrl).href : definition.urdf,
+      unmappedPivotMap,
+      linkPhysicsMap,
+      defaultPose,
+      servoIds
+    };
+  }
+
+  /**
+   * Fetch a robot definition JSON file and create the robot it describes
+   * @param url URL of the definition file, relative URDF paths in it are resolved against this
+   * @returns The robot, not loaded yet
+   * @throws RobotDefinitionError listing every problem if the definition is invalid
+   */
+  static async loadDefinition(url: string): Promise<Robot> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw Error(`Failed to fetch robot definition '${url}': ${response.status} ${response.statusText}`);
+    }
+
+    const baseUrl = typeof window !== 'undefined' ? new URL(url, window.location.href).href : url;
+    return Robot.fromDefinition(await response.json(), baseUrl);
+  }
+
+  // defaults used by moveToPivots when no duration or limits are given, in pivot units
+  static DEFAULT_MAX_PIVOT_VELOCITY = 100;
+  static DEFAULT_MAX_PIVOT_ACCELERATION = 400;
+
+  // time constant in seconds of the smoothing applied to the gripper velocity handed to released objects
+  static GRIPPER_VELOCITY_SMOOTHING_TIME = 0.05;
+
+  // collision group of held objects, robot links don't collide with it
+  static HELD_OBJECT_COLLISION_GROUP = 1 << 6;
+  // impulse at which the constraint holding an object breaks, so the object slips out of the gripper
+  static HELD_OBJECT_BREAKING_IMPULSE = 10;
+
+  // stiffness in N/m of the spring that stands in for a link's contacts when estimating servo loads
+  static SERVO_CONTACT_STIFFNESS = 5000;
+  static GRAVITY = 9.81;
+
+  // collision group of the robot's links, they don't collide with each other
+  static LINK_COLLISION_GROUP = 1 << 7;
+  // collision margin of the links' convex hulls, in world units, enable3d's default margin
+  static HULL_MARGIN = 0.01;
+  // in dynamic mode links lighter than this (in kg) stay kinematic, URDFs give marker frames tiny masses
+  static MIN_DYNAMIC_MASS = 1e-3;
+  // how quickly in 1/s a joint motor closes in on its commanded value in dynamic mode
+  static DYNAMIC_JOINT_GAIN = 10;
+  // below this joint speed in rad/s the URDF's joint friction fades out, so it doesn't chatter around standstill
+  static JOINT_FRICTION_SPEED = 0.1;
   
   public name: string;
   public modelPath: string;
@@ -126,15 +539,47 @@ export abstract class Robot extends THREE.Object3D {
   public loader : URDFLoader | null;
   public basePhysicsRepresentation : any;
   public linkPhysicsMap : LinkPhysicsMap
+  public defaultPose : RobotPose | null
 
-  // all the objects "touched" by the grippers
-  // if an object is simultaniously touched by both grippers, it can be lifted
-  // by the gripper - obviously, this doesn't match how it works IRL
-  // but it's the best workaround i could think of
-  public gripper_a_touched_objects : Set<string>
-  public gripper_b_touched_objects : Set<string>
+  // objects are gripped by welding them to gripper_a once the grasp detector
+  // sees both jaws squeezing them from opposite sides
   public gripped_objects : Map<string, any>
   public gripper_a : any
+  public gripper_b : any
+  public graspDetector : GraspDetector
+  private gripper_a_center : THREE.Vector3
+  private gripper_b_center : THREE.Vector3
+  // grippable objects that touched a jaw, keyed by name, contacts only report names
+  private graspCandidates : Map<string, any>
+  // listeners on the physics world's collision events, removed by unload
+  private collisionListeners : ((data : any) => void)[]
+  private gripperMotion : GripperMotion | null
+  // 'constraint' keeps held objects dynamic and colliding, 'kinematic' teleports them along with the gripper
+  public holdMode : 'constraint' | 'kinematic'
+  protected physics : any
+
+  private activeMotion : PivotMotion | null
+
+  // pivots driven through the servo model, keyed by pivot name, the joints follow them in update()
+  public servos : { [key: string]: ServoActuator }
+
+  // compound shapes of each link's body keyed by link name, and a promise for when every body has been added
+  private linkShapes : Map<string, any[]>
+  private linkBodiesReady : Promise<void>
+  // links simulated as dynamic bodies in tree order, and the commanded values of their joints
+  private dynamicLinks : DynamicLink[]
+  private jointTargets : { [jointName: string]: number }
+
+  // URDF limits of every joint, and the values joints with a velocity limit are still moving towards
+  private jointLimits : { [jointName: string]: JointLimits }
+  private kinematicTargets : { [jointName: string]: number }
+
+  // LeRobot calibration the pivots are mapped through, and the motor name of each pivot in it
+  public calibration : CalibrationFile | null
+  public calibrationMotorNames : { [pivotName: string]: string }
+
+  // bus ID of each pivot's servo, used when the calibration doesn't give one
+  public servoIds : { [pivotName: string]: number }
 
   constructor(options: RobotOptions) {
     super()
@@ -143,10 +588,29 @@ export abstract class Robot extends THREE.Object3D {
     this.robot = null;
     this.loader = null;
     this.linkPhysicsMap = options.linkPhysicsMap
-    this.gripper_a_touched_objects = new Set()
-    this.gripper_b_touched_objects = new Set()
+    this.defaultPose = options.defaultPose ?? null
     this.gripper_a = null
+    this.gripper_b = null
+    this.graspDetector = new GraspDetector(options.graspOptions)
+    this.gripper_a_center = new THREE.Vector3()
+    this.gripper_b_center = new THREE.Vector3()
+    this.graspCandidates = new Map()
+    this.collisionListeners = []
+    this.gripperMotion = null
+    this.holdMode = 'constraint'
+    this.physics = null
     this.gripped_objects = new Map()
+    this.activeMotion = null
+    this.servos = {}
+    this.linkShapes = new Map()
+    this.linkBodiesReady = Promise.resolve()
+    this.dynamicLinks = []
+    this.jointTargets = {}
+    this.jointLimits = {}
+    this.kinematicTargets = {}
+    this.calibration = null
+    this.calibrationMotorNames = options.calibrationMotorNames ?? {}
+    this.servoIds = options.servoIds ?? {}
     
     // Store the base physics representation if provided
     if (options.basePhysicsRepresentation) {
@@ -187,11 +651,18 @@ export abstract class Robot extends THREE.Object3D {
 
    
   async loadModel(options: RobotLoaderOptions){
+    // loading again replaces the previous model
+    this.unload()
     this._initializationStatus = "loading"
     const urdfLoaderOptions = options?.urdfLoaderOptions || {manager : undefined}
     const manager = urdfLoaderOptions?.manager
     const loader = new URDFLoader(manager);
+    // collision meshes are loaded too, their hulls become the links' shapes
+    loader.parseCollision = options.useURDFCollision ?? true
     const robot : any  = await loader.loadAsync(this.modelPath)
+    robot.traverse((object : any) => {
+      if(object.isURDFCollider) object.visible = false
+    })
     const scale = options?.scale || 15
     robot.scale.set(scale, scale, scale);
     robot.position.set(0, 0, 0)
@@ -199,19 +670,136 @@ export abstract class Robot extends THREE.Object3D {
 
     if(options.position){
       robot.position.add(options.position)
+    } else if(this.defaultPose){
+      robot.position.add(this.defaultPose.position)
     }
 
     if(options.rotation){
       robot.rotation.x += options.rotation.x
       robot.rotation.y += options.rotation.y
       robot.rotation.z += options.rotation.z
+    } else if(this.defaultPose){
+      robot.rotation.z += THREE.MathUtils.degToRad(this.defaultPose.rotationDegrees)
     }
     
     this.robot = robot;
 
-    // Update the mapped joint limits in the pivots based on the loaded robot model
+    console.log("robot.joints", robot.joints)
+    this.mapPivotsToJointLimits()
+    if (this.calibration) {
+      this.applyCalibration()
+    }
+
+    Object.keys(this.pivotMap).forEach(name => this.setPivotValue(name, this.pivotMap[name].value, { immediate: true }))
+
+    // limits apply from here on
+    Object.values(robot.joints as { [key: string]: URDFJoint }).forEach(joint => {
+      this.jointLimits[joint.name] = getJointLimits(joint)
+    })
+    Object.values(this.pivotMap).forEach(pivot => {
+      pivot.limits = this.jointLimits[pivot.jointName]
+    })
+
+    this._initializationStatus = "initialized"
+    this.physics = options.enable3dPhysicsObject
+    options.scene.add(robot)
+
+    this.addPhysicsAndColorDefinitionsForObject(robot, options.enable3dPhysicsObject, this.linkPhysicsMap, options.useURDFCollision ?? true)
+    if(options.dynamic){
+      this.enableDynamics()
+    }
+    return robot
+  }
+
+  /**
+   * Remove the robot from the scene and the physics world: releases gripped objects, removes the links' bodies,
+   * constraints and collision listeners and frees the meshes' geometries and materials.
+   * Pivot values and the calibration are kept, so the same instance can be loaded again
+   */
+  unload(): void {
+    if(!this.robot) return
+
+    const robot = this.robot
+    this.cancelMotion()
+    this.disableServos()
+
+    // held objects stay in the scene, falling from where they were held
+    Array.from(this.gripped_objects.keys()).forEach(name => this.markObjectAsUngripped(name))
+
+    if(this.physics){
+      const Ammo = (globalThis as any).Ammo
+      for(const { constraint } of this.dynamicLinks){
+        this.physics.physicsWorld.removeConstraint(constraint)
+        Ammo?.destroy(constraint)
+      }
+
+      this.collisionListeners.forEach(listener => this.physics.collisionEvents.off('collision', listener))
+
+      robot.traverse(object => Robot.destroyBody(this.physics, object))
+    }
+
+    robot.removeFromParent()
+    robot.traverse(object => {
+      const mesh = object as THREE.Mesh
+      if(!mesh.isMesh) return
+      mesh.geometry?.dispose()
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+      materials.forEach(material => material?.dispose())
+    })
+
+    this.robot = null
+    this.loader = null
+    this.physics = null
+    this.gripper_a = null
+    this.gripper_b = null
+    this.gripperMotion = null
+    this.graspCandidates.clear()
+    this.collisionListeners = []
+    this.linkShapes.clear()
+    this.linkBodiesReady = Promise.resolve()
+    this.dynamicLinks = []
+    this.jointTargets = {}
+    this.jointLimits = {}
+    this.kinematicTargets = {}
+    this._initializationStatus = "uninitialized"
+  }
+
+  /**
+   * Remove an object's body from the physics world. physics.destroy finds bodies by name,
+   * which would also take out the bodies of other robots of the same model
+   */
+  static destroyBody(physics : any, object : any){
+    const body = object.body
+    if(!body?.ammo) return
+
+    physics.physicsWorld.removeRigidBody(body.ammo)
+    body.destructor()
+    const index = physics.rigidBodies.indexOf(object)
+    if(index >= 0) physics.rigidBodies.splice(index, 1)
+    object.body = undefined
+    object.hasBody = false
+  }
+
+  /**
+   * Unload the robot and free the default base physics representation, the instance shouldn't be used afterwards
+   */
+  dispose(): void {
+    this.unload()
+
+    const base = this.basePhysicsRepresentation
+    if(base instanceof THREE.Mesh){
+      base.geometry.dispose()
+      const materials = Array.isArray(base.material) ? base.material : [base.material]
+      materials.forEach(material => material.dispose())
+    }
+  }
+
+  /**
+   * Update the mapped joint limits in the pivots based on the loaded robot model
+   */
+  private mapPivotsToJointLimits(){
+    const robot : any = this.robot
     if (robot.joints) {
-      console.log("robot.joints", robot.joints)
       Object.values(this.pivotMap).forEach(pivot => {
         const joint = robot.joints?.[pivot.jointName];
         if (joint) {
@@ -233,20 +821,13 @@ export abstract class Robot extends THREE.Object3D {
             pivot.mappedUpper = joint.limit.upper;
           }          
           // The lower/upper values are kept as is - these are what the user specified
-          // and are used in the UI (e.g., -100 to 100)
+          // and are used in the UI (e.g., -100 to 100), unless they come from a normalization
+          this.applyNormMode(pivot);
         } else {
           console.warn(`Joint '${pivot.jointName}' not found for pivot '${pivot.name}'. This pivot will not function correctly.`);
         }
       });
     }
-
-    Object.keys(this.pivotMap).forEach(name => this.setPivotValue(name, this.pivotMap[name].value))
-
-    this._initializationStatus = "initialized"
-    options.scene.add(robot)
-
-    this.addPhysicsAndColorDefinitionsForObject(robot, options.enable3dPhysicsObject, this.linkPhysicsMap)
-    return robot
   }
 
   // recursively set the color of all meshes in the object
@@ -280,6 +861,34 @@ export abstract class Robot extends THREE.Object3D {
     trySet();
   } 
 
+  /**
+   * Calls back once the meshes of the link have loaded, retrying like checkAndSetMeshColorWithBackoff.
+   * If the meshes never appear the callback is still made, so the link still gets a body
+   * @param isLoaded Check for the meshes being waited for, defaults to every visual of the link
+   */
+  static waitForLinkMeshesWithBackoff(
+    link: URDFLink,
+    callback: () => void,
+    isLoaded: () => boolean = () => linkMeshesLoaded(link),
+    maxWait: number = 3000,
+    interval: number = 100
+  ) {
+    const start = Date.now();
+
+    const tryCall = () => {
+      if (isLoaded()) {
+        callback();
+      } else if (Date.now() - start < maxWait) {
+        setTimeout(tryCall, interval);
+      } else {
+        console.warn(`Meshes for link '${link.name}' not found within timeout, its collision shapes may be incomplete.`);
+        callback();
+      }
+    };
+
+    tryCall();
+  }
+
   static checkLinkHasMeshesRecursive(object: any): boolean {
     if (!object) return false;
   
@@ -313,90 +922,232 @@ export abstract class Robot extends THREE.Object3D {
    * Traverses links, for links that have appropriate physics definitions
    * It adds appropriate physics bodies for them for the robot
    */
-  addPhysicsAndColorDefinitionsForObject(robot : URDFRobot, enable3dObj : any, linkPhysicsMap : LinkPhysicsMap){
+  addPhysicsAndColorDefinitionsForObject(robot : URDFRobot, enable3dObj : any, linkPhysicsMap : LinkPhysicsMap, useURDFCollision : boolean = true){
+    // bodies that wait for meshes are added later, enableDynamics needs all of them
+    const pending : Promise<void>[] = []
+
     for(let [linkName, link] of Object.entries(robot.links)){
-      if(linkPhysicsMap[linkName]){
-        let physicsAndColor = linkPhysicsMap[linkName]
-        let compoundBox = { shape: 'box', width: 0.01, height: 0.01, depth: 0.01, x:0, y:0, z:0 }
-
-        if(physicsAndColor.physicsMesh){
-          // @ts-expect-error because parameters does exist for...cubes, not sure why it isn't properly typed
-          compoundBox.width = physicsAndColor.physicsMesh.geometry.parameters.width
-          // @ts-expect-error because parameters does exist for...cubes, not sure why it isn't properly typed
-          compoundBox.height = physicsAndColor.physicsMesh.geometry.parameters.height
-          // @ts-expect-error because parameters does exist for...cubes, not sure why it isn't properly typed
-          compoundBox.depth = physicsAndColor.physicsMesh.geometry.parameters.depth
-          compoundBox.x = physicsAndColor.physicsMesh.position.x
-          compoundBox.y = physicsAndColor.physicsMesh.position.y
-          compoundBox.z = physicsAndColor.physicsMesh.position.z
-        }
+      const hasEntry = linkPhysicsMap[linkName] !== undefined
+      const physicsAndColor = linkPhysicsMap[linkName] ?? {}
+
+      // shapes from the URDF's <collision> elements are used unless the map overrides them
+      const fromURDF = useURDFCollision && physicsAndColor.useURDFCollision !== false && linkHasCollisionGeometry(link)
+      if(!hasEntry && !fromURDF) continue
+
+      let compoundBox = { shape: 'box', width: 0.01, height: 0.01, depth: 0.01, x:0, y:0, z:0 }
+
+      if(physicsAndColor.physicsMesh){
+        // @ts-expect-error because parameters does exist for...cubes, not sure why it isn't properly typed
+        compoundBox.width = physicsAndColor.physicsMesh.geometry.parameters.width
+        // @ts-expect-error because parameters does exist for...cubes, not sure why it isn't properly typed
+        compoundBox.height = physicsAndColor.physicsMesh.geometry.parameters.height
+        // @ts-expect-error because parameters does exist for...cubes, not sure why it isn't properly typed
+        compoundBox.depth = physicsAndColor.physicsMesh.geometry.parameters.depth
+        compoundBox.x = physicsAndColor.physicsMesh.position.x
+        compoundBox.y = physicsAndColor.physicsMesh.position.y
+        compoundBox.z = physicsAndColor.physicsMesh.position.z
+      }
 
-        if(physicsAndColor.color){
-          // Attempts to set mesh colors with retry + timeout logic.
-          // Recursively checks if meshes exist on the object before applying the color.
-          // Retries every 100ms (up to 3s by default) to handle async loading of meshes.
-          // Falls back gracefully with a warning if meshes never appear.
-          Robot.checkAndSetMeshColorWithBackoff(link, physicsAndColor.color as THREE.Color);
-        }
+      if(physicsAndColor.color){
+        // Attempts to set mesh colors with retry + timeout logic.
+        // Recursively checks if meshes exist on the object before applying the color.
+        // Retries every 100ms (up to 3s by default) to handle async loading of meshes.
+        // Falls back gracefully with a warning if meshes never appear.
+        Robot.checkAndSetMeshColorWithBackoff(link, physicsAndColor.color as THREE.Color);
+      }
+
+      if(physicsAndColor.physicsMesh){
+        this.addLinkPhysicsBody(link, [compoundBox], physicsAndColor, enable3dObj)
+      } else if(physicsAndColor.fitToGeometry){
+        // the box can only be sized once the link's meshes have loaded
+        pending.push(new Promise(resolve => Robot.waitForLinkMeshesWithBackoff(link, () => {
+          // the robot was unloaded while its meshes were loading
+          if(this.robot !== robot) return resolve()
+          const bounds = computeLinkGeometryBounds(link)
+          if(bounds){
+            const size = bounds.getSize(new THREE.Vector3())
+            const center = bounds.getCenter(new THREE.Vector3())
+            compoundBox.width = Math.max(size.x, 0.01)
+            compoundBox.height = Math.max(size.y, 0.01)
+            compoundBox.depth = Math.max(size.z, 0.01)
+            compoundBox.x = center.x
+            compoundBox.y = center.y
+            compoundBox.z = center.z
+          }
+          this.addLinkPhysicsBody(link, [compoundBox], physicsAndColor, enable3dObj)
+          resolve()
+        })))
+      } else if(fromURDF){
+        // mesh collisions need their meshes, so wait for those to load
+        pending.push(new Promise(resolve => Robot.waitForLinkMeshesWithBackoff(link, () => {
+          if(this.robot !== robot) return resolve()
+          const shapes = computeLinkCollisionShapes(link)
+          if(shapes.length > 0){
+            this.addLinkPhysicsBody(link, shapes, physicsAndColor, enable3dObj)
+          } else if(hasEntry){
+            this.addLinkPhysicsBody(link, [compoundBox], physicsAndColor, enable3dObj)
+          }
+          resolve()
+        }, () => linkCollisionMeshesLoaded(link))))
+      } else if(physicsAndColor.useURDFCollision !== false || physicsAndColor.gripper_part_a || physicsAndColor.gripper_part_b){
+        this.addLinkPhysicsBody(link, [compoundBox], physicsAndColor, enable3dObj)
+      }
+    }
+
+    this.linkBodiesReady = Promise.all(pending).then(() => {})
+  }
+
+  /**
+   * A convex hull through the given points, reduced to the hull's outline like enable3d does as Bullet
+   * advises against hulls of 100 or more points
+   * @param points x, y, z of each point
+   */
+  private static createHullShape(points : number[]){
+    const Ammo = (globalThis as any).Ammo
+    const point = new Ammo.btVector3()
+    let hull = new Ammo.btConvexHullShape()
+    for(let i = 0; i < points.length; i += 3){
+      point.setValue(points[i], points[i + 1], points[i + 2])
+      hull.addPoint(point, i === points.length - 3)
+    }
+    Ammo.destroy(point)
+
+    if(hull.getNumVertices() >= 100){
+      const outline = new Ammo.btShapeHull(hull)
+      outline.buildHull(Robot.HULL_MARGIN)
+      Ammo.destroy(hull)
+      hull = new Ammo.btConvexHullShape(Ammo.getPointer(outline.getVertexPointer()), outline.numVertices())
+      Ammo.destroy(outline)
+    }
+    hull.setMargin(Robot.HULL_MARGIN)
+    return hull
+  }
+
+  /**
+   * Adds the physics body for a single link, and hooks up the gripper collision handling
+   */
+  private addLinkPhysicsBody(link : URDFLink, compound : any[], physicsAndColor : LinkPhysics, enable3dObj : any){
+    // the same steps as enable3d's add.existing with a compound, which only builds primitive shapes and not hulls
+    const shapes = compound.map(shape => shape.shape === 'hull' ? Robot.createHullShape(shape.points) : enable3dObj.createCollisionShape(shape.shape, shape))
+    const compoundShape = enable3dObj.mergeCollisionShapesToCompoundShape(shapes)
+    const position = new THREE.Vector3()
+    const quaternion = new THREE.Quaternion()
+    const scale = new THREE.Vector3()
+    link.getWorldPosition(position)
+    link.getWorldQuaternion(quaternion)
+    link.getWorldScale(scale)
+    const transform = enable3dObj.applyPosQuatScaleMargin(compoundShape, position, quaternion, scale)
+    const rigidBody = enable3dObj.collisionShapeToRigidBody(compoundShape, transform, 1, false)
+    enable3dObj.addRigidBodyToWorld(link, rigidBody, 0, Robot.LINK_COLLISION_GROUP, ~(Robot.HELD_OBJECT_COLLISION_GROUP | Robot.LINK_COLLISION_GROUP))
+    this.linkShapes.set(link.name, compound)
+
+    // typecasted as enable3dObj.add.existing adds the body property to the object
+    const body = (link as unknown as ExtendedMesh).body
+    body.setCollisionFlags(2)
+
+    
+    if(physicsAndColor.gripper_part_a || physicsAndColor.gripper_part_b){
+      // the jaws are compared by the centers of their shapes, the link origins sit on the jaw's hinge
+      const center = new THREE.Vector3()
+      compound.forEach(shape => center.add(new THREE.Vector3(shape.x ?? 0, shape.y ?? 0, shape.z ?? 0)))
+      center.divideScalar(compound.length)
+
+      if(physicsAndColor.gripper_part_a){
+        this.gripper_a = link
+        this.gripper_a_center = center
+      } else {
+        this.gripper_b = link
+        this.gripper_b_center = center
+      }
 
-        enable3dObj.add.existing(link, {compound : [compoundBox]})
-
-        // typecasted as enable3dObj.add.existing adds the body property to the object
-        const body = (link as unknown as ExtendedMesh).body
-        body.setCollisionFlags(2)
-
-        
-        if(physicsAndColor.gripper_part_a){
-          this.gripper_a = link;
-
-          body.on.collision((otherObject : any, event : any) => {
-            if (otherObject.name !== 'ground' && otherObject.userData.grippable === true) {
-              if(event == "start"){
-                this.gripper_a_touched_objects.add(otherObject)
-
-                // if its being touched by both grippers, constraint
-                // it to gripper a, to simulate it being "attached"
-                // it's hard to do this otherwise
-                if(this.gripper_b_touched_objects.has(otherObject.name)){
-                  console.log("gripped", otherObject.name)
-                  this.markObjectAsGripped(otherObject.name, otherObject)
-                }
-                
-              } else if(event == "end"){
-                console.log("ungripped", otherObject.name)
-                this.gripper_a_touched_objects.delete(otherObject.name)
-                this.markObjectAsUngripped(otherObject.name)
-              }
-            } 
-          })
+      // checking collisions makes the physics engine report the body's contacts, which are read
+      // by updateGrasps, here we only keep track of the objects behind the contacts. The listener is
+      // added to the world's events rather than through body.on.collision so unload can remove it
+      body.checkCollisions = true
+      const listener = ({ bodies, event } : any) => {
+        // compared by identity, robots of the same model have links of the same name
+        const otherObject = bodies[0] === link ? bodies[1] : bodies[1] === link ? bodies[0] : null
+        if (otherObject && otherObject.name !== 'ground' && otherObject.userData.grippable === true) {
+          if(event == "start"){
+            this.graspCandidates.set(otherObject.name, otherObject)
+          }
         }
-        
-        if(physicsAndColor.gripper_part_b){
-          body.on.collision((otherObject : any, event : any) => {
-            if (otherObject.name !== 'ground' && otherObject.userData.grippable === true) {              if(event == "start"){
-                this.gripper_b_touched_objects.add(otherObject.name)
-
-                // if its being touched by both grippers, constraint
-                // it to gripper a, to simulate it being "attached"
-                // it's hard to do this otherwise
-                if(this.gripper_a_touched_objects.has(otherObject.name)){
-                  console.log("gripped", otherObject.name)
-                  this.markObjectAsGripped(otherObject.name, otherObject.body)
-                }
-
-              } else if(event == "end"){
-                console.log("ungripped", otherObject.name)
-                this.gripper_b_touched_objects.delete(otherObject.name)
-                this.markObjectAsUngripped(otherObject.name)
-              }
-            }
-          })
+      }
+      enable3dObj.collisionEvents.on('collision', listener)
+      this.collisionListeners.push(listener)
+    }
+  }
+
+  /**
+   * Run grasp detection on the contacts reported by the gripper jaws in the last physics step,
+   * gripping and releasing objects as their grasp state changes
+   * @param delta Seconds since the last update
+   */
+  updateGrasps(delta: number){
+    if(!this.robot || !this.gripper_a?.body || !this.gripper_b?.body) return
+
+    // the detector works in URDF units so its thresholds don't depend on the robot's scale
+    const scale = this.robot.scale.x || 1
+    const jawA = this.gripper_a.localToWorld(this.gripper_a_center.clone()).divideScalar(scale)
+    const jawB = this.gripper_b.localToWorld(this.gripper_b_center.clone()).divideScalar(scale)
+    const axis = new THREE.Vector3().subVectors(jawB, jawA)
+    const gap = axis.length()
+    if(gap === 0) return
+    axis.divideScalar(gap)
+
+    const readContacts = (jaw : any) => {
+      const contacts = new Map<string, GraspContact[]>()
+      for(const impact of jaw.body.impact ?? []){
+        if(!this.graspCandidates.has(impact.name)) continue
+        const contact : GraspContact = {
+          point: new THREE.Vector3(impact.point.x, impact.point.y, impact.point.z).divideScalar(scale),
+          normal: new THREE.Vector3(impact.normal.x, impact.normal.y, impact.normal.z).normalize(),
+          impulse: impact.impulse
         }
+        contacts.set(impact.name, [...(contacts.get(impact.name) ?? []), contact])
+      }
+      return contacts
+    }
+
+    const events = this.graspDetector.update({
+      axis,
+      gap,
+      contactsA: readContacts(this.gripper_a),
+      contactsB: readContacts(this.gripper_b),
+      delta
+    })
+
+    for(const event of events){
+      if(event.type === 'grasped'){
+        const object = this.graspCandidates.get(event.objectName)
+        if(object) this.markObjectAsGripped(event.objectName, object)
+      } else {
+        this.markObjectAsUngripped(event.objectName)
       }
     }
   }
 
+  /**
+   * Grasp state of an object, or null if the gripper isn't touching or holding it
+   * @param objectName Name of the object
+   */
+  getGraspState(objectName: string): GraspState | null {
+    return this.graspDetector.getState(objectName)
+  }
+
+  /**
+   * Grasp states of every object the gripper is touching or holding, keyed by object name
+   */
+  getGraspStates(): Map<string, GraspState> {
+    return this.graspDetector.getStates()
+  }
+
   markObjectAsGripped(object_name : string, object : ExtendedObject3D){
+    // an object is held by one gripper at a time, grabbing it from another robot takes it over
+    const holder = objectHolders.get(object)
+    if(holder && holder !== this) holder.markObjectAsUngripped(object_name)
+    objectHolders.set(object, this)
+
     console.log("object_body", object, object.position, object.position.constructor.name)
     const gripperAWorldPosition = new THREE.Vector3()
     const gripperAWorldQuat = new THREE.Quaternion();
@@ -412,26 +1163,157 @@ export abstract class Robot extends THREE.Object3D {
     .applyQuaternion(invGripperQuat);
 
     const relativePosition = new THREE.Vector3().subVectors(object.position, gripperAWorldPosition)
-    this.gripped_objects.set(object_name, {object, relativePosition, relativePositionAndRotation, relativeQuat})
-    object.body.setCollisionFlags(2)
+
+    // held objects stay dynamic and hang off gripper a through a constraint, so they
+    // still collide with the scene, unless kinematic holding was asked for
+    let attachment = { constraint: null, collisionGroup: 1, collisionMask: -1 }
+    if(this.holdMode === 'constraint' && this.physics && this.gripper_a.body){
+      attachment = this.attachHeldObject(object)
+    } else {
+      object.body.setCollisionFlags(2)
+    }
+
+    this.gripped_objects.set(object_name, {object, relativePosition, relativePositionAndRotation, relativeQuat, ...attachment})
+  }
+
+  /**
+   * Constrain a dynamic object to gripper a. The object is moved into the held collision group,
+   * which the robot's own links ignore, so the jaws squeezing it don't fight the constraint
+   * @returns The constraint, and the object's collision group and mask to restore on release
+   */
+  private attachHeldObject(object : ExtendedObject3D){
+    const physicsWorld = this.physics.physicsWorld
+    const proxy = object.body.ammo.getBroadphaseHandle()
+    const collisionGroup = proxy.get_m_collisionFilterGroup()
+    const collisionMask = proxy.get_m_collisionFilterMask()
+    physicsWorld.removeRigidBody(object.body.ammo)
+    physicsWorld.addRigidBody(object.body.ammo, Robot.HELD_OBJECT_COLLISION_GROUP, -1)
+
+    const constraint = this.physics.add.constraints.fixed(this.gripper_a.body, object.body, true)
+    // the grip slips when the object is pushed too hard, e.g. into the table
+    constraint.setBreakingImpulseThreshold(Robot.HELD_OBJECT_BREAKING_IMPULSE)
+
+    // 4 is DISABLE_DEACTIVATION, a held object must not fall asleep while the arm is still
+    object.body.ammo.setActivationState(4)
+    return { constraint, collisionGroup, collisionMask }
+  }
+
+  /**
+   * Undo attachHeldObject, freeing the constraint and putting the object back in its own collision group
+   */
+  private detachHeldObject(object : ExtendedObject3D, constraint : any, collisionGroup : number, collisionMask : number){
+    const Ammo = (globalThis as any).Ammo
+    const physicsWorld = this.physics.physicsWorld
+    physicsWorld.removeConstraint(constraint)
+    Ammo.destroy(constraint)
+
+    physicsWorld.removeRigidBody(object.body.ammo)
+    physicsWorld.addRigidBody(object.body.ammo, collisionGroup, collisionMask)
+
+    // 1 is ACTIVE_TAG, the object may sleep again once it comes to rest
+    object.body.ammo.setActivationState(1)
+    object.body.ammo.activate()
   }
 
   markObjectAsUngripped(object_name : string){
     if(this.gripped_objects.has(object_name)){
-      let object = this.gripped_objects.get(object_name).object
+      let { object, constraint, collisionGroup, collisionMask } = this.gripped_objects.get(object_name)
       this.gripped_objects.delete(object_name)
+      objectHolders.delete(object)
+
+      if(constraint){
+        // the object was moved by the physics engine all along, so it already has its velocity
+        this.detachHeldObject(object, constraint, collisionGroup, collisionMask)
+        return
+      }
+
       object.body.setCollisionFlags(0)
+
+      // the object moved rigidly with gripper a, so it leaves with the velocity
+      // of the point it was attached at, letting it be tossed or slid
+      const { linear, angular } = this.getReleaseVelocity(object)
+      object.body.ammo.activate()
+      object.body.setVelocity(linear.x, linear.y, linear.z)
+      object.body.setAngularVelocity(angular.x, angular.y, angular.z)
     }
   }
 
+  /**
+   * Release objects whose hold constraint broke because they were pushed too hard
+   */
+  private releaseSlippedObjects(){
+    for(let [object_name, details] of Array.from(this.gripped_objects.entries())){
+      if(details.constraint && !details.constraint.isEnabled()){
+        this.markObjectAsUngripped(object_name)
+        this.graspDetector.forget(object_name)
+      }
+    }
+  }
 
-  updateGrippedObjectPositions(){
-    for(let [obj_name, details] of this.gripped_objects.entries()){
-      let object = details.object as ExtendedObject3D
-      const gripperAWorldPosition = new THREE.Vector3()
-      const gripperAWorldQuat = new THREE.Quaternion();
-  
-      this.gripper_a.getWorldPosition(gripperAWorldPosition)
+  /**
+   * Velocity an object rigidly attached to gripper a would have right now
+   */
+  private getReleaseVelocity(object : THREE.Object3D){
+    const linear = new THREE.Vector3()
+    const angular = new THREE.Vector3()
+    if(!this.gripperMotion) return { linear, angular }
+
+    angular.copy(this.gripperMotion.angularVelocity)
+    // v = v_gripper + w x r, with r from the gripper to the object
+    const offset = object.position.clone().sub(this.gripperMotion.position)
+    linear.copy(this.gripperMotion.linearVelocity).add(angular.clone().cross(offset))
+    return { linear, angular }
+  }
+
+  /**
+   * Estimate the linear and angular velocity of gripper a from its pose in the previous frame,
+   * used to hand the gripper's momentum to objects when they're released
+   * @param delta Seconds since the last update
+   */
+  private trackGripperVelocity(delta : number){
+    if(!this.gripper_a || delta <= 0) return
+
+    const position = new THREE.Vector3()
+    const quaternion = new THREE.Quaternion()
+    this.gripper_a.getWorldPosition(position)
+    this.gripper_a.getWorldQuaternion(quaternion)
+
+    const previous = this.gripperMotion
+    if(!previous){
+      this.gripperMotion = { position, quaternion, linearVelocity: new THREE.Vector3(), angularVelocity: new THREE.Vector3() }
+      return
+    }
+
+    const linearVelocity = position.clone().sub(previous.position).divideScalar(delta)
+
+    // rotation over the frame as an axis and angle, taking the short way round
+    const rotation = quaternion.clone().multiply(previous.quaternion.clone().invert())
+    if(rotation.w < 0) rotation.set(-rotation.x, -rotation.y, -rotation.z, -rotation.w)
+    const angle = 2 * Math.acos(Math.min(1, rotation.w))
+    const sinHalfAngle = Math.sqrt(Math.max(0, 1 - rotation.w * rotation.w))
+    const angularVelocity = sinHalfAngle < 1e-6
+      ? new THREE.Vector3()
+      : new THREE.Vector3(rotation.x, rotation.y, rotation.z).divideScalar(sinHalfAngle).multiplyScalar(angle / delta)
+
+    // smooth over a few frames, pivots set from the UI move in uneven steps
+    const blend = Math.min(1, delta / Robot.GRIPPER_VELOCITY_SMOOTHING_TIME)
+    previous.linearVelocity.lerp(linearVelocity, blend)
+    previous.angularVelocity.lerp(angularVelocity, blend)
+    previous.position.copy(position)
+    previous.quaternion.copy(quaternion)
+  }
+
+
+  updateGrippedObjectPositions(){
+    for(let [obj_name, details] of this.gripped_objects.entries()){
+      // constrained objects are carried along by the physics engine
+      if(details.constraint) continue
+
+      let object = details.object as ExtendedObject3D
+      const gripperAWorldPosition = new THREE.Vector3()
+      const gripperAWorldQuat = new THREE.Quaternion();
+  
+      this.gripper_a.getWorldPosition(gripperAWorldPosition)
       this.gripper_a.getWorldQuaternion(gripperAWorldQuat)
 
       const rel = details.relativePositionAndRotation
@@ -462,10 +1344,24 @@ export abstract class Robot extends THREE.Object3D {
   }
 
   /**
-   * set the joint value for the urdf robot
+   * set the joint value for the urdf robot, joints with a velocity limit move towards it in update()
    */
   setJointValue( name : string, ...values : number[] ) : boolean{
+    return this.commandJointValue(name, values, {})
+  }
+
+  /**
+   * setJointValue with options, an immediate value also cancels the joint's pending target
+   */
+  private commandJointValue( name : string, values : number[], options : JointCommandOptions ) : boolean{
     if(!this.robot) throw Error("robot must be initialized before calling this function")
+
+    // in dynamic mode the joint's motor is driven towards the value instead
+    if(name in this.jointTargets){
+      this.jointTargets[name] = values[0]
+      return true
+    }
+
     // rotate the corresponding physics representation
     const pivotName : string | undefined = Object.keys(this.pivotMap).find(key => {
       return this.pivotMap[key].jointName === name
@@ -475,30 +1371,47 @@ export abstract class Robot extends THREE.Object3D {
       return false;
     }
 
-    //this.moveSubsequentPivotsAndPhysicsBodies(pivotName, values[0])
+    // joints with a velocity limit move towards the value in update()
+    if(!options.immediate && Number.isFinite(this.jointLimits[name]?.velocity ?? Infinity)){
+      this.kinematicTargets[name] = values[0]
+      return true
+    }
+
+    delete this.kinematicTargets[name]
+    return this.applyJointValue(this.pivotMap[pivotName], ...values)
+  }
+
+  /**
+   * Set a pivot's joint straight away, without applying limits
+   */
+  private applyJointValue( pivot : Pivot, ...values : number[] ) : boolean{
+    if(!this.robot) throw Error("robot must be initialized before calling this function")
 
-    const pivot = this.pivotMap[pivotName]
+    //this.moveSubsequentPivotsAndPhysicsBodies(pivotName, values[0])
 
-    if(pivot && pivot.physicsRepresentation)
+    if(pivot.physicsRepresentation)
       pivot.physicsRepresentation.currentRotation = values[0];
+    pivot.jointValue = values[0];
 
     Robot.markLinksAsNeedingPhysicsUpdate(this.robot)
     this.updateGrippedObjectPositions()
 
-    return this.robot.setJointValue(name, ...values)
+    return this.robot.setJointValue(pivot.jointName, ...values)
   }
 
   /**
    * set the joint values for the urdf robot
+   * @param options Pass immediate to skip the velocity limits
    */
-  setJointValues( jointValueDictionary : { [key: string]: number | number[]; } ) : boolean{
+  setJointValues( jointValueDictionary : { [key: string]: number | number[]; }, options : JointCommandOptions = {} ) : boolean{
     if(!this.robot) throw Error("robot must be initialized before calling this function")
 
     let finalBoolean : boolean = true
 
     for(let [key, value] of Object.entries(jointValueDictionary)){
       if(!Array.isArray(value)) value = [value]
-      finalBoolean = finalBoolean && this.setJointValue(key, ...value)
+      // every joint is set, even after one that didn't change
+      finalBoolean = this.commandJointValue(key, value, options) && finalBoolean
     }
 
     return finalBoolean
@@ -516,12 +1429,331 @@ export abstract class Robot extends THREE.Object3D {
   }
 
   /**
-   * Set a single pivot value and update the corresponding joint
+   * Map a pivot value from the UI range (lower/upper) to the joint range (mappedLower/mappedUpper)
+   * @param name Name of the pivot
+   * @param value Pivot value
+   * @returns The joint value in radians (or meters for prismatic joints)
+   */
+  pivotValueToJointValue(name: string, value: number): number {
+    const pivot = this.pivotMap[name];
+    return this.mapValue(value, pivot.lower, pivot.upper, pivot.mappedLower, pivot.mappedUpper);
+  }
+
+  /**
+   * Map a joint value from the joint range (mappedLower/mappedUpper) back to the pivot's UI range (lower/upper)
+   * @param name Name of the pivot
+   * @param jointValue Joint value in radians (or meters for prismatic joints)
+   * @returns The pivot value
+   */
+  jointValueToPivotValue(name: string, jointValue: number): number {
+    const pivot = this.pivotMap[name];
+    return this.mapValue(jointValue, pivot.mappedLower, pivot.mappedUpper, pivot.lower, pivot.upper);
+  }
+
+  /**
+   * Convert a pivot value between units
+   * @param name Name of the pivot
+   * @param value Value in the `from` unit
+   * @param from Unit of the value
+   * @param to Unit to convert to
+   * @returns The value in the `to` unit
+   */
+  convertPivotValue(name: string, value: number, from: PivotUnit, to: PivotUnit): number {
+    const pivot = this.pivotMap[name];
+
+    let jointValue: number;
+    if (from === 'pivot') {
+      jointValue = this.pivotValueToJointValue(name, value);
+    } else if (from === 'rad') {
+      jointValue = value;
+    } else if (from === 'deg') {
+      jointValue = THREE.MathUtils.degToRad(value);
+    } else {
+      jointValue = this.mapValue(value, ...this.getNormRange(pivot, from), ...this.getNormJointRange(pivot, from));
+    }
+
+    if (to === 'pivot') return this.jointValueToPivotValue(name, jointValue);
+    if (to === 'rad') return jointValue;
+    if (to === 'deg') return THREE.MathUtils.radToDeg(jointValue);
+    return this.mapValue(jointValue, ...this.getNormJointRange(pivot, to), ...this.getNormRange(pivot, to));
+  }
+
+  /**
+   * Get the commanded value of a pivot in any unit
+   * @param name Name of the pivot
+   * @param unit Unit to return the value in, defaults to the pivot's own range
+   * @returns The value, or null if the pivot doesn't exist
+   */
+  getPivot(name: string, unit: PivotUnit = 'pivot'): number | null {
+    if (!this.pivotMap[name]) {
+      console.error(`Pivot '${name}' not found`);
+      return null;
+    }
+    return this.convertPivotValue(name, this.pivotMap[name].value, 'pivot', unit);
+  }
+
+  /**
+   * URDF velocity and effort limits and dynamics of each pivot's joint, empty until the robot is loaded
+   * @returns Limits keyed by pivot name
+   */
+  getPivotLimits(): { [pivotName: string]: JointLimits } {
+    const limits: { [pivotName: string]: JointLimits } = {};
+    Object.entries(this.pivotMap).forEach(([name, pivot]) => {
+      if (pivot.limits) limits[name] = { ...pivot.limits };
+    });
+    return limits;
+  }
+
+  /**
+   * Set a pivot value given in any unit, see setPivotValue
    * @param name Name of the pivot
    * @param value Value to set
+   * @param unit Unit of the value, defaults to the pivot's own range
+   * @param options Pass immediate to skip the velocity limits
    * @returns Boolean indicating success
    */
-  setPivotValue(name: string, value: number): boolean {
+  setPivot(name: string, value: number, unit: PivotUnit = 'pivot', options: JointCommandOptions = {}): boolean {
+    if (!this.pivotMap[name]) {
+      console.error(`Pivot '${name}' not found`);
+      return false;
+    }
+    return this.setPivotValue(name, this.convertPivotValue(name, value, unit, 'pivot'), options);
+  }
+
+  /**
+   * Map the pivots through a LeRobot calibration file, so values recorded on a calibrated arm replay identically.
+   * A pivot's lower end maps to its motor's range_min and its upper end to range_max (swapped if drive_mode is 1),
+   * and the calibration pose, half a turn after the homing offset, is the URDF's zero position.
+   * Pivots without a motor in the file keep the URDF limits
+   * @param data Parsed calibration JSON, keyed by motor name
+   * @returns Boolean indicating whether every pivot has a calibrated motor
+   * @throws CalibrationError listing every problem if the calibration is invalid
+   */
+  setCalibration(data: CalibrationFile | unknown): boolean {
+    this.calibration = parseCalibration(data);
+
+    if (this._initializationStatus !== "initialized") {
+      // applied by loadModel once the URDF limits are known
+      return Object.keys(this.pivotMap).every(name => this.calibration![this.getCalibrationMotorName(name)]);
+    }
+
+    this.mapPivotsToJointLimits();
+    const success = this.applyCalibration();
+    this.reapplyPivotValues();
+    return success;
+  }
+
+  /**
+   * Fetch a LeRobot calibration file and map the pivots through it, see setCalibration
+   * @param url URL of the calibration JSON file
+   * @returns Boolean indicating whether every pivot has a calibrated motor
+   */
+  async loadCalibration(url: string): Promise<boolean> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw Error(`Failed to fetch calibration '${url}': ${response.status} ${response.statusText}`);
+    }
+    return this.setCalibration(await response.json());
+  }
+
+  /**
+   * Go back to mapping the pivots onto the URDF limits
+   */
+  clearCalibration(): void {
+    this.calibration = null;
+    Object.values(this.pivotMap).forEach(pivot => delete pivot.calibration);
+
+    if (this._initializationStatus === "initialized") {
+      this.mapPivotsToJointLimits();
+      this.reapplyPivotValues();
+    }
+  }
+
+  private getCalibrationMotorName(pivotName: string): string {
+    return this.calibrationMotorNames[pivotName] ?? pivotName;
+  }
+
+  /**
+   * Replace the mapped limits of every pivot with a motor in the calibration
+   */
+  private applyCalibration(): boolean {
+    let success = true;
+
+    Object.entries(this.pivotMap).forEach(([name, pivot]) => {
+      const motorName = this.getCalibrationMotorName(name);
+      const calibration = this.calibration?.[motorName];
+      if (!calibration) {
+        console.warn(`Motor '${motorName}' not found in the calibration, pivot '${name}' keeps the URDF limits`);
+        delete pivot.calibration;
+        success = false;
+        return;
+      }
+
+      // the mapping stays linear, so calibrating only moves the ends of the joint range
+      pivot.calibration = calibration;
+      [pivot.mappedLower, pivot.mappedUpper] = calibratedJointRange(calibration, pivot.normMode);
+      this.applyNormMode(pivot);
+    });
+
+    return success;
+  }
+
+  /**
+   * Joint values at the ends of a normalization's range
+   */
+  private getNormJointRange(pivot: Pivot, normMode: NormMode): [number, number] {
+    if (pivot.calibration) return calibratedJointRange(pivot.calibration, normMode);
+    // uncalibrated, every normalization spans the URDF limits
+    return [pivot.mappedLower, pivot.mappedUpper];
+  }
+
+  /**
+   * Values at the ends of a normalization's range, DEGREES are the joint range in degrees,
+   * or degrees from the middle of the calibrated range like in LeRobot
+   */
+  private getNormRange(pivot: Pivot, normMode: NormMode): [number, number] {
+    if (normMode !== 'DEGREES') return NORM_MODE_RANGES[normMode];
+    if (pivot.calibration) return calibratedDegreesRange(pivot.calibration);
+    return [THREE.MathUtils.radToDeg(pivot.mappedLower), THREE.MathUtils.radToDeg(pivot.mappedUpper)];
+  }
+
+  // a normalized pivot's UI range follows from its joint range
+  private applyNormMode(pivot: Pivot){
+    if (!pivot.normMode) return;
+    [pivot.lower, pivot.upper] = this.getNormRange(pivot, pivot.normMode);
+  }
+
+  // pivot values keep their meaning when the mapping changes, so the joints move to match them
+  private reapplyPivotValues(){
+    const values: { [key: string]: number } = {};
+    Object.entries(this.pivotMap).forEach(([name, pivot]) => values[name] = pivot.value);
+    this.setPivotValues(values, { immediate: true });
+  }
+
+  /**
+   * Resolve the joint values used for forward kinematics, current joint values are used
+   * for anything not overridden
+   */
+  private resolveJointValues(options: LinkPoseOptions): JointValueMap {
+    const jointValues: JointValueMap = {};
+
+    Object.entries(options.pivotValues ?? {}).forEach(([name, value]) => {
+      if (!this.pivotMap[name]) {
+        console.error(`Pivot '${name}' not found`);
+        return;
+      }
+      jointValues[this.pivotMap[name].jointName] = this.pivotValueToJointValue(name, value);
+    });
+
+    return { ...jointValues, ...options.jointValues };
+  }
+
+  /**
+   * Get the pose of a link, either for the current pivot values or for hypothetical ones.
+   * The scene graph is not modified, so this is safe to call for workspace checks and planning
+   * @param linkName Name of the link in the URDF (e.g. 'gripper')
+   * @param options Hypothetical pivot/joint values and the frame of the result
+   * @returns The pose, or null if the link doesn't exist
+   */
+  getLinkPose(linkName: string, options: LinkPoseOptions = {}): LinkPose | null {
+    if(!this.robot) throw Error("robot must be initialized before calling this function")
+    return computeLinkPose(this.robot, linkName, this.resolveJointValues(options), options.frame ?? 'world');
+  }
+
+  /**
+   * Get the poses of all links, either for the current pivot values or for hypothetical ones
+   * @param options Hypothetical pivot/joint values and the frame of the result
+   * @returns Poses keyed by link name
+   */
+  getLinkPoses(options: LinkPoseOptions = {}): { [linkName: string]: LinkPose } {
+    if(!this.robot) throw Error("robot must be initialized before calling this function")
+    return computeAllLinkPoses(this.robot, this.resolveJointValues(options), options.frame ?? 'world');
+  }
+
+  /**
+   * Get the pose of the gripper link (gripper_part_a in the link physics map)
+   * @param options Hypothetical pivot/joint values and the frame of the result
+   * @returns The pose, or null if the robot has no gripper
+   */
+  getGripperPose(options: LinkPoseOptions = {}): LinkPose | null {
+    const gripperLinkName = Object.keys(this.linkPhysicsMap).find(name => this.linkPhysicsMap[name].gripper_part_a);
+    if (!gripperLinkName) return null;
+    return this.getLinkPose(gripperLinkName, options);
+  }
+
+  /**
+   * Solve inverse kinematics for a link of this robot. Joint limits come from the pivots' mapped range,
+   * and the solution closest to the current configuration is picked. The robot is not moved,
+   * pass the result to setPivotValues or moveToPivots to apply it
+   * @param target Target position, and optionally orientation, of the end-effector link
+   * @param options End-effector link, pivots to solve for, target frame and solver settings
+   * @returns Pivot values in the pivots' UI ranges, or null if there is no such end-effector
+   */
+  solveIK(target: { position: THREE.Vector3, quaternion?: THREE.Quaternion }, options: RobotIKOptions = {}): RobotIKResult | null {
+    if(!this.robot) throw Error("robot must be initialized before calling this function")
+
+    const endEffector = options.endEffector
+      ?? Object.keys(this.linkPhysicsMap).find(name => this.linkPhysicsMap[name].gripper_part_a);
+    if (!endEffector) {
+      console.error(`No end-effector given and robot '${this.name}' has no gripper link`);
+      return null;
+    }
+
+    // the solver works relative to the robot base, in URDF units
+    let position = target.position.clone();
+    let quaternion = target.quaternion?.clone();
+    if ((options.frame ?? 'world') === 'world') {
+      this.robot.updateWorldMatrix(true, false);
+      const baseQuaternion = new THREE.Quaternion();
+      this.robot.matrixWorld.decompose(new THREE.Vector3(), baseQuaternion, new THREE.Vector3());
+
+      position = this.robot.worldToLocal(position);
+      quaternion = quaternion?.premultiply(baseQuaternion.invert());
+    }
+
+    const pivotNames = (options.pivots ?? Object.keys(this.pivotMap)).filter(name => this.pivotMap[name]);
+    const joints: IKJoint[] = pivotNames.map(name => {
+      const pivot = this.pivotMap[name];
+      return {
+        name: pivot.jointName,
+        lower: Math.min(pivot.mappedLower, pivot.mappedUpper),
+        upper: Math.max(pivot.mappedLower, pivot.mappedUpper),
+      };
+    });
+
+    const initial: JointValueMap = {};
+    pivotNames.forEach(name => {
+      initial[this.pivotMap[name].jointName] = this.pivotValueToJointValue(name, this.pivotMap[name].value);
+    });
+
+    const result = solveInverseKinematics(this.robot, endEffector, { position, quaternion }, joints, initial, options);
+    if (!result) {
+      console.error(`Link '${endEffector}' not found`);
+      return null;
+    }
+
+    const pivotValues: { [key: string]: number } = {};
+    pivotNames.forEach(name => {
+      pivotValues[name] = this.jointValueToPivotValue(name, result.jointValues[this.pivotMap[name].jointName]);
+    });
+
+    return {
+      pivotValues,
+      converged: result.converged,
+      positionError: result.positionError,
+      orientationError: result.orientationError,
+      iterations: result.iterations,
+    };
+  }
+
+  /**
+   * Set a single pivot value and update the corresponding joint, which moves at the URDF's velocity limit in update()
+   * @param name Name of the pivot
+   * @param value Value to set
+   * @param options Pass immediate to move the joint straight away
+   * @returns Boolean indicating success
+   */
+  setPivotValue(name: string, value: number, options: JointCommandOptions = {}): boolean {
     if (!this.pivotMap[name]) {
       console.error(`Pivot '${name}' not found`);
       return false;
@@ -531,21 +1763,20 @@ export abstract class Robot extends THREE.Object3D {
     const pivot = this.pivotMap[name];
     
     // Map the value from UI range (lower/upper) to joint range (mappedLower/mappedUpper)
-    const jointValue = this.mapValue(
-      value, 
-      pivot.lower, 
-      pivot.upper,
-      pivot.mappedLower, 
-      pivot.mappedUpper
-    );
+    const jointValue = this.pivotValueToJointValue(name, value);
 
+    // servo driven pivots only take the command, the joint follows in update()
+    if (this.servos[name]) {
+      this.servos[name].setTarget(jointValue);
+      this.pivotMap[name].value = value;
+      return true;
+    }
     
     // Update the actual robot joint using the jointName
-    const returnVal = this.setJointValue(pivot.jointName, jointValue);
+    const returnVal = this.commandJointValue(pivot.jointName, [jointValue], options);
 
     // Update pivot value
     this.pivotMap[name].value = value;
-    this.pivotMap[name].jointValue = jointValue;
 
     return returnVal
   }
@@ -553,9 +1784,10 @@ export abstract class Robot extends THREE.Object3D {
   /**
    * Set multiple pivot values at once
    * @param pivotValueDictionary Dictionary of pivot names to values
+   * @param options Pass immediate to move the joints straight away
    * @returns Boolean indicating success
    */
-  setPivotValues(pivotValueDictionary: { [key: string]: number }): boolean {
+  setPivotValues(pivotValueDictionary: { [key: string]: number }, options: JointCommandOptions = {}): boolean {
     let success = true;
     
     // Create a joint value dictionary for the actual robot
@@ -575,25 +1807,863 @@ export abstract class Robot extends THREE.Object3D {
       const pivot = this.pivotMap[name];
       
       // Map the value from UI range (lower/upper) to joint range (mappedLower/mappedUpper)
-      const jointValue = this.mapValue(
-        value, 
-        pivot.lower, 
-        pivot.upper,
-        pivot.mappedLower, 
-        pivot.mappedUpper
-      );
+      const jointValue = this.pivotValueToJointValue(name, value);
+
+      if (this.servos[name]) {
+        this.servos[name].setTarget(jointValue);
+        return;
+      }
       
       jointValueDictionary[pivot.jointName] = jointValue;
     });
     
     // Update the actual robot joints
     if (Object.keys(jointValueDictionary).length > 0) {
-      success = success && this.setJointValues(jointValueDictionary);
+      success = success && this.setJointValues(jointValueDictionary, options);
     }
     
     return success;
   }
 
+  /**
+   * Move pivots smoothly to the given values instead of setting them instantly.
+   * Every pivot in the command is synchronised to arrive at the same time.
+   * A new command (or cancelMotion) pre-empts the motion in progress, starting from wherever the pivots currently are
+   * @param target Dictionary of pivot names to target values
+   * @param options Duration, or velocity/acceleration limits in pivot units, and the profile shape
+   * @returns Promise resolving to true on arrival, or false if the motion was cancelled or pre-empted
+   */
+  moveToPivots(target: { [key: string]: number }, options: MoveToPivotsOptions = {}): Promise<boolean> {
+    this.cancelMotion();
+
+    const start: { [key: string]: number } = {};
+    const end: { [key: string]: number } = {};
+
+    Object.entries(target).forEach(([name, value]) => {
+      if (!this.pivotMap[name]) {
+        console.error(`Pivot '${name}' not found`);
+        return;
+      }
+
+      start[name] = this.pivotMap[name].value;
+      end[name] = value;
+    });
+
+    if (Object.keys(end).length === 0) {
+      return Promise.resolve(false);
+    }
+
+    const trajectories = createSynchronizedTrajectories(start, end, {
+      duration: options.duration,
+      maxVelocity: options.maxVelocity ?? Robot.DEFAULT_MAX_PIVOT_VELOCITY,
+      maxAcceleration: options.maxAcceleration ?? Robot.DEFAULT_MAX_PIVOT_ACCELERATION,
+    }, options.profile);
+
+    return new Promise(resolve => {
+      this.activeMotion = { trajectories, elapsed: 0, resolve };
+    });
+  }
+
+  /**
+   * Stop the motion started by moveToPivots, leaving the pivots where they currently are
+   * @returns Boolean indicating whether a motion was in progress
+   */
+  cancelMotion(): boolean {
+    const motion = this.activeMotion;
+    if (!motion) return false;
+
+    this.activeMotion = null;
+    motion.resolve(false);
+    return true;
+  }
+
+  /**
+   * Whether a motion started by moveToPivots is still in progress
+   */
+  get isMoving(): boolean {
+    return this.activeMotion !== null;
+  }
+
+  /**
+   * Simulate the links as dynamic bodies instead of posing them kinematically. Every link with a body and a mass in
+   * the URDF's <inertial> gets that mass, center of mass and (diagonal) inertia, and revolute, continuous and fixed
+   * joints become physics constraints, so the arm sags, swings and can be pushed around. Links without a body above
+   * them, like the base, stay kinematic and anchor the arm. Pivot values then command motors in the joints,
+   * limited to the torque and speed of the STS3215 servos
+   * @returns Promise resolving to true once the links are dynamic, or false if the robot has no physics
+   */
+  async enableDynamics(): Promise<boolean> {
+    if(!this.robot) throw Error("robot must be initialized before calling this function")
+
+    // link bodies are added once their meshes have loaded
+    await this.linkBodiesReady
+    if(this.dynamicLinks.length > 0) return true
+
+    const Ammo = (globalThis as any).Ammo
+    if(!Ammo || !this.physics){
+      console.error(`Robot '${this.name}' must be loaded with an enable3d physics object to be dynamic`)
+      return false
+    }
+
+    if(Object.keys(this.servos).length > 0){
+      console.warn(`Servo models are turned off in dynamic mode, the joint motors take their place`)
+      this.disableServos()
+    }
+
+    const robot = this.robot
+    const scale = robot.scale.x || 1
+    robot.updateWorldMatrix(true, true)
+
+    // parents come before their children, so each joint's parent body is already in place
+    robot.traverse(object => {
+      const link = object as URDFLink
+      const joint = link.parent as URDFJoint | null
+      const body = (link as any).body
+      if(!link.isURDFLink || !body || !joint?.isURDFJoint) return
+
+      const inertial = getLinkInertial(link)
+      if(!inertial || inertial.mass < Robot.MIN_DYNAMIC_MASS) return
+
+      const parentLink = Robot.findParentLinkWithBody(joint)
+      if(!parentLink) return
+
+      if(!['revolute', 'continuous', 'fixed'].includes(joint.jointType)){
+        console.warn(`Joint '${joint.name}' of type '${joint.jointType}' can't be simulated, link '${link.name}' stays kinematic`)
+        return
+      }
+
+      const dynamicLink = this.makeLinkDynamic(link, joint, parentLink, inertial, scale)
+      dynamicLink.constraint = this.createJointConstraint(dynamicLink)
+      this.dynamicLinks.push(dynamicLink)
+
+      if(joint.jointType !== 'fixed'){
+        const pivot = Object.values(this.pivotMap).find(pivot => pivot.jointName === joint.name)
+        this.jointTargets[joint.name] = this.kinematicTargets[joint.name] ?? pivot?.jointValue ?? Number(joint.angle)
+        delete this.kinematicTargets[joint.name]
+      }
+    })
+
+    return true
+  }
+
+  /**
+   * Go back to posing the links kinematically, the joints stay where the simulation left them
+   */
+  disableDynamics(): void {
+    if(!this.robot || this.dynamicLinks.length === 0) return
+
+    const Ammo = (globalThis as any).Ammo
+    const physicsWorld = this.physics.physicsWorld
+    const scale = this.robot.scale.x || 1
+
+    for(const { link, constraint } of this.dynamicLinks){
+      physicsWorld.removeConstraint(constraint)
+      Ammo.destroy(constraint)
+
+      const body = (link as any).body
+      this.setBodyCenterOfMass(link, new THREE.Vector3(), scale)
+      const noInertia = new Ammo.btVector3(0, 0, 0)
+      body.ammo.setMassProps(0, noInertia)
+      Ammo.destroy(noInertia)
+      body.setCollisionFlags(2)
+      body.skipUpdate = false
+      physicsWorld.removeRigidBody(body.ammo)
+      physicsWorld.addRigidBody(body.ammo, Robot.LINK_COLLISION_GROUP, ~(Robot.HELD_OBJECT_COLLISION_GROUP | Robot.LINK_COLLISION_GROUP))
+    }
+
+    this.dynamicLinks = []
+    this.jointTargets = {}
+
+    // the pivots now show where the joints actually are
+    Object.entries(this.pivotMap).forEach(([name, pivot]) => {
+      const joint = this.robot!.joints[pivot.jointName]
+      if(joint) this.setPivotValue(name, this.jointValueToPivotValue(name, Number(joint.angle)), { immediate: true })
+    })
+  }
+
+  /**
+   * Whether the links are simulated as dynamic bodies, see enableDynamics
+   */
+  get isDynamic(): boolean {
+    return this.dynamicLinks.length > 0
+  }
+
+  // the closest link above the joint that has a physics body
+  private static findParentLinkWithBody(joint: URDFJoint): URDFLink | null {
+    for(let object = joint.parent; object; object = object.parent){
+      if((object as URDFLink).isURDFLink && (object as any).body) return object as URDFLink
+    }
+    return null
+  }
+
+  /**
+   * Give a link's body the mass properties from the URDF and make it dynamic
+   */
+  private makeLinkDynamic(link: URDFLink, joint: URDFJoint, parentLink: URDFLink, inertial: LinkInertial, scale: number): DynamicLink {
+    const Ammo = (globalThis as any).Ammo
+    const body = (link as any).body
+    const centerOfMass = inertial.centerOfMass.clone().multiplyScalar(scale)
+    this.setBodyCenterOfMass(link, centerOfMass, scale)
+
+    // lengths are scaled in the scene but masses aren't, so the inertia grows with the square of the scale
+    const inertia = inertial.inertia.clone().multiplyScalar(scale * scale)
+    const localInertia = new Ammo.btVector3(Math.max(inertia.x, 1e-6), Math.max(inertia.y, 1e-6), Math.max(inertia.z, 1e-6))
+    body.ammo.setMassProps(inertial.mass, localInertia)
+    body.ammo.updateInertiaTensor()
+    Ammo.destroy(localInertia)
+
+    body.setCollisionFlags(0)
+    // the link is posed from the body in syncDynamicLinks, enable3d would put the link origin on the center of mass
+    body.skipUpdate = true
+
+    // re-adding the body makes the world apply gravity to it
+    const physicsWorld = this.physics.physicsWorld
+    physicsWorld.removeRigidBody(body.ammo)
+    physicsWorld.addRigidBody(body.ammo, Robot.LINK_COLLISION_GROUP, ~(Robot.HELD_OBJECT_COLLISION_GROUP | Robot.LINK_COLLISION_GROUP))
+    // 4 is DISABLE_DEACTIVATION, a resting arm must still respond to its motors
+    body.ammo.setActivationState(4)
+
+    // hinge angles are measured from the middle of the joint's range, which keeps them within +-PI
+    const reference = joint.jointType === 'revolute' ? (joint.limit.lower + joint.limit.upper) / 2 : 0
+    return { link, joint, parentLink, constraint: null, centerOfMass, reference }
+  }
+
+  /**
+   * Bullet puts a body's origin on its center of mass, so move the body there and its shapes the other way
+   * @param centerOfMass In the link's frame and world units
+   */
+  private setBodyCenterOfMass(link: URDFLink, centerOfMass: THREE.Vector3, scale: number){
+    const Ammo = (globalThis as any).Ammo
+    const body = (link as any).body
+    const compound = Ammo.castObject(body.ammo.getCollisionShape(), Ammo.btCompoundShape)
+    const transform = new Ammo.btTransform()
+
+    const shapes = this.linkShapes.get(link.name) ?? []
+    shapes.forEach((shape, index) => {
+      transform.setIdentity()
+      transform.getOrigin().setValue(
+        (shape.x ?? 0) * scale - centerOfMass.x,
+        (shape.y ?? 0) * scale - centerOfMass.y,
+        (shape.z ?? 0) * scale - centerOfMass.z
+      )
+      compound.updateChildTransform(index, transform, true)
+    })
+
+    const position = new THREE.Vector3()
+    const quaternion = new THREE.Quaternion()
+    link.getWorldPosition(position)
+    link.getWorldQuaternion(quaternion)
+    position.add(centerOfMass.clone().applyQuaternion(quaternion))
+
+    transform.setIdentity()
+    transform.getOrigin().setValue(position.x, position.y, position.z)
+    transform.setRotation(new Ammo.btQuaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w))
+    body.ammo.setWorldTransform(transform)
+    body.ammo.getMotionState().setWorldTransform(transform)
+    Ammo.destroy(transform)
+  }
+
+  /**
+   * A hinge for revolute and continuous joints, a fixed constraint for fixed ones, between the link's body
+   * and the closest body above it
+   */
+  private createJointConstraint(dynamicLink: DynamicLink): any {
+    const Ammo = (globalThis as any).Ammo
+    const { link, joint, parentLink, centerOfMass, reference } = dynamicLink
+
+    // the joint frame at the reference value, a hinge turns around the z axis of its frames
+    const toHingeAxis = joint.jointType === 'fixed'
+      ? new THREE.Quaternion()
+      : new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), joint.axis)
+    const jointPosition = new THREE.Vector3()
+    const jointQuaternion = new THREE.Quaternion()
+    joint.parent!.getWorldQuaternion(jointQuaternion)
+    jointQuaternion.multiply(Robot.getJointOriginQuaternion(joint))
+      .multiply(new THREE.Quaternion().setFromAxisAngle(joint.axis, reference))
+      .multiply(toHingeAxis)
+    joint.getWorldPosition(jointPosition)
+
+    // frame A in the parent body, which may already be dynamic with its origin on its center of mass
+    const parentBody = (parentLink as any).body.ammo
+    const parentTransform = new Ammo.btTransform()
+    parentBody.getMotionState().getWorldTransform(parentTransform)
+    const parentOrigin = parentTransform.getOrigin()
+    const parentRotation = parentTransform.getRotation()
+    const parentInverse = new THREE.Quaternion(parentRotation.x(), parentRotation.y(), parentRotation.z(), parentRotation.w()).invert()
+    const positionInA = jointPosition.clone()
+      .sub(new THREE.Vector3(parentOrigin.x(), parentOrigin.y(), parentOrigin.z()))
+      .applyQuaternion(parentInverse)
+    const quaternionInA = parentInverse.clone().multiply(jointQuaternion)
+
+    // frame B in the link's body, the link sits on the joint's frame turned by the joint value
+    const positionInB = centerOfMass.clone().negate()
+    const quaternionInB = toHingeAxis
+
+    const toTransform = (position: THREE.Vector3, quaternion: THREE.Quaternion) => {
+      const transform = new Ammo.btTransform()
+      transform.setIdentity()
+      transform.getOrigin().setValue(position.x, position.y, position.z)
+      transform.setRotation(new Ammo.btQuaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w))
+      return transform
+    }
+    const frameA = toTransform(positionInA, quaternionInA)
+    const frameB = toTransform(positionInB, quaternionInB)
+
+    const body = (link as any).body.ammo
+    let constraint
+    if(joint.jointType === 'fixed'){
+      constraint = new Ammo.btFixedConstraint(parentBody, body, frameA, frameB)
+    } else {
+      // with frame A as the reference, the hinge angle grows the same way as the joint value
+      constraint = new Ammo.btHingeConstraint(parentBody, body, frameA, frameB, true)
+      if(joint.jointType === 'revolute'){
+        const halfRange = (joint.limit.upper - joint.limit.lower) / 2
+        constraint.setLimit(-halfRange, halfRange, 0.9, 0.3, 1)
+      }
+    }
+    this.physics.physicsWorld.addConstraint(constraint, true)
+
+    Ammo.destroy(parentTransform)
+    Ammo.destroy(frameA)
+    Ammo.destroy(frameB)
+    return constraint
+  }
+
+  // rotation of the joint's frame at a joint value of zero, urdf-loader keeps it once the joint has been moved
+  private static getJointOriginQuaternion(joint: URDFJoint): THREE.Quaternion {
+    return ((joint as any).origQuaternion ?? joint.quaternion).clone()
+  }
+
+  /**
+   * Pose the dynamic links where the physics engine put their bodies, reading the joint values back from them
+   */
+  private syncDynamicLinks(){
+    if(!this.robot || this.dynamicLinks.length === 0) return
+
+    const Ammo = (globalThis as any).Ammo
+    const transform = new Ammo.btTransform()
+    this.robot.updateWorldMatrix(true, true)
+
+    for(const { link, joint, centerOfMass } of this.dynamicLinks){
+      const body = (link as any).body
+      body.ammo.getMotionState().getWorldTransform(transform)
+      const origin = transform.getOrigin()
+      const rotation = transform.getRotation()
+      const quaternion = new THREE.Quaternion(rotation.x(), rotation.y(), rotation.z(), rotation.w())
+      const position = new THREE.Vector3(origin.x(), origin.y(), origin.z())
+        .sub(centerOfMass.clone().applyQuaternion(quaternion))
+
+      // the joint value is the link's rotation around the axis, relative to the joint's frame at zero
+      if(joint.jointType !== 'fixed'){
+        const zero = joint.parent!.getWorldQuaternion(new THREE.Quaternion()).multiply(Robot.getJointOriginQuaternion(joint))
+        const relative = zero.invert().multiply(quaternion)
+        let angle = 2 * Math.atan2(new THREE.Vector3(relative.x, relative.y, relative.z).dot(joint.axis), relative.w)
+        if(joint.jointType === 'revolute'){
+          const middle = (joint.limit.lower + joint.limit.upper) / 2
+          angle = middle + THREE.MathUtils.euclideanModulo(angle - middle + Math.PI, 2 * Math.PI) - Math.PI
+        }
+        this.robot.setJointValue(joint.name, angle)
+        joint.updateWorldMatrix(false, false)
+      }
+
+      // the rest of the constraint error goes into the link's own transform, so it's drawn where its body is
+      const jointWorldQuaternion = joint.getWorldQuaternion(new THREE.Quaternion())
+      link.position.copy(joint.worldToLocal(position))
+      link.quaternion.copy(jointWorldQuaternion.invert().multiply(quaternion))
+      link.updateMatrixWorld(true)
+    }
+    Ammo.destroy(transform)
+
+    Object.values(this.pivotMap).forEach(pivot => {
+      const joint = this.robot!.joints[pivot.jointName]
+      if(joint && pivot.jointName in this.jointTargets) pivot.jointValue = Number(joint.angle)
+    })
+
+    Robot.markLinksAsNeedingPhysicsUpdate(this.robot)
+    this.updateGrippedObjectPositions()
+  }
+
+  /**
+   * Drive each simulated joint's motor towards its commanded value, within the STS3215's speed and torque
+   * and the URDF's limits, and apply the URDF's joint damping and friction
+   */
+  private driveDynamicJoints(){
+    if(!this.robot || this.dynamicLinks.length === 0) return
+
+    const Ammo = (globalThis as any).Ammo
+    const scale = this.robot.scale.x || 1
+    const fixedTimeStep = this.physics.config?.fixedTimeStep ?? 1 / 60
+
+    for(const { joint, parentLink, link, constraint } of this.dynamicLinks){
+      const target = this.jointTargets[joint.name]
+      if(joint.jointType === 'fixed' || target === undefined) continue
+
+      const limits = this.jointLimits[joint.name]
+      const maxSpeed = Math.min(STS3215_PARAMETERS.maxSpeed, limits?.velocity ?? Infinity)
+      const maxTorque = Math.min(STS3215_PARAMETERS.maxTorque, limits?.effort ?? Infinity)
+
+      // torques scale with lengths, the motor's impulse is applied once per physics step
+      const error = target - Number(joint.angle)
+      const velocity = THREE.MathUtils.clamp(error * Robot.DYNAMIC_JOINT_GAIN, -maxSpeed, maxSpeed)
+      constraint.enableAngularMotor(true, velocity, maxTorque * scale * fixedTimeStep)
+
+      if(!limits || (limits.damping === 0 && limits.friction === 0)) continue
+
+      // damping and friction act against the joint's speed, on the link and in reverse on its parent
+      const body = (link as any).body.ammo
+      const parentBody = (parentLink as any).body.ammo
+      const axis = joint.axis.clone().applyQuaternion(joint.getWorldQuaternion(new THREE.Quaternion()))
+      const childVelocity = body.getAngularVelocity()
+      const parentVelocity = parentBody.getAngularVelocity()
+      const jointSpeed = axis.dot(new THREE.Vector3(
+        childVelocity.x() - parentVelocity.x(),
+        childVelocity.y() - parentVelocity.y(),
+        childVelocity.z() - parentVelocity.z()
+      ))
+      const torque = -(limits.damping * jointSpeed
+        + limits.friction * THREE.MathUtils.clamp(jointSpeed / Robot.JOINT_FRICTION_SPEED, -1, 1)) * scale
+
+      const torqueVector = new Ammo.btVector3(axis.x * torque, axis.y * torque, axis.z * torque)
+      body.applyTorque(torqueVector)
+      torqueVector.setValue(-axis.x * torque, -axis.y * torque, -axis.z * torque)
+      parentBody.applyTorque(torqueVector)
+      Ammo.destroy(torqueVector)
+    }
+  }
+
+  /**
+   * Drive pivots through a model of the Feetech STS3215 servos instead of setting their joints directly.
+   * Pivot values then become commands: the joint follows at limited speed and torque, lags behind under load
+   * and stalls when pushing against the table or holding something too heavy. Call update() every frame to move them
+   * @param options Pivots to drive and servo parameters
+   * @returns Boolean indicating whether every pivot was found
+   */
+  enableServos(options: EnableServosOptions = {}): boolean {
+    if(!this.robot) throw Error("robot must be initialized before calling this function")
+    if(this.isDynamic){
+      console.error(`Servo models can't be used in dynamic mode, the joint motors take their place`)
+      return false
+    }
+
+    let success = true;
+    for (const name of options.pivots ?? Object.keys(this.pivotMap)) {
+      const pivot = this.pivotMap[name];
+      if (!pivot) {
+        console.error(`Pivot '${name}' not found`);
+        success = false;
+        continue;
+      }
+
+      // the servo starts at rest wherever the joint is now, and the URDF's limits apply on top of its own
+      const jointValue = pivot.jointValue ?? this.pivotValueToJointValue(name, pivot.value);
+      const parameters = { ...STS3215_PARAMETERS, ...options.parameters };
+      const limits = this.jointLimits[pivot.jointName];
+      this.servos[name] = new ServoActuator(jointValue, {
+        ...parameters,
+        maxSpeed: Math.min(parameters.maxSpeed, limits?.velocity ?? Infinity),
+        maxTorque: Math.min(parameters.maxTorque, limits?.effort ?? Infinity),
+      });
+
+      if (pivot.jointName in this.kinematicTargets) {
+        this.servos[name].setTarget(this.kinematicTargets[pivot.jointName]);
+        delete this.kinematicTargets[pivot.jointName];
+      }
+    }
+
+    return success;
+  }
+
+  /**
+   * Go back to setting the joints of pivots directly, they stay where their servo got them to
+   * @param pivots Pivots to stop driving through the servo model, defaults to every servo driven pivot
+   */
+  disableServos(pivots: string[] = Object.keys(this.servos)): void {
+    for (const name of pivots) {
+      const servo = this.servos[name];
+      if (!servo) continue;
+
+      delete this.servos[name];
+      this.pivotMap[name].value = this.jointValueToPivotValue(name, servo.position);
+    }
+  }
+
+  /**
+   * State of a servo driven pivot
+   * @param name Name of the pivot
+   * @returns The state, or null if the pivot isn't driven by a servo
+   */
+  getServoState(name: string): ServoState | null {
+    const servo = this.servos[name];
+    if (!servo) return null;
+
+    return {
+      commanded: this.pivotMap[name].value,
+      actual: this.jointValueToPivotValue(name, servo.position),
+      velocity: servo.velocity,
+      torque: servo.torque,
+      load: servo.load,
+      stalled: servo.stalled,
+    };
+  }
+
+  /**
+   * Advance every servo and move the joints to where they got to
+   */
+  private updateServos(delta: number): void {
+    const names = Object.keys(this.servos);
+    if (!this.robot || names.length === 0 || delta <= 0) return;
+
+    const loads = this.computeServoLoads();
+    for (const name of names) {
+      const pivot = this.pivotMap[name];
+      this.applyJointValue(pivot, this.servos[name].step(delta, loads[pivot.jointName] ?? 0));
+    }
+  }
+
+  /**
+   * Move joints with a velocity limit towards their commanded values
+   */
+  private advanceKinematicJoints(delta: number): void {
+    for (const [jointName, target] of Object.entries(this.kinematicTargets)) {
+      const pivot = Object.values(this.pivotMap).find(pivot => pivot.jointName === jointName);
+      const joint = this.robot?.joints[jointName];
+      if (!pivot || !joint) {
+        delete this.kinematicTargets[jointName];
+        continue;
+      }
+
+      const current = pivot.jointValue ?? Number(joint.angle);
+      const value = stepTowards(current, target, this.jointLimits[jointName].velocity, delta);
+      this.applyJointValue(pivot, value);
+      if (value === target) delete this.kinematicTargets[jointName];
+    }
+  }
+
+  /**
+   * External torque on each servo driven joint from the links' contacts with the scene and the weight of held objects.
+   * Contacts act like stiff springs, so each joint gets its load as a function of its own position,
+   * which lets the servo feel the contact stiffen as it pushes further in
+   */
+  private computeServoLoads(): { [jointName: string]: (position: number) => number } {
+    const robot = this.robot!;
+    const scale = robot.scale.x || 1;
+    robot.updateWorldMatrix(true, true);
+
+    const servoJoints = new Set(Object.keys(this.servos).map(name => this.pivotMap[name].jointName));
+    const forces: LinkForce[] = [];
+
+    Object.values(robot.links).forEach(link => {
+      if ((link as any).body && this.hasServoJointAbove(link, servoJoints)) {
+        forces.push(...this.probeLinkContacts(link, scale));
+      }
+    });
+
+    for (const { object } of this.gripped_objects.values()) {
+      const mass = object.userData.mass ?? 1;
+      forces.push({
+        link: this.gripper_a,
+        point: object.getWorldPosition(new THREE.Vector3()),
+        direction: new THREE.Vector3(0, -1, 0),
+        magnitude: mass * Robot.GRAVITY,
+        depth: 0,
+      });
+    }
+
+    // each force turns every servo joint above its link, lever is the torque (or force) per newton
+    const terms: { [jointName: string]: { lever: number, magnitude: number, depth: number, start: number }[] } = {};
+    for (const force of forces) {
+      for (let object = force.link.parent; object; object = object.parent) {
+        const joint = object as URDFJoint;
+        if (!joint.isURDFJoint || !servoJoints.has(joint.name)) continue;
+
+        const origin = joint.getWorldPosition(new THREE.Vector3());
+        const axis = joint.axis.clone().transformDirection(joint.matrixWorld);
+        const lever = joint.jointType === 'prismatic'
+          ? force.direction.dot(axis)
+          : force.point.clone().sub(origin).divideScalar(scale).cross(force.direction).dot(axis);
+
+        (terms[joint.name] ??= []).push({ lever, magnitude: force.magnitude, depth: force.depth, start: Number(joint.angle) });
+      }
+    }
+
+    const loads: { [jointName: string]: (position: number) => number } = {};
+    Object.entries(terms).forEach(([jointName, jointTerms]) => {
+      loads[jointName] = position => jointTerms.reduce((sum, term) => {
+        if (term.depth === 0) return sum + term.lever * term.magnitude;
+        // moving the joint moves the contact point along the lever, changing how deep it is
+        const depth = Math.max(0, term.depth - term.lever * (position - term.start));
+        return sum + term.lever * Robot.SERVO_CONTACT_STIFFNESS * depth;
+      }, 0);
+    });
+
+    return loads;
+  }
+
+  private hasServoJointAbove(link: THREE.Object3D, servoJoints: Set<string>): boolean {
+    for (let object = link.parent; object; object = object.parent) {
+      if ((object as URDFJoint).isURDFJoint && servoJoints.has(object.name)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Penetrating contacts of a link's body with anything but the robot and the objects it holds.
+   * Robot links are kinematic, so the physics engine doesn't report their contacts with static bodies
+   * like the table, the link is tested against the world directly instead
+   */
+  private probeLinkContacts(link: URDFLink, scale: number): LinkForce[] {
+    const Ammo = (globalThis as any).Ammo;
+    const physicsWorld = this.physics?.physicsWorld;
+    if (!Ammo || !physicsWorld) return [];
+
+    const ignored = new Set<number>();
+    Object.values(this.robot!.links).forEach(other => {
+      const body = (other as any).body;
+      if (body) ignored.add(Ammo.getPointer(body.ammo));
+    });
+    for (const { object } of this.gripped_objects.values()) {
+      ignored.add(Ammo.getPointer(object.body.ammo));
+    }
+
+    const linkPointer = Ammo.getPointer((link as any).body.ammo);
+    const forces: LinkForce[] = [];
+    const callback = new Ammo.ConcreteContactResultCallback();
+    callback.addSingleResult = (pointPointer: number, wrapperAPointer: number, _partA: number, _indexA: number, wrapperBPointer: number) => {
+      const contact = Ammo.wrapPointer(pointPointer, Ammo.btManifoldPoint);
+      const distance = contact.getDistance();
+      if (distance >= 0) return 0;
+
+      const objectA = Ammo.getPointer(Ammo.wrapPointer(wrapperAPointer, Ammo.btCollisionObjectWrapper).getCollisionObject());
+      const objectB = Ammo.getPointer(Ammo.wrapPointer(wrapperBPointer, Ammo.btCollisionObjectWrapper).getCollisionObject());
+      const linkIsA = objectA === linkPointer;
+      if (ignored.has(linkIsA ? objectB : objectA)) return 0;
+
+      // the normal points from B towards A, so it pushes A out and B in
+      const normal = contact.get_m_normalWorldOnB();
+      const point = linkIsA ? contact.getPositionWorldOnA() : contact.getPositionWorldOnB();
+      forces.push({
+        link,
+        point: new THREE.Vector3(point.x(), point.y(), point.z()),
+        direction: new THREE.Vector3(normal.x(), normal.y(), normal.z()).multiplyScalar(linkIsA ? 1 : -1),
+        magnitude: 0,
+        depth: -distance / scale,
+      });
+      return 0;
+    };
+
+    physicsWorld.contactTest((link as any).body.ammo, callback);
+    Ammo.destroy(callback);
+    return forces;
+  }
+
+  /**
+   * Snapshot the robot's pose, pivots, joints, servos and held objects, see RobotState.
+   * Motions started by moveToPivots aren't included
+   */
+  getState(): RobotState {
+    if (!this.robot) throw Error("robot must be initialized before calling this function")
+
+    const robot = this.robot;
+    const joints: RobotState['joints'] = {};
+    Object.values(robot.joints).forEach(joint => {
+      joints[joint.name] = joint.jointValue.map(Number);
+    });
+
+    const servos: RobotState['servos'] = {};
+    Object.entries(this.servos).forEach(([name, servo]) => {
+      servos[name] = { parameters: { ...servo.parameters }, state: servo.getState() };
+    });
+
+    const pivots: RobotState['pivots'] = {};
+    Object.entries(this.pivotMap).forEach(([name, pivot]) => pivots[name] = pivot.value);
+
+    return {
+      pose: { position: robot.position.toArray(), quaternion: robot.quaternion.toArray() },
+      pivots,
+      joints,
+      kinematicTargets: { ...this.kinematicTargets },
+      servos,
+      dynamic: this.isDynamic,
+      jointTargets: { ...this.jointTargets },
+      holdMode: this.holdMode,
+      grippedObjects: Array.from(this.gripped_objects.entries()).map(([name, details]) => ({
+        name,
+        position: details.relativePositionAndRotation.toArray(),
+        quaternion: details.relativeQuat.toArray(),
+      })),
+    };
+  }
+
+  /**
+   * Restore a snapshot taken with getState, by this robot or another instance of it. Objects that were held
+   * are looked up by name in the scene and put back in the gripper, pivots and joints missing from the
+   * state are left as they are
+   * @returns Promise resolving to true if everything in the state could be restored
+   */
+  async setState(state: RobotState): Promise<boolean> {
+    if (!this.robot) throw Error("robot must be initialized before calling this function")
+
+    const robot = this.robot;
+    let success = true;
+    this.cancelMotion();
+    Array.from(this.gripped_objects.keys()).forEach(name => this.markObjectAsUngripped(name));
+    // the joints are set kinematically, dynamic mode starts again from there
+    this.disableDynamics();
+    this.disableServos();
+
+    robot.position.fromArray(state.pose.position);
+    robot.quaternion.fromArray(state.pose.quaternion);
+
+    Object.entries(state.pivots).forEach(([name, value]) => {
+      if (this.pivotMap[name]) this.pivotMap[name].value = value;
+    });
+
+    Object.entries(state.joints).forEach(([jointName, values]) => {
+      if (!robot.joints[jointName]) {
+        console.warn(`Joint '${jointName}' not found, it's left out of the restored state`);
+        success = false;
+        return;
+      }
+      const pivot = Object.values(this.pivotMap).find(pivot => pivot.jointName === jointName);
+      if (pivot) {
+        this.applyJointValue(pivot, ...values);
+      } else {
+        robot.setJointValue(jointName, ...values);
+      }
+    });
+
+    this.kinematicTargets = {};
+    Object.entries(state.kinematicTargets).forEach(([jointName, target]) => {
+      if (robot.joints[jointName]) this.kinematicTargets[jointName] = target;
+    });
+
+    Object.entries(state.servos).forEach(([name, { parameters, state: servoState }]) => {
+      if (!this.pivotMap[name]) {
+        console.warn(`Pivot '${name}' not found, its servo isn't restored`);
+        success = false;
+        return;
+      }
+      this.servos[name] = new ServoActuator(servoState.position, parameters);
+      this.servos[name].setState(servoState);
+    });
+
+    robot.updateWorldMatrix(true, true);
+    this.moveLinkBodiesToLinks();
+
+    if (state.dynamic) {
+      success = (await this.enableDynamics()) && success;
+      Object.entries(state.jointTargets).forEach(([jointName, target]) => {
+        if (jointName in this.jointTargets) this.jointTargets[jointName] = target;
+      });
+    }
+
+    this.holdMode = state.holdMode;
+    state.grippedObjects.forEach(held => {
+      success = this.restoreGrippedObject(held) && success;
+    });
+
+    return success;
+  }
+
+  /**
+   * Put an object back in the gripper where it was held, see setState
+   */
+  private restoreGrippedObject(held: GrippedObjectState): boolean {
+    let scene: THREE.Object3D = this.robot!;
+    while (scene.parent) scene = scene.parent;
+    const object = scene.getObjectByName(held.name) as ExtendedObject3D | undefined;
+    if (!object?.body || !this.gripper_a) {
+      console.warn(`Object '${held.name}' can't be put back in the gripper`);
+      return false;
+    }
+
+    const gripperPosition = this.gripper_a.getWorldPosition(new THREE.Vector3());
+    const gripperQuaternion = this.gripper_a.getWorldQuaternion(new THREE.Quaternion());
+    object.position.copy(new THREE.Vector3().fromArray(held.position).applyQuaternion(gripperQuaternion).add(gripperPosition));
+    object.quaternion.copy(gripperQuaternion).multiply(new THREE.Quaternion().fromArray(held.quaternion));
+    object.body.setVelocity(0, 0, 0);
+    object.body.setAngularVelocity(0, 0, 0);
+    // the body has to be in place before a hold constraint is made
+    Robot.moveBodyToObject(object);
+
+    this.markObjectAsGripped(held.name, object);
+    return true;
+  }
+
+  /**
+   * Put a body where its object is right away, rather than on the next physics step
+   */
+  static moveBodyToObject(object: THREE.Object3D): void {
+    const Ammo = (globalThis as any).Ammo;
+    const body = (object as any).body;
+    if (!Ammo || !body) return;
+
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    object.updateWorldMatrix(true, false);
+    object.matrixWorld.decompose(position, quaternion, new THREE.Vector3());
+
+    const origin = new Ammo.btVector3(position.x, position.y, position.z);
+    const rotation = new Ammo.btQuaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    const transform = new Ammo.btTransform();
+    transform.setIdentity();
+    transform.setOrigin(origin);
+    transform.setRotation(rotation);
+    body.ammo.setWorldTransform(transform);
+    body.ammo.getMotionState().setWorldTransform(transform);
+    Ammo.destroy(transform);
+    Ammo.destroy(rotation);
+    Ammo.destroy(origin);
+  }
+
+  // the links' bodies normally catch up with the links on the next physics step, dynamic mode needs them in place
+  private moveLinkBodiesToLinks(): void {
+    if (!this.robot) return;
+    Object.values(this.robot.links).forEach(link => Robot.moveBodyToObject(link));
+    Robot.markLinksAsNeedingPhysicsUpdate(this.robot);
+  }
+
+  /**
+   * Advance time-dependent robot state, call this once per frame from the animation loop
+   * @param delta Seconds since the last update
+   */
+  update(delta: number): void {
+    if (!this.robot) return;
+
+    this.syncDynamicLinks();
+    this.trackGripperVelocity(delta);
+    this.releaseSlippedObjects();
+    this.updateGrasps(delta);
+    this.advanceMotion(delta);
+    this.advanceKinematicJoints(delta);
+    this.updateServos(delta);
+    this.driveDynamicJoints();
+  }
+
+  /**
+   * Set the pivots to where the motion started by moveToPivots should be by now
+   */
+  private advanceMotion(delta: number): void {
+    const motion = this.activeMotion;
+    if (!motion) return;
+
+    motion.elapsed += delta;
+
+    const values: { [key: string]: number } = {};
+    let finished = true;
+    for (const [name, trajectory] of Object.entries(motion.trajectories)) {
+      values[name] = trajectory.sample(motion.elapsed);
+      finished = finished && trajectory.isFinished(motion.elapsed);
+    }
+
+    this.setPivotValues(values);
+
+    if (finished) {
+      this.activeMotion = null;
+      motion.resolve(true);
+    }
+  }
+
   /**
    * Map a value from one range to another using linear interpolation
    * For pivot controls, this maps from the UI control range (lower/upper) to the actual joint limits (mappedLower/mappedUpper)
@@ -619,3 +2689,6 @@ export abstract class Robot extends THREE.Object3D {
     return toLow + normalizedValue * (toHigh - toLow);
   }
 }
+
+// Robot generated by Robot.fromURDF or Robot.fromDefinition, everything it needs comes from the URDF and the options
+class URDFModelRobot extends Robot {}
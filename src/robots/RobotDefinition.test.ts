@@ -0,0 +1,92 @@
+/** @jest-environment jsdom */
+import * as THREE from 'three';
+import { LinkPhysicsMap, Robot } from './Robot';
+import { SO101, SO101_DEFINITION } from './SO101';
+import { LeKiwi, LEKIWI_DEFINITION } from './LeKiwi';
+import { RobotDefinition, RobotDefinitionError, validateRobotDefinition } from './RobotDefinition';
+
+describe('robot definitions', () => {
+  it('describes the built-in robots with valid definitions', () => {
+    expect(validateRobotDefinition(SO101_DEFINITION)).toEqual([]);
+    expect(validateRobotDefinition(LEKIWI_DEFINITION)).toEqual([]);
+  });
+
+  it('builds the SO101 from its definition', () => {
+    const robot = new SO101();
+    expect(Object.keys(robot.pivotMap)).toEqual(SO101_DEFINITION.pivots.map(pivot => pivot.name));
+    expect(robot.servoIds).toEqual({ shoulder_pan: 1, shoulder_lift: 2, elbow_flex: 3, wrist_flex: 4, wrist_roll: 5, gripper: 6 });
+    expect(robot.linkPhysicsMap.gripper.gripper_part_a).toBe(true);
+  });
+
+  it('loads the built-in robots from their URDFs', () => {
+    expect(new SO101().modelPath).toBe('https://cdn.jsdelivr.net/gh/therealadityashankar/die-roboter/urdf/so101.urdf');
+    expect(new LeKiwi().modelPath).toBe(`${window.location.origin}/urdf/lekiwi/LeKiwi.urdf`);
+  });
+
+  // the boxes the robots had before their definitions, SO101 sizes were given in tenths of a meter
+  // and LeKiwi's were moved copies of the SO101's
+  const so101Boxes: { [link: string]: [number[], number[]] } = {
+    shoulder: [[.6, .4, .7], [-0.25, 0, 0]],
+    upper_arm: [[1.3, .3, .7], [-0.4, 0, 0.2]],
+    lower_arm: [[1.3, .3, .7], [-0.4, 0, 0.2]],
+    wrist: [[0.3, .8, .7], [0, -0.2, 0.2]],
+    gripper: [[0.2, .8, .7], [-0.2, 0, -0.65]],
+    moving_jaw_so101_v1: [[0.2, .8, .7], [0, -0.5, 0.2]],
+    baseframe: [[0.7, .7, .7], [0, 0, 0.34]],
+  };
+  const so101Box = (link: string) => so101Boxes[link].map(values => values.map(value => value * 0.1));
+
+  const expectBoxes = (linkPhysicsMap: LinkPhysicsMap, boxes: { [link: string]: number[][] }) => {
+    expect(Object.keys(linkPhysicsMap).sort()).toEqual(Object.keys(boxes).sort());
+    Object.entries(boxes).forEach(([link, [size, position]]) => {
+      const mesh = linkPhysicsMap[link].physicsMesh as THREE.Mesh<THREE.BoxGeometry>;
+      const { width, height, depth } = mesh.geometry.parameters;
+      [width, height, depth].forEach((value, i) => expect(value).toBeCloseTo(size[i], 10));
+      mesh.position.toArray().forEach((value, i) => expect(value).toBeCloseTo(position[i], 10));
+    });
+  };
+
+  it('keeps the SO101 collision boxes', () => {
+    expectBoxes(new SO101().linkPhysicsMap, Object.fromEntries(Object.keys(so101Boxes).map(link => [link, so101Box(link)])));
+  });
+
+  it(`keeps LeKiwi's collision boxes`, () => {
+    const moved = (link: string, axes: number[], [dx, dy, dz]: number[]) => {
+      const [size, [x, y, z]] = so101Box(link);
+      return [axes.map(axis => size[axis]), [x + dx, y + dy, z + dz]];
+    };
+    const robot = new LeKiwi();
+    expectBoxes(robot.linkPhysicsMap, {
+      'Moving_Jaw_08d-v1': moved('moving_jaw_so101_v1', [0, 2, 1], [0, 0.08, -0.05]),
+      'Wrist_Roll_Pitch_08i-v1': moved('wrist', [2, 0, 1], [-0.04, 0, -0.05]),
+      'SO_ARM100_08k_116_Square-v1': moved('lower_arm', [2, 0, 1], [0.015, -0.05, -0.015]),
+      'SO_ARM100_08k_Mirror-v1': moved('upper_arm', [2, 0, 1], [0.015, 0.05, -0.015]),
+      'Wrist_Roll_08c-v1': moved('gripper', [0, 2, 1], [0.015, 0.04, 0.025]),
+      'Rotation_Pitch_08i-v1': moved('shoulder', [0, 1, 2], [0.03, -0.03, 0]),
+    });
+    expect(robot.linkPhysicsMap['Moving_Jaw_08d-v1'].gripper_part_a).toBe(true);
+    expect(robot.linkPhysicsMap['Wrist_Roll_08c-v1'].gripper_part_b).toBe(true);
+    expect(robot.linkPhysicsMap['SO_ARM100_08k_116_Square-v1'].color!.getHex()).toBe(0x0000ff);
+    expect(robot.linkPhysicsMap['Wrist_Roll_08c-v1'].color!.getHex()).toBe(0x00ee00);
+  });
+
+  it('gives a robot from a definition the servo IDs of its pivots', () => {
+    const definition: RobotDefinition = { ...SO101_DEFINITION, pivots: SO101_DEFINITION.pivots.map(({ servoId, ...pivot }) => pivot) };
+    definition.pivots[0] = { ...definition.pivots[0], servoId: 12 };
+    expect(Robot.fromDefinition(definition).servoIds).toEqual({ shoulder_pan: 12 });
+  });
+
+  it('rejects servo IDs that are out of range or used twice', () => {
+    const pivots = SO101_DEFINITION.pivots.map(pivot => ({ ...pivot }));
+    pivots[1].servoId = 1;
+    pivots[2].servoId = 254;
+    pivots[3].servoId = 2.5;
+
+    expect(validateRobotDefinition({ ...SO101_DEFINITION, pivots })).toEqual([
+      `pivots[1].servoId 1 is already used by pivot 'shoulder_pan'`,
+      'pivots[2].servoId must be an integer from 0 to 253',
+      'pivots[3].servoId must be an integer from 0 to 253',
+    ]);
+    expect(() => Robot.fromDefinition({ ...SO101_DEFINITION, pivots })).toThrow(RobotDefinitionError);
+  });
+});
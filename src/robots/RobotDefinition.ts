@@ -0,0 +1,258 @@
+/**
+ * Declarative, versioned JSON format for describing a robot, so robot configs
+ * can live in data files instead of TypeScript constructors.
+ * Use Robot.fromDefinition or Robot.loadDefinition to turn one into a Robot
+ */
+
+import { NORM_MODES, NORM_MODE_RANGES, NormMode } from './Calibration';
+import { BROADCAST_ID } from '../utils/feetech';
+
+export const ROBOT_DEFINITION_VERSION = 1;
+
+// servo IDs below the bus's broadcast ID
+const MAX_SERVO_ID = BROADCAST_ID - 1;
+
+export type Vector3Tuple = [number, number, number];
+
+export interface RobotDefinitionPivot {
+  name: string;               // Display name for the pivot
+  jointName: string;          // Name of the corresponding joint in the URDF
+  range?: [number, number];   // UI range, e.g. [-100, 100], mapped onto the joint limits from the URDF, required without normMode
+  normMode?: NormMode;        // LeRobot normalization instead of a range
+  default?: number;           // Initial value in the UI range, defaults to the middle of the range (0 for DEGREES)
+  servoId?: number;           // ID of the pivot's servo on the real robot's bus, see Robot.servoIds
+}
+
+export interface RobotDefinitionLink {
+  box?: {                     // Collision box in the link's frame, in URDF units (meters)
+    size: Vector3Tuple;       // width, height, depth
+    position?: Vector3Tuple;  // Offset of the box center from the link origin
+  };
+  fitToGeometry?: boolean;    // Size the collision box to the link's meshes instead, ignored if box is set
+  useURDFCollision?: boolean; // false ignores the link's URDF <collision> elements
+  color?: string;             // Mesh color as '#rrggbb'
+  gripperPart?: 'a' | 'b';    // The link is one of the two gripper jaws
+}
+
+export interface RobotDefinition {
+  version: typeof ROBOT_DEFINITION_VERSION;
+  name: string;
+  urdf: string;               // URDF path, relative paths are resolved against the definition file's URL
+  pivots: RobotDefinitionPivot[];
+  links?: { [linkName: string]: RobotDefinitionLink };
+  defaultPose?: {             // Placement in the scene when load() isn't given a position/rotation
+    position?: Vector3Tuple;
+    rotationDegrees?: number; // Rotation around the vertical axis
+  };
+}
+
+/**
+ * Thrown when a robot definition doesn't match the format, lists every problem found
+ */
+export class RobotDefinitionError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid robot definition:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'RobotDefinitionError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNumberTuple = (value: unknown, length: number): boolean =>
+  Array.isArray(value) && value.length === length && value.every(isFiniteNumber);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+// unknown keys are reported so typos don't get silently ignored
+function checkKeys(value: { [key: string]: unknown }, allowed: string[], path: string, issues: string[]) {
+  Object.keys(value).forEach(key => {
+    if (!allowed.includes(key)) issues.push(`${path}.${key} is not a known property`);
+  });
+}
+
+function validatePivots(pivots: unknown, issues: string[]) {
+  if (!Array.isArray(pivots)) {
+    issues.push('pivots must be an array');
+    return;
+  }
+
+  const names = new Set<string>();
+  const servoIds = new Map<number, string>();
+  pivots.forEach((pivot, index) => {
+    const path = `pivots[${index}]`;
+    if (!isObject(pivot)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    checkKeys(pivot, ['name', 'jointName', 'range', 'normMode', 'default', 'servoId'], path, issues);
+
+    if (!isNonEmptyString(pivot.name)) {
+      issues.push(`${path}.name must be a non-empty string`);
+    } else if (names.has(pivot.name)) {
+      issues.push(`${path}.name '${pivot.name}' is used by more than one pivot`);
+    } else {
+      names.add(pivot.name);
+    }
+
+    if (!isNonEmptyString(pivot.jointName)) {
+      issues.push(`${path}.jointName must be a non-empty string`);
+    }
+
+    let range = pivot.range as number[];
+    if (pivot.normMode !== undefined) {
+      if (!NORM_MODES.includes(pivot.normMode as NormMode)) {
+        issues.push(`${path}.normMode must be one of ${NORM_MODES.join(', ')}`);
+      } else if (range !== undefined) {
+        issues.push(`${path}.range can't be combined with normMode, the normalization sets the range`);
+      } else if (pivot.normMode !== 'DEGREES') {
+        // the range of DEGREES depends on the joint, so the default can't be checked here
+        range = NORM_MODE_RANGES[pivot.normMode as NormMode];
+      }
+    } else if (!isNumberTuple(range, 2)) {
+      issues.push(`${path}.range must be [lower, upper]`);
+    } else if (range[0] === range[1]) {
+      issues.push(`${path}.range must not be empty`);
+    }
+
+    if (pivot.default !== undefined) {
+      if (!isFiniteNumber(pivot.default)) {
+        issues.push(`${path}.default must be a number`);
+      } else if (isNumberTuple(range, 2)
+        && (pivot.default < Math.min(range[0], range[1]) || pivot.default > Math.max(range[0], range[1]))) {
+        issues.push(`${path}.default ${pivot.default} is outside of its range [${range[0]}, ${range[1]}]`);
+      }
+    }
+
+    if (pivot.servoId !== undefined) {
+      if (!Number.isInteger(pivot.servoId) || (pivot.servoId as number) < 0 || (pivot.servoId as number) > MAX_SERVO_ID) {
+        issues.push(`${path}.servoId must be an integer from 0 to ${MAX_SERVO_ID}`);
+      } else if (servoIds.has(pivot.servoId as number)) {
+        issues.push(`${path}.servoId ${pivot.servoId} is already used by pivot '${servoIds.get(pivot.servoId as number)}'`);
+      } else {
+        servoIds.set(pivot.servoId as number, String(pivot.name));
+      }
+    }
+  });
+}
+
+function validateLinks(links: unknown, issues: string[]) {
+  if (links === undefined) return;
+  if (!isObject(links)) {
+    issues.push('links must be an object keyed by link name');
+    return;
+  }
+
+  const gripperParts: { [part: string]: string } = {};
+  Object.entries(links).forEach(([linkName, link]) => {
+    const path = `links.${linkName}`;
+    if (!isObject(link)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    checkKeys(link, ['box', 'fitToGeometry', 'useURDFCollision', 'color', 'gripperPart'], path, issues);
+
+    if (link.box !== undefined) {
+      if (!isObject(link.box)) {
+        issues.push(`${path}.box must be an object`);
+      } else {
+        checkKeys(link.box, ['size', 'position'], `${path}.box`, issues);
+        const size = link.box.size as number[];
+        if (!isNumberTuple(size, 3) || size.some(value => value <= 0)) {
+          issues.push(`${path}.box.size must be three positive numbers`);
+        }
+        if (link.box.position !== undefined && !isNumberTuple(link.box.position, 3)) {
+          issues.push(`${path}.box.position must be three numbers`);
+        }
+      }
+    }
+
+    if (link.fitToGeometry !== undefined && typeof link.fitToGeometry !== 'boolean') {
+      issues.push(`${path}.fitToGeometry must be a boolean`);
+    }
+
+    if (link.useURDFCollision !== undefined && typeof link.useURDFCollision !== 'boolean') {
+      issues.push(`${path}.useURDFCollision must be a boolean`);
+    }
+
+    if (link.color !== undefined && (typeof link.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(link.color))) {
+      issues.push(`${path}.color must be a color in the form '#rrggbb'`);
+    }
+
+    if (link.gripperPart !== undefined) {
+      if (link.gripperPart !== 'a' && link.gripperPart !== 'b') {
+        issues.push(`${path}.gripperPart must be 'a' or 'b'`);
+      } else if (gripperParts[link.gripperPart]) {
+        issues.push(`${path}.gripperPart '${link.gripperPart}' is already used by link '${gripperParts[link.gripperPart]}'`);
+      } else {
+        gripperParts[link.gripperPart] = linkName;
+      }
+    }
+  });
+}
+
+function validateDefaultPose(defaultPose: unknown, issues: string[]) {
+  if (defaultPose === undefined) return;
+  if (!isObject(defaultPose)) {
+    issues.push('defaultPose must be an object');
+    return;
+  }
+  checkKeys(defaultPose, ['position', 'rotationDegrees'], 'defaultPose', issues);
+
+  if (defaultPose.position !== undefined && !isNumberTuple(defaultPose.position, 3)) {
+    issues.push('defaultPose.position must be three numbers');
+  }
+  if (defaultPose.rotationDegrees !== undefined && !isFiniteNumber(defaultPose.rotationDegrees)) {
+    issues.push('defaultPose.rotationDegrees must be a number');
+  }
+}
+
+/**
+ * Checks data against the robot definition format
+ * @param data Parsed JSON
+ * @returns Every problem found, empty if the definition is valid
+ */
+export function validateRobotDefinition(data: unknown): string[] {
+  const issues: string[] = [];
+
+  if (!isObject(data)) {
+    return ['a robot definition must be a JSON object'];
+  }
+
+  if (data.version !== ROBOT_DEFINITION_VERSION) {
+    issues.push(`version ${JSON.stringify(data.version)} is not supported, expected ${ROBOT_DEFINITION_VERSION}`);
+    // the rest of the format may have changed, so don't report it as broken
+    return issues;
+  }
+
+  checkKeys(data, ['version', 'name', 'urdf', 'pivots', 'links', 'defaultPose'], 'definition', issues);
+
+  if (!isNonEmptyString(data.name)) issues.push('name must be a non-empty string');
+  if (!isNonEmptyString(data.urdf)) issues.push('urdf must be a non-empty string');
+
+  validatePivots(data.pivots, issues);
+  validateLinks(data.links, issues);
+  validateDefaultPose(data.defaultPose, issues);
+
+  return issues;
+}
+
+/**
+ * Validates data and narrows it to a RobotDefinition
+ * @param data Parsed JSON
+ * @throws RobotDefinitionError listing every problem if the definition is invalid
+ */
+export function parseRobotDefinition(data: unknown): RobotDefinition {
+  const issues = validateRobotDefinition(data);
+  if (issues.length > 0) {
+    throw new RobotDefinitionError(issues);
+  }
+  return data as RobotDefinition;
+}
@@ -1,6 +1,17 @@
 import { ExtendedMesh } from 'enable3d';
-import { Robot, UnmappedPivotMap } from './Robot';
+import { Robot } from './Robot';
+import { parseRobotDefinition } from './RobotDefinition';
 import * as THREE from 'three';
+import so101Definition from './definitions/so101.robot.json';
+
+// where the SO101's URDF and meshes are published, the definition's URDF path is relative to it
+const SO101_URDF_BASE = 'https://cdn.jsdelivr.net/gh/therealadityashankar/die-roboter/urdf/';
+
+/**
+ * The SO101's pivots and collision boxes, with LeRobot's servo IDs from its motor setup,
+ * from definitions/so101.robot.json
+ */
+export const SO101_DEFINITION = parseRobotDefinition(so101Definition);
 
 /**
  * SO101 Robot Implementation
@@ -9,14 +20,6 @@ import * as THREE from 'three';
  * taken from here : https://github.com/huggingface/lerobot/blob/945e1ff2669bb7b31cb7fe6033fe9679767c2442/src/lerobot/teleoperators/so100_leader/so100_leader.py#L47
  */
 export class SO101 extends Robot {
-  static shoulderMesh : ExtendedMesh = SO101.createCubeMesh([.6,  .4,  .7],    [-0.25, 0, 0   ],   [0, 0, 0]);  
-  static upperArmMesh : ExtendedMesh = SO101.createCubeMesh([1.3, .3,  .7],    [-0.4, 0, 0.2  ],   [0, 0, 0]);
-  static lowerArmMesh : ExtendedMesh = SO101.createCubeMesh([1.3, .3,  .7],    [-0.4, 0, 0.2  ],   [0, 0, 0]);
-  static wristMesh    : ExtendedMesh = SO101.createCubeMesh([0.3, .8,  .7],    [0, -0.2, 0.2  ],   [0, 0, 0]);
-  static gripperMesh  : ExtendedMesh = SO101.createCubeMesh([0.2, .8,  .7],    [-0.2, 0, -0.65],   [0, 0, 0]);
-  static jawMesh      : ExtendedMesh = SO101.createCubeMesh([0.2, .8,  .7],    [0, -0.5, 0.2 ],   [0, 0, 0]);
-  static base         : ExtendedMesh = SO101.createCubeMesh([0.7, .7,  .7],    [0, 0, 0.34 ],   [0, 0, 0]);
-
   // Static method to create a cube mesh for physics representation
   static createCubeMesh(
     dimensions: number[], 
@@ -42,91 +45,9 @@ export class SO101 extends Robot {
   constructor(){
     // Create a base physics representation for the robot
     const basePhysicsRepresentation = SO101.createCubeMesh([1, 1, 1], [0, 1, 0], [0, 0, 0]);    
-    // Define the unmapped pivot map for SO101 robot with names from the UI and -100 to 100 range
-    const unmappedPivotMap: UnmappedPivotMap = {
-      'shoulder_pan': {
-        name: 'shoulder_pan',
-        jointName: 'Rotation',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {}
-      },
-      'shoulder_lift': {
-        name: 'shoulder_lift',
-        jointName: 'Pitch',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {}
-      },
-      'elbow_flex': {
-        name: 'elbow_flex',
-        jointName: 'Elbow',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {},
-      },
-      'wrist_flex': {
-        name: 'wrist_flex',
-        jointName: 'Wrist_Pitch',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {}
-      },
-      'wrist_roll': {
-        name: 'wrist_roll',
-        jointName: 'Wrist_Roll',
-        value: 0,
-        lower: -100,
-        upper: 100,
-        physicsRepresentation: {},
-      },
-      'gripper': {
-        name: 'gripper',
-        jointName: 'Jaw',
-        value: 50,
-        lower: 0,
-        upper: 100,
-        physicsRepresentation: {}
-      }
-    }; 
-    
-    
-    const linkPhysicsMap = {
-      'shoulder': {
-        physicsMesh: SO101.shoulderMesh
-      },
-      'upper_arm': {
-        physicsMesh: SO101.upperArmMesh
-      },
-      'lower_arm': {
-        physicsMesh: SO101.lowerArmMesh
-      },
-      'wrist': {
-        physicsMesh: SO101.wristMesh
-      },
-      'gripper': {
-        gripper_part_a : true,
-        physicsMesh: SO101.gripperMesh
-      },
-      'moving_jaw_so101_v1': {
-        gripper_part_b : true,
-        physicsMesh: SO101.jawMesh
-      },
-      'baseframe': {
-        physicsMesh: SO101.base
-      }
-    }
-    // Call super with options object
     super({
-      name: "SO101", 
-      modelPath: "https://cdn.jsdelivr.net/gh/therealadityashankar/die-roboter/urdf/so101.urdf", 
-      unmappedPivotMap,
-      basePhysicsRepresentation,
-      linkPhysicsMap
+      ...Robot.optionsFromDefinition(SO101_DEFINITION, SO101_URDF_BASE),
+      basePhysicsRepresentation
     });
   }
 }
\ No newline at end of file
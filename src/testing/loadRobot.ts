@@ -0,0 +1,29 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { THREE } from 'enable3d';
+import URDFLoader from 'urdf-loader';
+import type { Robot } from '../robots/Robot';
+
+/**
+ * Loads a robot from a URDF in the repository for specs: no meshes are loaded and no physics bodies are added,
+ * so only the kinematics, pivots and calibration are real. Needs the jsdom test environment for urdf-loader's XML parsing
+ * @param urdfPath Path from the repository root, like urdf/so101.urdf
+ */
+export async function loadRobot<R extends Robot>(robot: R, urdfPath: string): Promise<R> {
+  const urdf = readFileSync(path.join(__dirname, '../..', urdfPath), 'utf8');
+  const loadAsync = jest.spyOn(URDFLoader.prototype, 'loadAsync').mockImplementation(function (this: URDFLoader) {
+    this.loadMeshCb = () => undefined;
+    return Promise.resolve(this.parse(urdf));
+  });
+
+  // loadModel logs the parsed joints
+  const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  robot.linkPhysicsMap = {};
+  try {
+    await robot.load({ scene: new THREE.Scene(), enable3dPhysicsObject: undefined, useURDFCollision: false });
+  } finally {
+    loadAsync.mockRestore();
+    log.mockRestore();
+  }
+  return robot;
+}
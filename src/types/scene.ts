@@ -1,5 +1,7 @@
 import type { SO101 } from '../robots/SO101';
 import type { LeKiwi } from '../robots/LeKiwi';
+import type { BimanualSO101 } from '../robots/BimanualSO101';
+import type { TeleopLink, TeleopOptions } from '../utils/teleop';
 
 export type RobotKey = 'lekiwi' | 'so101';
 
@@ -16,9 +18,67 @@ export interface MainSceneProgress {
   message?: string;
 }
 
+export interface SceneRobot {
+  id: string;
+  key: RobotKey;
+  robot: SO101 | LeKiwi;
+}
+
+export interface SpawnRobotOptions {
+  id?: string;                                        // Defaults to the robot key, numbered if it's taken
+  position?: { x?: number; y?: number; z?: number };  // Overrides of the robot's default position
+  rotationDegrees?: number;                           // Yaw, defaults to the robot's default rotation
+}
+
+export interface SpawnBimanualOptions {
+  id?: string;               // Defaults to 'bimanual', numbered if it's taken, the arms are '<id>.left' and '<id>.right'
+  spacing?: number;          // Distance between the arms' bases in meters, defaults to BimanualSO101.DEFAULT_SPACING
+  rotationDegrees?: number;  // Yaw of the rig on the table
+}
+
+export type SceneObjectShape = 'box' | 'sphere' | 'cylinder';
+
+export interface SpawnObjectOptions {
+  id?: string;                                        // Name of the object, defaults to the shape, numbered if it's taken
+  shape?: SceneObjectShape;                           // Defaults to 'box'
+  size?: number;                                      // Edge length, or diameter and height, in scene units, defaults to 1
+  position?: { x?: number; y?: number; z?: number };  // Defaults to above the middle of the table
+  mass?: number;                                      // Defaults to 1
+  color?: string;                                     // Defaults to orange
+  grippable?: boolean;                                // Whether robots can pick it up, defaults to true
+}
+
+// Payloads of the events the scene emits, see MainSceneHandle.subscribe
+export interface MainSceneEvents {
+  robots: { ids: string[]; selectedId: string | null };  // A robot was added, removed or selected
+  objects: { ids: string[] };                           // An object was spawned or removed
+  step: { delta: number; time: number };                // The simulation advanced, time is in seconds since the start
+}
+
 export interface MainSceneHandle {
   switchRobot: (key: RobotKey) => Promise<void>;
+  spawnRobot: (key: RobotKey, options?: SpawnRobotOptions) => Promise<string | null>;
+  removeRobot: (id: string) => boolean;
+  getRobot: (id: string) => SO101 | LeKiwi | null;
+  getRobotIds: () => string[];
+  selectRobot: (id: string) => boolean;
+  getSelectedRobotId: () => string | null;
+  spawnBimanualRig: (options?: SpawnBimanualOptions) => Promise<string | null>;
+  removeBimanualRig: (id: string) => boolean;
+  getBimanualRig: (id: string) => BimanualSO101 | null;
+  getBimanualRigIds: () => string[];
+  connectTeleop: (leaderId: string, followerId: string, options?: TeleopOptions) => TeleopLink | null;
+  disconnectTeleop: (link: TeleopLink) => boolean;
+  spawnObject: (options?: SpawnObjectOptions) => string | null;
+  removeObject: (id: string) => boolean;
+  getObjectIds: () => string[];
+  reset: () => Promise<void>;
+  setPaused: (paused: boolean) => void;
+  isPaused: () => boolean;
+  step: (delta?: number) => number;  // Returns the simulation time
+  getSimulationTime: () => number;
+  subscribe: <E extends keyof MainSceneEvents>(event: E, listener: (payload: MainSceneEvents[E]) => void) => () => void;
   dispose: () => void;
-  getActiveRobot: () => SO101 | LeKiwi | null;
+  getActiveRobot: () => SO101 | LeKiwi | null;  // The selected robot
   getActiveRobotKey: () => RobotKey;
 }
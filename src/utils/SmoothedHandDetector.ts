@@ -14,6 +14,9 @@ interface SmoothedKeypoint {
   name?: string;
 }
 
+// Which hand the model sees, for the person in front of the camera when flipHorizontal is set
+export type Handedness = 'Left' | 'Right';
+
 /**
  * Wrapper around hand pose detector that smooths keypoint values using rolling averages
  */
@@ -21,15 +24,18 @@ export class SmoothedHandDetector {
   private detector: handPoseDetection.HandDetector;
   private bufferSize: number;
   private keypointBuffers: Map<string, KeypointBuffer>;
+  private handedness?: Handedness;
 
   /**
    * @param detector The underlying hand pose detector
    * @param bufferSize Number of frames to average (default: 5)
+   * @param handedness Only return hands of this side, so the smoothing doesn't mix up two hands
    */
-  constructor(detector: handPoseDetection.HandDetector, bufferSize: number = 5) {
+  constructor(detector: handPoseDetection.HandDetector, bufferSize: number = 5, handedness?: Handedness) {
     this.detector = detector;
     this.bufferSize = bufferSize;
     this.keypointBuffers = new Map();
+    this.handedness = handedness;
   }
 
   /**
@@ -40,7 +46,8 @@ export class SmoothedHandDetector {
     estimationConfig?: any
   ): Promise<handPoseDetection.Hand[]> {
     // Get raw detection results
-    const hands = await this.detector.estimateHands(input, estimationConfig);
+    const detected = await this.detector.estimateHands(input, estimationConfig);
+    const hands = this.handedness ? detected.filter(hand => hand.handedness === this.handedness) : detected;
 
     if (hands.length === 0) {
       return hands;
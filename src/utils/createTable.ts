@@ -53,6 +53,7 @@ class DiningTable extends ExtendedObject3D {
   private readonly scene?: THREE.Scene;
   private readonly dimensions: { width: number; depth: number; height: number };
   private readonly paddingY = 20; // matches previous offset behavior
+  private topCenter = new THREE.Vector3();
 
   private constructor(params: {
     physics: AmmoPhysics;
@@ -155,7 +156,9 @@ class DiningTable extends ExtendedObject3D {
 
 
     //table.physics.add.existing(physicsCube);
-    table.physics.add.ground({ x: table.position.x, y: table.position.y, z: offset.z - 6, width: table.dimensions.depth*0.023, height: table.dimensions.width*0.025, depth:0.5, name: 'tabletop' })
+    const tabletopDepth = 0.5;
+    table.physics.add.ground({ x: table.position.x, y: table.position.y, z: offset.z - 6, width: table.dimensions.depth*0.023, height: table.dimensions.width*0.025, depth: tabletopDepth, name: 'tabletop' })
+    table.topCenter.set(table.position.x, table.position.y + tabletopDepth / 2, offset.z - 6);
     //physicsCube.body.setCollisionFlags(2);
     //physicsCube.body.setFriction(1);
     //physicsCube.body.setRestitution(0);
@@ -192,6 +195,11 @@ class DiningTable extends ExtendedObject3D {
     }
   }
 
+  // middle of the tabletop's surface, where things can be put down
+  getTopCenter(): THREE.Vector3 {
+    return this.topCenter.clone();
+  }
+
   getDimensions(): { width: number; depth: number; height: number } {
     return { ...this.dimensions };
   }
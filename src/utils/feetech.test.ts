@@ -0,0 +1,140 @@
+import {
+  BROADCAST_ID,
+  FeetechPacketReader,
+  INSTRUCTIONS,
+  STS3215_CONTROL_TABLE,
+  STS3215_SIGN_BITS,
+  checksum,
+  decodePacket,
+  decodeValue,
+  encodePacket,
+  encodePing,
+  encodeRead,
+  encodeSyncRead,
+  encodeSyncWrite,
+  encodeValue,
+  encodeWrite,
+} from './feetech';
+
+describe('checksum', () => {
+  it('inverts the low byte of the sum', () => {
+    expect(checksum([0x01, 0x02, 0x01])).toBe(0xfb);
+    expect(checksum([0x01, 0x04, 0x02, 0x38, 0x02])).toBe(0xbe);
+  });
+
+  it('keeps only the low byte of large sums', () => {
+    expect(checksum([0xfe, 0xff, 0xff])).toBe(~(0xfe + 0xff + 0xff) & 0xff);
+  });
+});
+
+describe('packets', () => {
+  it('encodes a PING', () => {
+    expect(Array.from(encodePing(1))).toEqual([0xff, 0xff, 0x01, 0x02, 0x01, 0xfb]);
+  });
+
+  it('encodes a READ of Present_Position', () => {
+    const [address, size] = STS3215_CONTROL_TABLE.Present_Position;
+    expect(Array.from(encodeRead(1, address, size))).toEqual([0xff, 0xff, 0x01, 0x04, 0x02, 0x38, 0x02, 0xbe]);
+  });
+
+  it('encodes a WRITE of Goal_Position', () => {
+    const [address, size] = STS3215_CONTROL_TABLE.Goal_Position;
+    const bytes = encodeWrite(3, address, encodeValue(2048, size));
+    expect(Array.from(bytes)).toEqual([0xff, 0xff, 0x03, 0x05, 0x03, 0x2a, 0x00, 0x08, checksum([0x03, 0x05, 0x03, 0x2a, 0x00, 0x08])]);
+  });
+
+  it('encodes a SYNC_READ with the IDs in order', () => {
+    const [address, size] = STS3215_CONTROL_TABLE.Present_Position;
+    expect(decodePacket(encodeSyncRead([1, 2, 6], address, size))).toEqual({
+      id: BROADCAST_ID,
+      instruction: INSTRUCTIONS.SYNC_READ,
+      parameters: [address, size, 1, 2, 6],
+    });
+  });
+
+  it('encodes a SYNC_WRITE with each servo ID before its data', () => {
+    const [address, size] = STS3215_CONTROL_TABLE.Goal_Position;
+    expect(decodePacket(encodeSyncWrite(address, size, { 1: [0x00, 0x08], 2: [0xff, 0x0f] }))).toEqual({
+      id: BROADCAST_ID,
+      instruction: INSTRUCTIONS.SYNC_WRITE,
+      parameters: [address, size, 1, 0x00, 0x08, 2, 0xff, 0x0f],
+    });
+  });
+
+  it('decodes what it encodes', () => {
+    const packet = { id: 5, instruction: INSTRUCTIONS.READ, parameters: [56, 2] };
+    expect(decodePacket(encodePacket(packet))).toEqual(packet);
+  });
+
+  it('rejects a wrong checksum, length or header', () => {
+    const bytes = Array.from(encodePing(1));
+    expect(decodePacket([...bytes.slice(0, -1), 0x00])).toBeNull();
+    expect(decodePacket(bytes.slice(0, -1))).toBeNull();
+    expect(decodePacket([0xff, 0x00, ...bytes.slice(2)])).toBeNull();
+  });
+});
+
+describe('register values', () => {
+  it('stores values little-endian', () => {
+    expect(encodeValue(0x0801, 2)).toEqual([0x01, 0x08]);
+    expect(decodeValue([0x01, 0x08])).toBe(0x0801);
+  });
+
+  it('stores a negative Homing_Offset with its sign bit', () => {
+    const [, size] = STS3215_CONTROL_TABLE.Homing_Offset;
+    const signBit = STS3215_SIGN_BITS.Homing_Offset;
+    expect(encodeValue(-100, size, signBit)).toEqual([100, 0x08]);
+    expect(decodeValue([100, 0x08], signBit)).toBe(-100);
+    expect(decodeValue(encodeValue(1500, size, signBit), signBit)).toBe(1500);
+  });
+
+  it('clamps a Homing_Offset to what fits below the sign bit', () => {
+    const [, size] = STS3215_CONTROL_TABLE.Homing_Offset;
+    const signBit = STS3215_SIGN_BITS.Homing_Offset;
+    expect(decodeValue(encodeValue(-5000, size, signBit), signBit)).toBe(-2047);
+  });
+
+  it('reads a negative Present_Velocity from its sign bit', () => {
+    const [, size] = STS3215_CONTROL_TABLE.Present_Velocity;
+    const signBit = STS3215_SIGN_BITS.Present_Velocity;
+    expect(encodeValue(-300, size, signBit)).toEqual([0x2c, 0x81]);
+    expect(decodeValue([0x2c, 0x81], signBit)).toBe(-300);
+    expect(decodeValue([0x2c, 0x81])).toBe(0x812c);
+  });
+});
+
+describe('FeetechPacketReader', () => {
+  const ping = Array.from(encodePing(1));
+  const read = Array.from(encodeRead(2, 56, 2));
+
+  it('joins packets split across chunks', () => {
+    const reader = new FeetechPacketReader();
+    const bytes = [...ping, ...read];
+    const packets = [];
+    for (const byte of bytes) packets.push(...reader.push([byte]));
+    expect(packets.map(packet => packet.id)).toEqual([1, 2]);
+    expect(reader.droppedBytes).toBe(0);
+  });
+
+  it('returns every packet completed by one chunk', () => {
+    const reader = new FeetechPacketReader();
+    expect(reader.push([...ping, ...read, ...ping.slice(0, 3)]).map(packet => packet.id)).toEqual([1, 2]);
+    expect(reader.push(ping.slice(3)).map(packet => packet.id)).toEqual([1]);
+  });
+
+  it('skips noise and corrupted packets', () => {
+    const reader = new FeetechPacketReader();
+    const corrupted = [...read.slice(0, -1), (read[read.length - 1] + 1) & 0xff];
+    const packets = reader.push([0x00, 0x13, 0xff, ...corrupted, 0xff, ...ping]);
+    expect(packets).toEqual([{ id: 1, instruction: INSTRUCTIONS.PING, parameters: [] }]);
+    expect(reader.droppedBytes).toBe(3 + corrupted.length + 1);
+  });
+
+  it('forgets a partly received packet on clear', () => {
+    const reader = new FeetechPacketReader();
+    reader.push(ping.slice(0, 4));
+    reader.clear();
+    expect(reader.push(read)).toHaveLength(1);
+    expect(reader.droppedBytes).toBe(4);
+  });
+});
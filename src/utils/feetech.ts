@@ -0,0 +1,247 @@
+/**
+ * Packets of the Feetech SCS/STS serial protocol, spoken by the STS3215 servos of the SO101 and LeKiwi.
+ * Every packet is 0xFF 0xFF, the servo ID, the length (parameters + 2), the instruction or error byte,
+ * the parameters and a checksum. Multi-byte registers are little-endian on the STS series
+ */
+
+export const HEADER = [0xff, 0xff];
+
+// every servo executes packets sent to this ID, and only answers pings and sync reads
+export const BROADCAST_ID = 0xfe;
+
+export const INSTRUCTIONS = {
+  PING: 0x01,
+  READ: 0x02,
+  WRITE: 0x03,
+  REG_WRITE: 0x04,
+  ACTION: 0x05,
+  SYNC_READ: 0x82,
+  SYNC_WRITE: 0x83,
+};
+
+// bits of the error byte in status packets
+export const STATUS_ERRORS = {
+  VOLTAGE: 0x01,
+  SENSOR: 0x02,
+  TEMPERATURE: 0x04,
+  CURRENT: 0x08,
+  ANGLE: 0x10,
+  OVERLOAD: 0x20,
+};
+
+/**
+ * Address and size in bytes of each STS3215 register, as in LeRobot's control table.
+ * Registers up to Lock are stored in EEPROM on the real servo
+ */
+export const STS3215_CONTROL_TABLE: { [register: string]: [number, number] } = {
+  Firmware_Major_Version: [0, 1],
+  Firmware_Minor_Version: [1, 1],
+  Model_Number: [3, 2],
+  ID: [5, 1],
+  Baud_Rate: [6, 1],
+  Return_Delay_Time: [7, 1],
+  Response_Status_Level: [8, 1],
+  Min_Position_Limit: [9, 2],
+  Max_Position_Limit: [11, 2],
+  Max_Temperature_Limit: [13, 1],
+  Max_Voltage_Limit: [14, 1],
+  Min_Voltage_Limit: [15, 1],
+  Max_Torque_Limit: [16, 2],
+  Phase: [18, 1],
+  Unloading_Condition: [19, 1],
+  LED_Alarm_Condition: [20, 1],
+  P_Coefficient: [21, 1],
+  D_Coefficient: [22, 1],
+  I_Coefficient: [23, 1],
+  Minimum_Startup_Force: [24, 2],
+  CW_Dead_Zone: [26, 1],
+  CCW_Dead_Zone: [27, 1],
+  Protection_Current: [28, 2],
+  Angular_Resolution: [30, 1],
+  Homing_Offset: [31, 2],
+  Operating_Mode: [33, 1],
+  Protective_Torque: [34, 1],
+  Protection_Time: [35, 1],
+  Overload_Torque: [36, 1],
+  Velocity_closed_loop_P_proportional_coefficient: [37, 1],
+  Over_Current_Protection_Time: [38, 1],
+  Velocity_closed_loop_I_integral_coefficient: [39, 1],
+  Torque_Enable: [40, 1],
+  Acceleration: [41, 1],
+  Goal_Position: [42, 2],
+  Goal_Time: [44, 2],
+  Goal_Velocity: [46, 2],
+  Torque_Limit: [48, 2],
+  Lock: [55, 1],
+  Present_Position: [56, 2],
+  Present_Velocity: [58, 2],
+  Present_Load: [60, 2],
+  Present_Voltage: [62, 1],
+  Present_Temperature: [63, 1],
+  Status: [65, 1],
+  Moving: [66, 1],
+  Present_Current: [69, 2],
+  Maximum_Acceleration: [85, 2],
+};
+
+// registers holding signed values as a magnitude and a sign bit, and the bit's position
+export const STS3215_SIGN_BITS: { [register: string]: number } = {
+  Homing_Offset: 11,
+  Goal_Velocity: 15,
+  Present_Velocity: 15,
+  Present_Load: 10,
+};
+
+export const STS3215_MODEL_NUMBER = 777;
+
+export interface FeetechPacket {
+  id: number;
+  instruction: number;  // Instruction of a packet to the servos, or the error byte of a status packet
+  parameters: number[];
+}
+
+/**
+ * Checksum of a packet, the inverted low byte of the sum of everything after the header
+ * @param body ID, length, instruction and parameters
+ */
+export function checksum(body: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) sum += body[i];
+  return ~sum & 0xff;
+}
+
+/**
+ * Bytes of a packet, with the header, length and checksum filled in.
+ * Status packets are encoded the same way, with the error byte as the instruction
+ */
+export function encodePacket(packet: FeetechPacket): Uint8Array {
+  const body = [packet.id, packet.parameters.length + 2, packet.instruction, ...packet.parameters];
+  return Uint8Array.from([...HEADER, ...body, checksum(body)]);
+}
+
+/**
+ * Packet in bytes that hold exactly one
+ * @returns The packet, or null if the bytes aren't a complete packet with a matching checksum
+ */
+export function decodePacket(bytes: ArrayLike<number>): FeetechPacket | null {
+  if (bytes.length < 6 || bytes[0] !== HEADER[0] || bytes[1] !== HEADER[1]) return null;
+  const length = bytes[3];
+  if (length < 2 || bytes.length !== length + 4) return null;
+
+  const body = Array.from(bytes).slice(2, -1);
+  if (checksum(body) !== bytes[bytes.length - 1]) return null;
+  return { id: body[0], instruction: body[2], parameters: body.slice(3) };
+}
+
+/**
+ * Bytes of a register value, little-endian
+ * @param value Value, negative values are stored with a sign bit if the register has one
+ * @param size Size of the register in bytes
+ * @param signBit Position of the register's sign bit, if it has one
+ */
+export function encodeValue(value: number, size: number, signBit?: number): number[] {
+  let raw = Math.round(value);
+  if (signBit !== undefined) {
+    const magnitude = Math.min(Math.abs(raw), (1 << signBit) - 1);
+    raw = raw < 0 ? magnitude | (1 << signBit) : magnitude;
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < size; i++) bytes.push((raw >> (8 * i)) & 0xff);
+  return bytes;
+}
+
+/**
+ * Register value for its bytes, see encodeValue
+ */
+export function decodeValue(bytes: ArrayLike<number>, signBit?: number): number {
+  let raw = 0;
+  for (let i = 0; i < bytes.length; i++) raw |= bytes[i] << (8 * i);
+  if (signBit !== undefined && raw & (1 << signBit)) {
+    return -(raw & ((1 << signBit) - 1));
+  }
+  return raw;
+}
+
+export function encodePing(id: number): Uint8Array {
+  return encodePacket({ id, instruction: INSTRUCTIONS.PING, parameters: [] });
+}
+
+export function encodeRead(id: number, address: number, length: number): Uint8Array {
+  return encodePacket({ id, instruction: INSTRUCTIONS.READ, parameters: [address, length] });
+}
+
+export function encodeWrite(id: number, address: number, data: number[]): Uint8Array {
+  return encodePacket({ id, instruction: INSTRUCTIONS.WRITE, parameters: [address, ...data] });
+}
+
+/**
+ * Read the same registers of several servos, each answers with its own status packet in the order of the IDs
+ */
+export function encodeSyncRead(ids: number[], address: number, length: number): Uint8Array {
+  return encodePacket({ id: BROADCAST_ID, instruction: INSTRUCTIONS.SYNC_READ, parameters: [address, length, ...ids] });
+}
+
+/**
+ * Write the same registers of several servos at once, they don't answer
+ * @param data Bytes to write keyed by servo ID, all as long as `length`
+ */
+export function encodeSyncWrite(address: number, length: number, data: { [id: number]: number[] }): Uint8Array {
+  const parameters = [address, length];
+  Object.entries(data).forEach(([id, bytes]) => parameters.push(Number(id), ...bytes));
+  return encodePacket({ id: BROADCAST_ID, instruction: INSTRUCTIONS.SYNC_WRITE, parameters });
+}
+
+/**
+ * Splits a stream of bytes into packets, however the stream is chunked.
+ * Bytes that don't start a valid packet are skipped, like the servos do after noise on the line
+ */
+export class FeetechPacketReader {
+  droppedBytes: number;  // Bytes skipped so far while looking for a valid packet
+
+  private buffer: number[];
+
+  constructor() {
+    this.droppedBytes = 0;
+    this.buffer = [];
+  }
+
+  /**
+   * Add received bytes
+   * @returns Every packet completed by them, in order
+   */
+  push(bytes: ArrayLike<number>): FeetechPacket[] {
+    for (let i = 0; i < bytes.length; i++) this.buffer.push(bytes[i]);
+
+    const packets: FeetechPacket[] = [];
+    while (this.buffer.length >= 6) {
+      if (this.buffer[0] !== HEADER[0] || this.buffer[1] !== HEADER[1] || this.buffer[2] === HEADER[0] || this.buffer[3] < 2) {
+        this.drop(1);
+        continue;
+      }
+
+      const size = this.buffer[3] + 4;
+      if (this.buffer.length < size) break;
+
+      const packet = decodePacket(this.buffer.slice(0, size));
+      if (packet) {
+        packets.push(packet);
+        this.buffer.splice(0, size);
+      } else {
+        this.drop(1);
+      }
+    }
+    return packets;
+  }
+
+  /**
+   * Forget a partly received packet
+   */
+  clear(): void {
+    this.drop(this.buffer.length);
+  }
+
+  private drop(count: number): void {
+    this.buffer.splice(0, count);
+    this.droppedBytes += count;
+  }
+}
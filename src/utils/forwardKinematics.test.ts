@@ -0,0 +1,94 @@
+/** @jest-environment jsdom */
+import * as THREE from 'three';
+import URDFLoader, { URDFRobot } from 'urdf-loader';
+import { computeAllLinkPoses, computeLinkPose, getJointsToLink } from './forwardKinematics';
+
+// two unit links turning around z, and a slider at the end of the second one
+const URDF = `<robot name="planar">
+  <link name="base"/>
+  <joint name="shoulder" type="revolute">
+    <parent link="base"/><child link="upper"/>
+    <axis xyz="0 0 1"/><limit lower="-3" upper="3" effort="1" velocity="1"/>
+  </joint>
+  <link name="upper"/>
+  <joint name="elbow" type="revolute">
+    <parent link="upper"/><child link="lower"/>
+    <origin xyz="1 0 0"/>
+    <axis xyz="0 0 1"/><limit lower="-1.5" upper="1.5" effort="1" velocity="1"/>
+  </joint>
+  <link name="lower"/>
+  <joint name="slide" type="prismatic">
+    <parent link="lower"/><child link="tip"/>
+    <origin xyz="1 0 0"/>
+    <axis xyz="1 0 0"/><limit lower="0" upper="0.5" effort="1" velocity="1"/>
+  </joint>
+  <link name="tip"/>
+</robot>`;
+
+const planarTip = (shoulder: number, elbow: number, slide = 0) => new THREE.Vector3(
+  Math.cos(shoulder) + (1 + slide) * Math.cos(shoulder + elbow),
+  Math.sin(shoulder) + (1 + slide) * Math.sin(shoulder + elbow),
+  0,
+);
+
+const expectVectorCloseTo = (actual: THREE.Vector3, expected: THREE.Vector3) => {
+  actual.toArray().forEach((value, i) => expect(value).toBeCloseTo(expected.getComponent(i)));
+};
+
+describe('forward kinematics', () => {
+  let robot: URDFRobot;
+
+  beforeEach(() => {
+    robot = new URDFLoader().parse(URDF);
+  });
+
+  it('lists the joints from the root to a link', () => {
+    expect(getJointsToLink(robot, 'tip').map(joint => joint.name)).toEqual(['shoulder', 'elbow', 'slide']);
+    expect(getJointsToLink(robot, 'nope')).toEqual([]);
+  });
+
+  it('places a link for hypothetical joint values', () => {
+    const pose = computeLinkPose(robot, 'tip', { shoulder: 0.3, elbow: -0.8, slide: 0.2 }, 'base')!;
+
+    expectVectorCloseTo(pose.position, planarTip(0.3, -0.8, 0.2));
+    expect(pose.quaternion.angleTo(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), -0.5))).toBeCloseTo(0);
+  });
+
+  it('leaves the joints where they are', () => {
+    robot.setJointValue('elbow', 0.4);
+    const pose = computeLinkPose(robot, 'tip', { shoulder: 1 }, 'base')!;
+
+    expectVectorCloseTo(pose.position, planarTip(1, 0.4));
+    expect(robot.joints.shoulder.angle).toBe(0);
+    expect(robot.joints.elbow.angle).toBe(0.4);
+  });
+
+  it('keeps joint values within the limits, like setting them would', () => {
+    const pose = computeLinkPose(robot, 'tip', { elbow: 3, slide: 2 }, 'base')!;
+    expectVectorCloseTo(pose.position, planarTip(0, 1.5, 0.5));
+  });
+
+  it(`adds the robot's transform in the world frame`, () => {
+    robot.position.set(0, 0, 2);
+    robot.rotation.set(0, 0, Math.PI / 2);
+
+    const pose = computeLinkPose(robot, 'tip', { shoulder: 0, elbow: 0 })!;
+    expectVectorCloseTo(pose.position, new THREE.Vector3(0, 2, 2));
+  });
+
+  it('gives the same poses for every link at once', () => {
+    const values = { shoulder: -0.7, elbow: 1.1, slide: 0.1 };
+    const poses = computeAllLinkPoses(robot, values, 'base');
+
+    expect(Object.keys(poses).sort()).toEqual(['base', 'lower', 'tip', 'upper']);
+    ['upper', 'lower', 'tip'].forEach(link => {
+      const pose = computeLinkPose(robot, link, values, 'base')!;
+      expectVectorCloseTo(poses[link].position, pose.position);
+      expect(poses[link].quaternion.angleTo(pose.quaternion)).toBeCloseTo(0);
+    });
+  });
+
+  it(`has no pose for a link that doesn't exist`, () => {
+    expect(computeLinkPose(robot, 'nope')).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+import { URDFJoint, URDFRobot } from 'urdf-loader';
+import * as THREE from 'three';
+
+export interface LinkPose {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+}
+
+// joint values keyed by URDF joint name, in the joint's own units (radians or meters)
+export interface JointValueMap {
+  [jointName: string]: number;
+}
+
+export type PoseFrame = 'world' | 'base';
+
+// urdf-loader stores the joint origin before any joint value was applied, but doesn't type it
+type URDFJointWithOrigin = URDFJoint & {
+  origPosition: THREE.Vector3 | null;
+  origQuaternion: THREE.Quaternion | null;
+};
+
+const tempQuaternion = new THREE.Quaternion();
+const tempAxis = new THREE.Vector3();
+const tempPosition = new THREE.Vector3();
+
+/**
+ * Returns the objects between the robot root (exclusive) and the named link or frame (inclusive),
+ * ordered from the root downwards
+ * @param robot The loaded URDF robot
+ * @param linkName Name of a link (or any other frame) in the URDF
+ * @returns The chain of objects, or null if the link doesn't exist
+ */
+export function getChainToLink(robot: URDFRobot, linkName: string): THREE.Object3D[] | null {
+  const link = robot.links[linkName] ?? robot.frames?.[linkName];
+  if (!link) return null;
+
+  const chain: THREE.Object3D[] = [];
+  let current: THREE.Object3D | null = link;
+  while (current && current !== robot) {
+    chain.unshift(current);
+    current = current.parent;
+  }
+
+  // the link isn't part of this robot's tree
+  if (current !== robot) return null;
+
+  return chain;
+}
+
+/**
+ * Returns the joints on the chain from the robot root to the named link, ordered from the root downwards
+ */
+export function getJointsToLink(robot: URDFRobot, linkName: string): URDFJoint[] {
+  const chain = getChainToLink(robot, linkName) ?? [];
+  return chain.filter(object => (object as URDFJoint).isURDFJoint) as URDFJoint[];
+}
+
+/**
+ * Local transform of a joint for a hypothetical joint value, mirroring URDFJoint.setJointValue
+ * without touching the joint itself
+ * @param joint The URDF joint
+ * @param value Joint value in radians (revolute, continuous) or meters (prismatic)
+ * @param target Matrix to write the result to
+ */
+export function computeJointMatrix(joint: URDFJoint, value: number, target: THREE.Matrix4 = new THREE.Matrix4()): THREE.Matrix4 {
+  const { origPosition, origQuaternion } = joint as URDFJointWithOrigin;
+  const basePosition = origPosition ?? joint.position;
+  const baseQuaternion = origQuaternion ?? joint.quaternion;
+
+  switch (joint.jointType) {
+    case 'revolute':
+    case 'continuous': {
+      let angle = value;
+      if (joint.jointType === 'revolute' && !joint.ignoreLimits) {
+        angle = Math.min(joint.limit.upper, Math.max(joint.limit.lower, angle));
+      }
+
+      tempQuaternion.setFromAxisAngle(joint.axis, angle).premultiply(baseQuaternion);
+      return target.compose(basePosition, tempQuaternion, joint.scale);
+    }
+
+    case 'prismatic': {
+      let position = value;
+      if (!joint.ignoreLimits) {
+        position = Math.min(joint.limit.upper, Math.max(joint.limit.lower, position));
+      }
+
+      tempAxis.copy(joint.axis).applyQuaternion(baseQuaternion);
+      tempPosition.copy(basePosition).addScaledVector(tempAxis, position);
+      return target.compose(tempPosition, baseQuaternion, joint.scale);
+    }
+
+    default:
+      return target.compose(joint.position, joint.quaternion, joint.scale);
+  }
+}
+
+/**
+ * Local transform of any object on a kinematic chain, using the hypothetical value
+ * for joints that have one and the current transform for everything else
+ */
+function computeLocalMatrix(object: THREE.Object3D, jointValues: JointValueMap, target: THREE.Matrix4): THREE.Matrix4 {
+  const joint = object as URDFJoint;
+  if (joint.isURDFJoint && jointValues[joint.name] !== undefined) {
+    return computeJointMatrix(joint, jointValues[joint.name], target);
+  }
+
+  return target.compose(object.position, object.quaternion, object.scale);
+}
+
+/**
+ * Transform of a link relative to the robot base (the URDF root), for the given joint values.
+ * Joints missing from jointValues keep their current value. The scene graph is not modified
+ * @param robot The loaded URDF robot
+ * @param linkName Name of the link
+ * @param jointValues Hypothetical joint values keyed by joint name
+ * @returns The transform in URDF units, or null if the link doesn't exist
+ */
+export function computeLinkMatrix(robot: URDFRobot, linkName: string, jointValues: JointValueMap = {}): THREE.Matrix4 | null {
+  const chain = getChainToLink(robot, linkName);
+  if (!chain) return null;
+
+  const result = new THREE.Matrix4();
+  const local = new THREE.Matrix4();
+  for (const object of chain) {
+    result.multiply(computeLocalMatrix(object, jointValues, local));
+  }
+
+  return result;
+}
+
+/**
+ * Converts a transform relative to the robot base into a pose in the requested frame
+ */
+function matrixToPose(robot: URDFRobot, baseMatrix: THREE.Matrix4, frame: PoseFrame): LinkPose {
+  const matrix = baseMatrix.clone();
+  if (frame === 'world') {
+    robot.updateWorldMatrix(true, false);
+    matrix.premultiply(robot.matrixWorld);
+  }
+
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  matrix.decompose(position, quaternion, new THREE.Vector3());
+  return { position, quaternion };
+}
+
+/**
+ * Pose of a link for the given joint values, without modifying the scene graph
+ * @param robot The loaded URDF robot
+ * @param linkName Name of the link
+ * @param jointValues Hypothetical joint values keyed by joint name, missing joints keep their current value
+ * @param frame 'world' for scene coordinates, 'base' for coordinates relative to the URDF root in URDF units
+ * @returns The pose, or null if the link doesn't exist
+ */
+export function computeLinkPose(
+  robot: URDFRobot,
+  linkName: string,
+  jointValues: JointValueMap = {},
+  frame: PoseFrame = 'world'
+): LinkPose | null {
+  const matrix = computeLinkMatrix(robot, linkName, jointValues);
+  if (!matrix) return null;
+
+  return matrixToPose(robot, matrix, frame);
+}
+
+/**
+ * Poses of every link for the given joint values, walking the tree once
+ * @param robot The loaded URDF robot
+ * @param jointValues Hypothetical joint values keyed by joint name, missing joints keep their current value
+ * @param frame 'world' for scene coordinates, 'base' for coordinates relative to the URDF root in URDF units
+ * @returns Poses keyed by link name
+ */
+export function computeAllLinkPoses(
+  robot: URDFRobot,
+  jointValues: JointValueMap = {},
+  frame: PoseFrame = 'world'
+): { [linkName: string]: LinkPose } {
+  const poses: { [linkName: string]: LinkPose } = {};
+  const local = new THREE.Matrix4();
+
+  const visit = (object: THREE.Object3D, parentMatrix: THREE.Matrix4) => {
+    const matrix = parentMatrix.clone().multiply(computeLocalMatrix(object, jointValues, local));
+
+    if ((object as any).isURDFLink) {
+      poses[object.name] = matrixToPose(robot, matrix, frame);
+    }
+
+    visitChildren(object, matrix);
+  };
+
+  // only joints and links take part in the kinematic tree, visuals and colliders are skipped
+  const visitChildren = (object: THREE.Object3D, matrix: THREE.Matrix4) => {
+    for (const child of object.children) {
+      if ((child as any).isURDFJoint || (child as any).isURDFLink) {
+        visit(child, matrix);
+      }
+    }
+  };
+
+  const identity = new THREE.Matrix4();
+  poses[robot.name] = matrixToPose(robot, identity, frame);
+  visitChildren(robot, identity);
+
+  return poses;
+}
@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { GraspContact, GraspDetector, GraspFrame } from './grasp';
+
+const AXIS = new THREE.Vector3(1, 0, 0);
+
+// a contact on one side of an object at the origin, pushing along the closing direction
+const contact = (x: number, impulse: number): GraspContact => ({
+  point: new THREE.Vector3(x, 0, 0),
+  normal: new THREE.Vector3(1, 0, 0),
+  impulse,
+});
+
+const frame = (gap: number, impulseA: number | null, impulseB: number | null): GraspFrame => ({
+  axis: AXIS,
+  gap,
+  contactsA: new Map(impulseA === null ? [] : [['cube', [contact(-0.01, impulseA)]]]),
+  contactsB: new Map(impulseB === null ? [] : [['cube', [contact(0.01, impulseB)]]]),
+  delta: 1 / 60,
+});
+
+describe('GraspDetector', () => {
+  let detector: GraspDetector;
+
+  beforeEach(() => {
+    detector = new GraspDetector({ minSqueeze: 0.05 });
+  });
+
+  it('grasps once both jaws press the object hard enough', () => {
+    expect(detector.update(frame(0.02, 0, 0))).toEqual([]);
+    expect(detector.getState('cube')).toMatchObject({ phase: 'touching', opposingContact: true, squeeze: 0 });
+
+    expect(detector.update(frame(0.02, 0.03, 0.2))).toEqual([]);
+    expect(detector.getState('cube')?.squeeze).toBeCloseTo(0.03);
+
+    expect(detector.update(frame(0.02, 0.06, 0.2))).toEqual([{ objectName: 'cube', type: 'grasped' }]);
+    expect(detector.getState('cube')).toMatchObject({ phase: 'grasped', gapAtGrasp: 0.02 });
+  });
+
+  it(`doesn't grasp with one jaw pushing, however hard`, () => {
+    expect(detector.update(frame(0.02, 5, null))).toEqual([]);
+    expect(detector.getState('cube')).toMatchObject({ phase: 'touching', opposingContact: false });
+  });
+
+  it('only counts the impulse along the closing direction', () => {
+    const sideways = frame(0.02, 0.055, 0.06);
+    sideways.contactsA.get('cube')![0].normal.set(Math.cos(Math.PI / 6), Math.sin(Math.PI / 6), 0);
+    expect(detector.update(sideways)).toEqual([]);
+    expect(detector.getState('cube')?.squeeze).toBeCloseTo(0.055 * Math.cos(Math.PI / 6));
+  });
+
+  it('keeps the object until the jaws open, even without contacts', () => {
+    detector.update(frame(0.02, 0.1, 0.1));
+    expect(detector.update(frame(0.02, null, null))).toEqual([]);
+    expect(detector.update(frame(0.022, null, null))).toEqual([]);
+    expect(detector.update(frame(0.03, null, null))).toEqual([{ objectName: 'cube', type: 'released' }]);
+    expect(detector.getState('cube')).toBeNull();
+  });
+
+  it('lets go of an opposing contact after the grace time', () => {
+    detector.update(frame(0.02, 0.01, 0.01));
+    detector.update(frame(0.02, null, null));
+    expect(detector.getState('cube')?.opposingContact).toBe(true);
+
+    for (let i = 0; i < 10; i++) detector.update(frame(0.02, null, null));
+    expect(detector.getState('cube')).toBeNull();
+  });
+});
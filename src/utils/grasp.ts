@@ -0,0 +1,203 @@
+import * as THREE from 'three';
+
+/**
+ * Force-based grasp detection for a two-jaw gripper.
+ * An object counts as grasped once both jaws touch it from opposite sides and press it
+ * along the closing direction hard enough (the squeeze), and it's only released again
+ * once the gripper has opened by some amount, so contacts flickering on and off
+ * don't drop the object
+ */
+
+export type GraspPhase = 'free' | 'touching' | 'grasped';
+
+export interface GraspContact {
+  point: THREE.Vector3;   // Contact point
+  normal: THREE.Vector3;  // Contact normal, either sign
+  impulse: number;        // Normal impulse applied at the contact during the last physics step
+}
+
+export interface GraspOptions {
+  maxNormalAngle: number;    // Largest angle in radians between a contact normal and the closing direction
+  minSqueeze: number;        // Normal impulse along the closing direction both jaws must apply to grasp, per physics step
+  releaseOpening: number;    // How far the jaws must open after grasping to release, in gap units
+  contactTolerance: number;  // How far the contacts may be on the "wrong" side of each other, in gap units
+  contactGraceTime: number;  // Seconds an opposing contact may disappear for before the object counts as let go
+}
+
+export const DEFAULT_GRASP_OPTIONS: GraspOptions = {
+  maxNormalAngle: Math.PI / 4,
+  minSqueeze: 0.05,
+  releaseOpening: 0.004,
+  contactTolerance: 0.005,
+  contactGraceTime: 0.1,
+};
+
+/**
+ * Grasp state of a single object
+ */
+export interface GraspState {
+  phase: GraspPhase;
+  contactsA: number;           // Contacts with jaw A in the last update
+  contactsB: number;           // Contacts with jaw B in the last update
+  squeeze: number;             // Normal impulse along the closing direction of the jaw pressing less, in the last opposing contact
+  opposingContact: boolean;    // Whether the jaws touch the object from opposite sides, allowing for the grace time
+  gapAtGrasp: number | null;   // Gap between the jaws when the object was grasped
+  lostContactTime: number;     // Seconds since the opposing contact was last seen
+}
+
+/**
+ * What the gripper looks like in one update. Points and the gap must be in the same units
+ */
+export interface GraspFrame {
+  axis: THREE.Vector3;                      // Unit closing direction, pointing from jaw A towards jaw B
+  gap: number;                              // Distance between the jaws, gets smaller as the gripper closes
+  contactsA: Map<string, GraspContact[]>;   // Contacts of jaw A keyed by object name
+  contactsB: Map<string, GraspContact[]>;   // Contacts of jaw B keyed by object name
+  delta: number;                            // Seconds since the last update
+}
+
+export interface GraspEvent {
+  objectName: string;
+  type: 'grasped' | 'released';
+}
+
+export class GraspDetector {
+  options: GraspOptions;
+  private states: Map<string, GraspState>;
+
+  constructor(options: Partial<GraspOptions> = {}) {
+    this.options = { ...DEFAULT_GRASP_OPTIONS, ...options };
+    this.states = new Map();
+  }
+
+  /**
+   * Whether a contact pushes along the closing direction, rather than rubbing along the jaw
+   */
+  private isAlongAxis(contact: GraspContact, axis: THREE.Vector3): boolean {
+    return Math.abs(contact.normal.dot(axis)) >= Math.cos(this.options.maxNormalAngle);
+  }
+
+  /**
+   * How hard jaw A and jaw B squeeze the object from opposite sides: each jaw's normal impulse along
+   * the closing direction, summed over its contacts that have an opposing contact on the other jaw
+   * @returns The smaller of the two jaws' impulses, or null if the jaws don't touch the object from opposite sides
+   */
+  private measureSqueeze(contactsA: GraspContact[], contactsB: GraspContact[], axis: THREE.Vector3): number | null {
+    const offset = new THREE.Vector3();
+    // the object lies between the jaws, so jaw B's contact is further along the closing direction
+    const opposes = (a: GraspContact, b: GraspContact) =>
+      offset.subVectors(b.point, a.point).dot(axis) >= -this.options.contactTolerance;
+    const pushing = (contact: GraspContact) => contact.impulse * Math.abs(contact.normal.dot(axis));
+
+    const alongA = contactsA.filter(contact => this.isAlongAxis(contact, axis));
+    const alongB = contactsB.filter(contact => this.isAlongAxis(contact, axis));
+    const opposingA = alongA.filter(a => alongB.some(b => opposes(a, b)));
+    const opposingB = alongB.filter(b => alongA.some(a => opposes(a, b)));
+    if (opposingA.length === 0) return null;
+
+    const sum = (contacts: GraspContact[]) => contacts.reduce((total, contact) => total + pushing(contact), 0);
+    return Math.min(sum(opposingA), sum(opposingB));
+  }
+
+  /**
+   * Advance the grasp state of every object touched by the jaws, or currently grasped
+   * @param frame Jaw contacts, gap and closing direction for this update
+   * @returns The objects that were grasped or released in this update
+   */
+  update(frame: GraspFrame): GraspEvent[] {
+    const events: GraspEvent[] = [];
+    const names = new Set([...frame.contactsA.keys(), ...frame.contactsB.keys(), ...this.states.keys()]);
+
+    for (const objectName of names) {
+      const contactsA = frame.contactsA.get(objectName) ?? [];
+      const contactsB = frame.contactsB.get(objectName) ?? [];
+      const state: GraspState = this.states.get(objectName) ?? {
+        phase: 'free',
+        contactsA: 0,
+        contactsB: 0,
+        squeeze: 0,
+        opposingContact: false,
+        gapAtGrasp: null,
+        lostContactTime: 0,
+      };
+
+      state.contactsA = contactsA.length;
+      state.contactsB = contactsB.length;
+
+      if (state.phase === 'grasped') {
+        // held objects often stop reporting contacts, so only the jaws opening releases them
+        if (state.gapAtGrasp !== null && frame.gap > state.gapAtGrasp + this.options.releaseOpening) {
+          events.push({ objectName, type: 'released' });
+          this.resetState(state);
+        } else {
+          this.states.set(objectName, state);
+          continue;
+        }
+      }
+
+      const squeeze = this.measureSqueeze(contactsA, contactsB, frame.axis);
+      if (squeeze !== null) {
+        state.lostContactTime = 0;
+        state.opposingContact = true;
+        state.squeeze = squeeze;
+      } else if (state.opposingContact) {
+        state.lostContactTime += frame.delta;
+        if (state.lostContactTime > this.options.contactGraceTime) {
+          state.opposingContact = false;
+          state.squeeze = 0;
+        }
+      }
+
+      if (squeeze !== null && squeeze >= this.options.minSqueeze) {
+        state.phase = 'grasped';
+        state.gapAtGrasp = frame.gap;
+        events.push({ objectName, type: 'grasped' });
+      } else if (contactsA.length > 0 || contactsB.length > 0 || state.opposingContact) {
+        state.phase = 'touching';
+      } else {
+        this.states.delete(objectName);
+        continue;
+      }
+
+      this.states.set(objectName, state);
+    }
+
+    return events;
+  }
+
+  private resetState(state: GraspState) {
+    state.phase = 'free';
+    state.squeeze = 0;
+    state.opposingContact = false;
+    state.gapAtGrasp = null;
+    state.lostContactTime = 0;
+  }
+
+  /**
+   * Grasp state of an object, free objects have no state
+   */
+  getState(objectName: string): GraspState | null {
+    return this.states.get(objectName) ?? null;
+  }
+
+  /**
+   * Grasp states of every object touched by the jaws, or currently grasped
+   */
+  getStates(): Map<string, GraspState> {
+    return new Map(this.states);
+  }
+
+  /**
+   * Forget an object, e.g. when it was released or removed from the scene by other means
+   */
+  forget(objectName: string): void {
+    this.states.delete(objectName);
+  }
+
+  /**
+   * Forget every object
+   */
+  reset(): void {
+    this.states.clear();
+  }
+}
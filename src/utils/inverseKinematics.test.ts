@@ -0,0 +1,73 @@
+/** @jest-environment jsdom */
+import { readFileSync } from 'fs';
+import path from 'path';
+import URDFLoader, { URDFRobot } from 'urdf-loader';
+import { JointValueMap, computeLinkPose, getJointsToLink } from './forwardKinematics';
+import { IKJoint, inverseKinematics2Link, solveInverseKinematics } from './inverseKinematics';
+
+describe('inverseKinematics2Link', () => {
+  it('reaches the target with both links', () => {
+    const { theta1, theta2 } = inverseKinematics2Link(1.2, 0.5, 1, 0.8)!;
+    expect(Math.cos(theta1) + 0.8 * Math.cos(theta1 + theta2)).toBeCloseTo(1.2);
+    expect(Math.sin(theta1) + 0.8 * Math.sin(theta1 + theta2)).toBeCloseTo(0.5);
+  });
+
+  it('gives up on targets out of reach', () => {
+    expect(inverseKinematics2Link(2, 0, 1, 0.8)).toBeNull();
+    expect(inverseKinematics2Link(0.1, 0, 1, 0.8)).toBeNull();
+  });
+});
+
+describe('solveInverseKinematics', () => {
+  let robot: URDFRobot;
+  let joints: IKJoint[];
+  let middle: JointValueMap;
+
+  beforeEach(() => {
+    const loader = new URDFLoader();
+    loader.loadMeshCb = () => undefined;
+    robot = loader.parse(readFileSync(path.join(__dirname, '../../urdf/so101.urdf'), 'utf8'));
+    joints = getJointsToLink(robot, 'gripper')
+      .filter(joint => joint.jointType === 'revolute')
+      .map(joint => ({ name: joint.name, lower: joint.limit.lower, upper: joint.limit.upper }));
+    middle = Object.fromEntries(joints.map(joint => [joint.name, (joint.lower + joint.upper) / 2]));
+  });
+
+  // a configuration away from the middle the solver starts from
+  const pose = () => Object.fromEntries(joints.map((joint, i) => [joint.name, joint.lower + (joint.upper - joint.lower) * (0.3 + 0.1 * i)]));
+
+  it('finds joint values that put the link back where forward kinematics put it', () => {
+    const target = computeLinkPose(robot, 'gripper', pose(), 'base')!;
+    const result = solveInverseKinematics(robot, 'gripper', target, joints, middle)!;
+
+    expect(result.converged).toBe(true);
+    const reached = computeLinkPose(robot, 'gripper', result.jointValues, 'base')!;
+    expect(reached.position.distanceTo(target.position)).toBeLessThan(0.001);
+    expect(reached.quaternion.angleTo(target.quaternion)).toBeLessThan(0.01);
+    expect(result.positionError).toBeCloseTo(reached.position.distanceTo(target.position));
+  });
+
+  it('solves for the position only when no orientation is given', () => {
+    const { position } = computeLinkPose(robot, 'gripper', pose(), 'base')!;
+    const result = solveInverseKinematics(robot, 'gripper', { position }, joints, middle)!;
+
+    expect(result.converged).toBe(true);
+    expect(computeLinkPose(robot, 'gripper', result.jointValues, 'base')!.position.distanceTo(position)).toBeLessThan(0.001);
+  });
+
+  it('keeps the joints within their limits', () => {
+    const { position } = computeLinkPose(robot, 'gripper', pose(), 'base')!;
+    const far = position.clone().multiplyScalar(10);
+    const result = solveInverseKinematics(robot, 'gripper', { position: far }, joints, middle)!;
+
+    expect(result.converged).toBe(false);
+    joints.forEach(joint => {
+      expect(result.jointValues[joint.name]).toBeGreaterThanOrEqual(joint.lower);
+      expect(result.jointValues[joint.name]).toBeLessThanOrEqual(joint.upper);
+    });
+  });
+
+  it(`returns null for a link that doesn't exist`, () => {
+    expect(solveInverseKinematics(robot, 'nope', { position: computeLinkPose(robot, 'gripper')!.position }, joints, middle)).toBeNull();
+  });
+});
@@ -1,3 +1,7 @@
+import * as THREE from 'three';
+import { URDFJoint, URDFRobot } from 'urdf-loader';
+import { JointValueMap, computeJointMatrix, getChainToLink } from './forwardKinematics';
+
 /**
  * Inverse kinematics for a 2-link planar robot arm
  * @param x Target X coordinate
@@ -35,3 +39,294 @@ export function inverseKinematics2Link(
   
   return { theta1: theta1Normalized, theta2 : theta2Normalized };
 }
+
+export interface IKJoint {
+  name: string;   // Name of the joint in the URDF
+  lower: number;  // Lower joint limit (radians or meters)
+  upper: number;  // Upper joint limit (radians or meters)
+}
+
+export interface IKTarget {
+  position: THREE.Vector3;        // Target position of the end-effector link, relative to the robot base
+  quaternion?: THREE.Quaternion;  // Optional target orientation, position-only when omitted
+}
+
+export interface IKOptions {
+  maxIterations?: number;         // Iterations per attempt (default 100)
+  tolerance?: number;             // Position tolerance in URDF units (default 0.001)
+  orientationTolerance?: number;  // Orientation tolerance in radians (default 0.01)
+  damping?: number;               // Damping factor of the least-squares step (default 0.05)
+  orientationWeight?: number;     // Weight of orientation error against position error (default 0.2)
+  maxStep?: number;               // Largest change of a single joint per iteration (default 0.2)
+  restarts?: number;              // Extra attempts from random configurations (default 8)
+}
+
+export interface IKResult {
+  jointValues: JointValueMap;
+  converged: boolean;
+  positionError: number;
+  orientationError: number;
+  iterations: number;
+}
+
+const DEFAULT_IK_OPTIONS: Required<IKOptions> = {
+  maxIterations: 100,
+  tolerance: 0.001,
+  orientationTolerance: 0.01,
+  damping: 0.05,
+  orientationWeight: 0.2,
+  maxStep: 0.2,
+  restarts: 8,
+};
+
+/**
+ * Solves the square linear system A x = b in place using gaussian elimination with partial pivoting
+ * @returns x, or null if A is singular
+ */
+function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    if (Math.abs(A[pivot][col]) < 1e-12) return null;
+
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = A[row][col] / A[col][col];
+      for (let k = col; k < n; k++) A[row][k] -= factor * A[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= A[row][k] * x[k];
+    x[row] = sum / A[row][row];
+  }
+
+  return x;
+}
+
+/**
+ * Rotation taking the current orientation to the target one, as an axis scaled by the angle
+ */
+function orientationError(current: THREE.Quaternion, target: THREE.Quaternion): THREE.Vector3 {
+  const delta = target.clone().multiply(current.clone().invert());
+  // take the short way round
+  if (delta.w < 0) delta.set(-delta.x, -delta.y, -delta.z, -delta.w);
+
+  const sinHalfAngle = Math.sqrt(delta.x * delta.x + delta.y * delta.y + delta.z * delta.z);
+  if (sinHalfAngle < 1e-9) return new THREE.Vector3();
+
+  const angle = 2 * Math.atan2(sinHalfAngle, delta.w);
+  return new THREE.Vector3(delta.x, delta.y, delta.z).multiplyScalar(angle / sinHalfAngle);
+}
+
+interface ChainState {
+  endPosition: THREE.Vector3;
+  endQuaternion: THREE.Quaternion;
+  // per solved joint, its axis and origin relative to the robot base, null when not on the chain
+  axes: ({ axis: THREE.Vector3; origin: THREE.Vector3; prismatic: boolean } | null)[];
+}
+
+/**
+ * Evaluates the chain to the end-effector for the given joint values, collecting the
+ * quantities needed to build the jacobian
+ */
+function evaluateChain(chain: THREE.Object3D[], joints: IKJoint[], jointValues: JointValueMap): ChainState {
+  const matrix = new THREE.Matrix4();
+  const local = new THREE.Matrix4();
+  const axes: ChainState['axes'] = joints.map(() => null);
+
+  for (const object of chain) {
+    const joint = object as URDFJoint;
+    if (joint.isURDFJoint && jointValues[joint.name] !== undefined) {
+      computeJointMatrix(joint, jointValues[joint.name], local);
+    } else {
+      local.compose(object.position, object.quaternion, object.scale);
+    }
+    matrix.multiply(local);
+
+    if (joint.isURDFJoint) {
+      const index = joints.findIndex(j => j.name === joint.name);
+      if (index !== -1) {
+        const rotation = new THREE.Quaternion();
+        const origin = new THREE.Vector3();
+        matrix.decompose(origin, rotation, new THREE.Vector3());
+        axes[index] = {
+          axis: joint.axis.clone().applyQuaternion(rotation).normalize(),
+          origin,
+          prismatic: joint.jointType === 'prismatic',
+        };
+      }
+    }
+  }
+
+  const endPosition = new THREE.Vector3();
+  const endQuaternion = new THREE.Quaternion();
+  matrix.decompose(endPosition, endQuaternion, new THREE.Vector3());
+
+  return { endPosition, endQuaternion, axes };
+}
+
+/**
+ * Damped least-squares descent from one starting configuration
+ */
+function solveFromSeed(
+  chain: THREE.Object3D[],
+  joints: IKJoint[],
+  seed: JointValueMap,
+  target: IKTarget,
+  options: Required<IKOptions>
+): IKResult {
+  const jointValues: JointValueMap = { ...seed };
+  const useOrientation = target.quaternion !== undefined;
+  let positionError = Infinity;
+  let rotationError = 0;
+  let iterations = 0;
+
+  for (; iterations <= options.maxIterations; iterations++) {
+    const state = evaluateChain(chain, joints, jointValues);
+
+    const positionDelta = target.position.clone().sub(state.endPosition);
+    const rotationDelta = useOrientation ? orientationError(state.endQuaternion, target.quaternion!) : new THREE.Vector3();
+    positionError = positionDelta.length();
+    rotationError = rotationDelta.length();
+
+    if (positionError <= options.tolerance && rotationError <= options.orientationTolerance) {
+      return { jointValues, converged: true, positionError, orientationError: rotationError, iterations };
+    }
+    if (iterations === options.maxIterations) break;
+
+    // error vector and jacobian rows: 3 for position, plus 3 for orientation when requested
+    const w = options.orientationWeight;
+    const error = [positionDelta.x, positionDelta.y, positionDelta.z];
+    if (useOrientation) error.push(w * rotationDelta.x, w * rotationDelta.y, w * rotationDelta.z);
+
+    const rows = error.length;
+    const columns: number[][] = state.axes.map(entry => {
+      if (!entry) return new Array(rows).fill(0);
+
+      if (entry.prismatic) {
+        const column = [entry.axis.x, entry.axis.y, entry.axis.z];
+        if (useOrientation) column.push(0, 0, 0);
+        return column;
+      }
+
+      const linear = entry.axis.clone().cross(state.endPosition.clone().sub(entry.origin));
+      const column = [linear.x, linear.y, linear.z];
+      if (useOrientation) column.push(w * entry.axis.x, w * entry.axis.y, w * entry.axis.z);
+      return column;
+    });
+
+    // (J J^T + lambda^2 I) y = e, then dq = J^T y
+    const lambdaSquared = options.damping * options.damping;
+    const A: number[][] = [];
+    for (let i = 0; i < rows; i++) {
+      A.push([]);
+      for (let j = 0; j < rows; j++) {
+        let sum = i === j ? lambdaSquared : 0;
+        for (const column of columns) sum += column[i] * column[j];
+        A[i].push(sum);
+      }
+    }
+
+    const y = solveLinearSystem(A, error.slice());
+    if (!y) break;
+
+    const steps = columns.map(column => column.reduce((sum, value, i) => sum + value * y[i], 0));
+    const largestStep = Math.max(...steps.map(Math.abs));
+    const stepScale = largestStep > options.maxStep ? options.maxStep / largestStep : 1;
+
+    joints.forEach((joint, index) => {
+      const value = jointValues[joint.name] + steps[index] * stepScale;
+      jointValues[joint.name] = Math.min(joint.upper, Math.max(joint.lower, value));
+    });
+  }
+
+  return { jointValues, converged: false, positionError, orientationError: rotationError, iterations };
+}
+
+/**
+ * Small deterministic pseudo-random generator so restarts are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Numerical inverse kinematics for an arbitrary URDF chain using damped least squares.
+ * The solver starts from the initial configuration and from a number of random restarts,
+ * and returns the converged solution closest to the initial configuration
+ * (or the most accurate one if none converged)
+ * @param robot The loaded URDF robot
+ * @param endEffector Name of the link to move to the target
+ * @param target Target position (and optional orientation) relative to the robot base, in URDF units
+ * @param joints Joints the solver may move, with their limits
+ * @param initial Starting joint values, typically the current configuration
+ * @param options Solver settings
+ * @returns The solution, or null if the end-effector link doesn't exist
+ */
+export function solveInverseKinematics(
+  robot: URDFRobot,
+  endEffector: string,
+  target: IKTarget,
+  joints: IKJoint[],
+  initial: JointValueMap,
+  options: IKOptions = {}
+): IKResult | null {
+  const chain = getChainToLink(robot, endEffector);
+  if (!chain) return null;
+
+  const settings = { ...DEFAULT_IK_OPTIONS, ...options };
+
+  // joints that aren't on the chain don't affect the end-effector, so they are left alone
+  const chainJointNames = new Set(chain.filter(o => (o as URDFJoint).isURDFJoint).map(o => o.name));
+  const activeJoints = joints.filter(joint => chainJointNames.has(joint.name));
+
+  const start: JointValueMap = {};
+  activeJoints.forEach(joint => {
+    const value = initial[joint.name] ?? (joint.lower + joint.upper) / 2;
+    start[joint.name] = Math.min(joint.upper, Math.max(joint.lower, value));
+  });
+
+  const distanceFromStart = (values: JointValueMap) =>
+    activeJoints.reduce((sum, joint) => sum + (values[joint.name] - start[joint.name]) ** 2, 0);
+
+  const random = createRandom(activeJoints.length * 7919 + settings.restarts);
+  const seeds: JointValueMap[] = [start];
+  for (let i = 0; i < settings.restarts; i++) {
+    const seed: JointValueMap = {};
+    activeJoints.forEach(joint => {
+      seed[joint.name] = joint.lower + random() * (joint.upper - joint.lower);
+    });
+    seeds.push(seed);
+  }
+
+  let best: IKResult | null = null;
+  let iterations = 0;
+  for (const seed of seeds) {
+    const result = solveFromSeed(chain, activeJoints, seed, target, settings);
+    iterations += result.iterations;
+
+    if (!best) {
+      best = result;
+    } else if (result.converged && best.converged) {
+      if (distanceFromStart(result.jointValues) < distanceFromStart(best.jointValues)) best = result;
+    } else if (result.converged || (!best.converged && result.positionError < best.positionError)) {
+      best = result;
+    }
+  }
+
+  return { ...best!, jointValues: { ...initial, ...best!.jointValues }, iterations };
+}
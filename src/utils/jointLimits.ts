@@ -0,0 +1,52 @@
+import { URDFJoint } from 'urdf-loader';
+
+/**
+ * Velocity and effort limits and joint dynamics from a URDF joint's <limit> and <dynamics> elements.
+ * urdf-loader only reads the position limits, so the rest is parsed from the joint's URDF node
+ */
+
+export interface JointLimits {
+  velocity: number;  // Maximum speed in radians (or meters) per second, Infinity if the URDF doesn't give one
+  effort: number;    // Maximum torque in N·m (or force in N), Infinity if the URDF doesn't give one
+  damping: number;   // Viscous damping in N·m per radian per second (or N per meter per second)
+  friction: number;  // Coulomb friction in N·m (or N)
+}
+
+function readAttribute(joint: URDFJoint, elementName: string, attribute: string): number | null {
+  if (!joint.urdfNode) return null;
+
+  const element = Array.from(joint.urdfNode.children).find(child => child.nodeName.toLowerCase() === elementName);
+  const value = parseFloat(element?.getAttribute(attribute) ?? '');
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Limits and dynamics of a joint. A velocity or effort of 0 counts as not given,
+ * as some exporters write 0 for "unlimited"
+ * @param joint The URDF joint
+ */
+export function getJointLimits(joint: URDFJoint): JointLimits {
+  const velocity = readAttribute(joint, 'limit', 'velocity');
+  const effort = readAttribute(joint, 'limit', 'effort');
+
+  return {
+    velocity: velocity && velocity > 0 ? velocity : Infinity,
+    effort: effort && effort > 0 ? effort : Infinity,
+    damping: Math.max(0, readAttribute(joint, 'dynamics', 'damping') ?? 0),
+    friction: Math.max(0, readAttribute(joint, 'dynamics', 'friction') ?? 0),
+  };
+}
+
+/**
+ * Move a value towards a target without exceeding a velocity
+ * @param current Current value
+ * @param target Target value
+ * @param maxVelocity Maximum velocity in units per second
+ * @param delta Seconds to move for
+ * @returns The new value, the target if it can be reached within delta
+ */
+export function stepTowards(current: number, target: number, maxVelocity: number, delta: number): number {
+  const maxStep = maxVelocity * Math.max(0, delta);
+  if (Math.abs(target - current) <= maxStep) return target;
+  return current + Math.sign(target - current) * maxStep;
+}
@@ -0,0 +1,70 @@
+import { OmniBaseGeometry, bodyToWheelSpeeds } from './omniBase';
+import { WheelOdometry } from './odometry';
+
+// LeKiwi's geometry without the wheel speed limit, see LeKiwi.BASE_GEOMETRY
+const GEOMETRY: OmniBaseGeometry = {
+  wheelRadius: 0.05,
+  baseRadius: 0.125,
+  wheelAngles: [240, 0, 120].map(angle => ((angle - 90) * Math.PI) / 180),
+  maxWheelSpeed: Infinity,
+};
+
+// drive at a constant twist for a number of seconds, in small steps
+const drive = (odometry: WheelOdometry, twist: { x: number; y: number; theta: number }, seconds: number, steps = 200) => {
+  const wheelSpeeds = bodyToWheelSpeeds(twist, GEOMETRY);
+  for (let i = 0; i < steps; i++) odometry.update(wheelSpeeds, seconds / steps);
+  return odometry.pose;
+};
+
+describe('WheelOdometry', () => {
+  it('integrates a constant twist along its arc', () => {
+    const speed = 0.2;
+    const turnRate = 0.5;
+    const pose = drive(new WheelOdometry(GEOMETRY), { x: speed, y: 0, theta: turnRate }, 2);
+
+    // a circle of radius speed / turnRate, starting towards +x
+    const radius = speed / turnRate;
+    expect(pose.x).toBeCloseTo(radius * Math.sin(turnRate * 2), 4);
+    expect(pose.y).toBeCloseTo(radius * (1 - Math.cos(turnRate * 2)), 4);
+    expect(pose.theta).toBeCloseTo(turnRate * 2);
+  });
+
+  it('integrates a sideways twist without turning', () => {
+    const odometry = new WheelOdometry(GEOMETRY);
+    const pose = drive(odometry, { x: 0.1, y: -0.05, theta: 0 }, 3);
+
+    expect(pose.x).toBeCloseTo(0.3);
+    expect(pose.y).toBeCloseTo(-0.15);
+    expect(pose.theta).toBeCloseTo(0);
+    expect(odometry.velocity.x).toBeCloseTo(0.1);
+    expect(odometry.velocity.y).toBeCloseTo(-0.05);
+  });
+
+  it('overestimates the distance when the wheels slip', () => {
+    const pose = drive(new WheelOdometry(GEOMETRY, { slip: 0.1 }), { x: 0.1, y: 0, theta: 0 }, 1);
+    expect(pose.x).toBeCloseTo(0.11);
+  });
+
+  it('drifts with noisy readings, repeatably for the same random numbers', () => {
+    const seeded = () => {
+      let state = 1;
+      return () => (state = (state * 16807) % 2147483647) / 2147483647;
+    };
+    const first = drive(new WheelOdometry(GEOMETRY, { noise: 0.5, random: seeded() }), { x: 0.1, y: 0, theta: 0 }, 1);
+    const second = drive(new WheelOdometry(GEOMETRY, { noise: 0.5, random: seeded() }), { x: 0.1, y: 0, theta: 0 }, 1);
+
+    expect(first).toEqual(second);
+    expect(first.y).not.toBe(0);
+  });
+
+  it('starts again from the pose it is reset to', () => {
+    const odometry = new WheelOdometry(GEOMETRY);
+    drive(odometry, { x: 0.1, y: 0, theta: 0.3 }, 1);
+    odometry.reset({ x: 1, y: 2, theta: Math.PI / 2 });
+
+    const pose = drive(odometry, { x: 0.1, y: 0, theta: 0 }, 1);
+    expect(pose.x).toBeCloseTo(1);
+    expect(pose.y).toBeCloseTo(2.1);
+    expect(pose.theta).toBeCloseTo(Math.PI / 2);
+  });
+});
@@ -0,0 +1,66 @@
+import { BasePose, BaseVelocity, OmniBaseGeometry, integratePose, wheelSpeedsToBody } from './omniBase';
+
+/**
+ * Pose estimate of an omni-wheel base from its wheel encoders, which drifts from the real pose
+ * when the wheels slip or the encoder readings are noisy
+ */
+
+export interface OdometryOptions {
+  slip: number;            // Fraction by which the wheels turn further than the ground they cover, e.g. 0.05
+  noise: number;           // Standard deviation of each wheel speed reading, rad/s
+  random: () => number;    // Uniform random numbers in [0, 1), replace for repeatable noise
+}
+
+export const DEFAULT_ODOMETRY_OPTIONS: OdometryOptions = {
+  slip: 0,
+  noise: 0,
+  random: Math.random,
+};
+
+export class WheelOdometry {
+  readonly geometry: OmniBaseGeometry;
+  options: OdometryOptions;
+
+  pose: BasePose;              // Estimated pose relative to where the odometry was last reset
+  velocity: BaseVelocity;      // Estimated velocity in the last update
+  wheelSpeeds: number[];       // Wheel speeds as read in the last update, rad/s
+
+  constructor(geometry: OmniBaseGeometry, options: Partial<OdometryOptions> = {}) {
+    this.geometry = geometry;
+    this.options = { ...DEFAULT_ODOMETRY_OPTIONS, ...options };
+    this.pose = { x: 0, y: 0, theta: 0 };
+    this.velocity = { x: 0, y: 0, theta: 0 };
+    this.wheelSpeeds = geometry.wheelAngles.map(() => 0);
+  }
+
+  // normally distributed, Box-Muller
+  private gaussian(): number {
+    const u = 1 - this.options.random();
+    const v = this.options.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Read the wheel speeds and move the estimate along
+   * @param wheelSpeeds Speeds the wheels actually roll over the ground at, rad/s
+   * @param delta Seconds since the last update
+   * @returns The estimated pose
+   */
+  update(wheelSpeeds: number[], delta: number): BasePose {
+    const { slip, noise } = this.options;
+    this.wheelSpeeds = wheelSpeeds.map(speed => speed * (1 + slip) + (noise > 0 ? noise * this.gaussian() : 0));
+    this.velocity = wheelSpeedsToBody(this.wheelSpeeds, this.geometry);
+    this.pose = integratePose(this.pose, this.velocity, delta);
+    return this.pose;
+  }
+
+  /**
+   * Start estimating from a pose again
+   * @param pose Pose to start from, defaults to the origin
+   */
+  reset(pose: BasePose = { x: 0, y: 0, theta: 0 }): void {
+    this.pose = { ...pose };
+    this.velocity = { x: 0, y: 0, theta: 0 };
+    this.wheelSpeeds = this.geometry.wheelAngles.map(() => 0);
+  }
+}
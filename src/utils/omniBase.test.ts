@@ -0,0 +1,96 @@
+import { BaseVelocity, OmniBase, OmniBaseGeometry, bodyToWheelSpeeds, integratePose, wheelSpeedsToBody } from './omniBase';
+
+// LeKiwi's geometry, see LeKiwi.BASE_GEOMETRY
+const GEOMETRY: OmniBaseGeometry = {
+  wheelRadius: 0.05,
+  baseRadius: 0.125,
+  wheelAngles: [240, 0, 120].map(angle => ((angle - 90) * Math.PI) / 180),
+  maxWheelSpeed: (3000 / 4096) * 2 * Math.PI,
+};
+
+const VELOCITIES: BaseVelocity[] = [
+  { x: 0.1, y: 0, theta: 0 },
+  { x: 0, y: -0.1, theta: 0 },
+  { x: 0, y: 0, theta: 0.5 },
+  { x: 0.05, y: 0.08, theta: -0.3 },
+];
+
+const expectVelocityCloseTo = (actual: BaseVelocity, expected: BaseVelocity) => {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+  expect(actual.theta).toBeCloseTo(expected.theta);
+};
+
+describe('omni wheel kinematics', () => {
+  it.each(VELOCITIES)('turns the wheel speeds for %o back into the same velocity', velocity => {
+    expectVelocityCloseTo(wheelSpeedsToBody(bodyToWheelSpeeds(velocity, GEOMETRY), GEOMETRY), velocity);
+  });
+
+  it('turns a base velocity back into the same wheel speeds', () => {
+    const wheelSpeeds = [1.5, -0.4, 2];
+    bodyToWheelSpeeds(wheelSpeedsToBody(wheelSpeeds, GEOMETRY), GEOMETRY)
+      .forEach((speed, index) => expect(speed).toBeCloseTo(wheelSpeeds[index]));
+  });
+
+  it('turns every wheel the same way to turn on the spot', () => {
+    const speeds = bodyToWheelSpeeds({ x: 0, y: 0, theta: 1 }, GEOMETRY);
+    speeds.forEach(speed => expect(speed).toBeCloseTo(GEOMETRY.baseRadius / GEOMETRY.wheelRadius));
+  });
+
+  it('slows every wheel down by the same factor when one would be too fast', () => {
+    const command = { x: 2, y: 1, theta: 0 };
+    const unlimited = bodyToWheelSpeeds(command, { ...GEOMETRY, maxWheelSpeed: Infinity });
+    const speeds = bodyToWheelSpeeds(command, GEOMETRY);
+
+    expect(Math.max(...speeds.map(Math.abs))).toBeCloseTo(GEOMETRY.maxWheelSpeed);
+    const scale = speeds[0] / unlimited[0];
+    speeds.forEach((speed, index) => expect(speed).toBeCloseTo(unlimited[index] * scale));
+
+    // the base keeps its direction
+    const velocity = wheelSpeedsToBody(speeds, GEOMETRY);
+    expect(velocity.y / velocity.x).toBeCloseTo(command.y / command.x);
+  });
+});
+
+describe('integratePose', () => {
+  it('moves in the direction the base is heading', () => {
+    const pose = integratePose({ x: 1, y: 0, theta: Math.PI / 2 }, { x: 0.5, y: 0, theta: 0 }, 2);
+    expect(pose.x).toBeCloseTo(1);
+    expect(pose.y).toBeCloseTo(1);
+    expect(pose.theta).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('follows an arc when turning while moving', () => {
+    // a quarter circle of radius 1
+    const velocity = { x: Math.PI / 2, y: 0, theta: Math.PI / 2 };
+    let pose = { x: 0, y: 0, theta: 0 };
+    for (let i = 0; i < 100; i++) pose = integratePose(pose, velocity, 0.01);
+
+    expect(pose.x).toBeCloseTo(1, 3);
+    expect(pose.y).toBeCloseTo(1, 3);
+    expect(pose.theta).toBeCloseTo(Math.PI / 2);
+  });
+});
+
+describe('OmniBase', () => {
+  it('turns the wheels and moves the pose at the commanded velocity', () => {
+    const base = new OmniBase(GEOMETRY);
+    base.setVelocity({ x: 0.1, y: 0, theta: 0 });
+    for (let i = 0; i < 10; i++) base.step(0.1);
+
+    expect(base.pose.x).toBeCloseTo(0.1);
+    expect(base.pose.y).toBeCloseTo(0);
+    base.wheelPositions.forEach((position, index) => expect(position).toBeCloseTo(base.wheelSpeeds[index]));
+  });
+
+  it('stays put once stopped', () => {
+    const base = new OmniBase(GEOMETRY);
+    base.setVelocity({ x: 0.1, y: 0.1, theta: 1 });
+    base.step(0.5);
+    base.stop();
+    const pose = { ...base.pose };
+
+    expectVelocityCloseTo(base.step(0.5), { x: 0, y: 0, theta: 0 });
+    expect(base.pose).toEqual(pose);
+  });
+});
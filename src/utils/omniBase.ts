@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+
+/**
+ * Kinematics of a holonomic base on omni wheels, like LeKiwi's.
+ * Velocities are in the base's frame: x forward, y to the left, theta counter-clockwise seen from above.
+ * Lengths are in meters, angles in radians
+ */
+
+export interface BaseVelocity {
+  x: number;      // Forward speed, m/s
+  y: number;      // Sideways speed to the left, m/s
+  theta: number;  // Turn rate, rad/s
+}
+
+export interface BasePose {
+  x: number;      // Forward from the starting pose, m
+  y: number;      // To the left of the starting pose, m
+  theta: number;  // Heading relative to the starting pose, rad
+}
+
+export interface OmniBaseGeometry {
+  wheelRadius: number;    // Radius of the omni wheels
+  baseRadius: number;     // Distance from the center of the base to the wheels
+  wheelAngles: number[];  // Direction each wheel drives the base in when turning forwards, from the x axis
+  maxWheelSpeed: number;  // Fastest a wheel can turn, rad/s
+}
+
+/**
+ * Wheel speeds for a base velocity. If a wheel would have to turn faster than it can,
+ * every wheel is slowed down by the same factor so the base keeps its direction
+ * @returns The angular speed of each wheel in rad/s
+ */
+export function bodyToWheelSpeeds(velocity: BaseVelocity, geometry: OmniBaseGeometry): number[] {
+  const speeds = geometry.wheelAngles.map(angle =>
+    (Math.cos(angle) * velocity.x + Math.sin(angle) * velocity.y + geometry.baseRadius * velocity.theta) / geometry.wheelRadius);
+
+  const fastest = Math.max(0, ...speeds.map(Math.abs));
+  const scale = fastest > geometry.maxWheelSpeed ? geometry.maxWheelSpeed / fastest : 1;
+  return speeds.map(speed => speed * scale);
+}
+
+/**
+ * Base velocity for wheel speeds, the least squares fit if the wheels disagree
+ * @param wheelSpeeds Angular speed of each wheel in rad/s
+ */
+export function wheelSpeedsToBody(wheelSpeeds: number[], geometry: OmniBaseGeometry): BaseVelocity {
+  // rows of the wheel matrix are [cos, sin, baseRadius], solve the normal equations
+  const normal = new THREE.Matrix3().set(0, 0, 0, 0, 0, 0, 0, 0, 0);
+  const projected = new THREE.Vector3();
+  geometry.wheelAngles.forEach((angle, index) => {
+    const row = [Math.cos(angle), Math.sin(angle), geometry.baseRadius];
+    const linearSpeed = wheelSpeeds[index] * geometry.wheelRadius;
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        // Matrix3.elements is column-major
+        normal.elements[j * 3 + i] += row[i] * row[j];
+      }
+    }
+    projected.x += row[0] * linearSpeed;
+    projected.y += row[1] * linearSpeed;
+    projected.z += row[2] * linearSpeed;
+  });
+
+  projected.applyMatrix3(normal.invert());
+  return { x: projected.x, y: projected.y, theta: projected.z };
+}
+
+/**
+ * Move a pose by a base velocity, using the heading halfway through the step so turning while moving follows an arc
+ * @returns The new pose
+ */
+export function integratePose(pose: BasePose, velocity: BaseVelocity, delta: number): BasePose {
+  const heading = pose.theta + (velocity.theta * delta) / 2;
+  return {
+    x: pose.x + (Math.cos(heading) * velocity.x - Math.sin(heading) * velocity.y) * delta,
+    y: pose.y + (Math.sin(heading) * velocity.x + Math.cos(heading) * velocity.y) * delta,
+    theta: pose.theta + velocity.theta * delta,
+  };
+}
+
+export class OmniBase {
+  readonly geometry: OmniBaseGeometry;
+
+  command: BaseVelocity;      // Commanded velocity
+  velocity: BaseVelocity;     // Velocity the wheels produced in the last step, slower than commanded if they saturated
+  wheelSpeeds: number[];      // Angular speed of each wheel in the last step, rad/s
+  wheelPositions: number[];   // How far each wheel has turned, rad
+  pose: BasePose;             // Pose relative to where the base started
+
+  constructor(geometry: OmniBaseGeometry) {
+    this.geometry = geometry;
+    this.command = { x: 0, y: 0, theta: 0 };
+    this.velocity = { x: 0, y: 0, theta: 0 };
+    this.wheelSpeeds = geometry.wheelAngles.map(() => 0);
+    this.wheelPositions = geometry.wheelAngles.map(() => 0);
+    this.pose = { x: 0, y: 0, theta: 0 };
+  }
+
+  /**
+   * Set the commanded velocity, in the base's frame
+   */
+  setVelocity(velocity: BaseVelocity): void {
+    this.command = { ...velocity };
+  }
+
+  stop(): void {
+    this.setVelocity({ x: 0, y: 0, theta: 0 });
+  }
+
+  /**
+   * Measure the pose from here on
+   * @param pose Pose to start from, defaults to the origin
+   */
+  resetPose(pose: BasePose = { x: 0, y: 0, theta: 0 }): void {
+    this.pose = { ...pose };
+  }
+
+  /**
+   * Turn the wheels at the speeds for the commanded velocity and move the pose along
+   * @param delta Seconds to advance by
+   * @returns The velocity the base moved at
+   */
+  step(delta: number): BaseVelocity {
+    this.wheelSpeeds = bodyToWheelSpeeds(this.command, this.geometry);
+    this.velocity = wheelSpeedsToBody(this.wheelSpeeds, this.geometry);
+
+    this.wheelSpeeds.forEach((speed, index) => this.wheelPositions[index] += speed * delta);
+    this.pose = integratePose(this.pose, this.velocity, delta);
+
+    return this.velocity;
+  }
+}
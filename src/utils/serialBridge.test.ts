@@ -0,0 +1,93 @@
+/** @jest-environment jsdom */
+import { ReadableStream, WritableStream } from 'stream/web';
+import { SO101 } from '../robots/SO101';
+import { CalibrationFile } from '../robots/Calibration';
+import { loadRobot } from '../testing/loadRobot';
+import { VirtualServoBus } from './servoBus';
+import { SerialBridge, SerialBridgeOptions, VirtualSerialPort } from './serialBridge';
+
+// jsdom has no web streams, Node's stand in for the browser's
+Object.assign(globalThis, { ReadableStream, WritableStream });
+
+const CALIBRATION: CalibrationFile = {
+  shoulder_pan: { id: 1, drive_mode: 0, homing_offset: 120, range_min: 800, range_max: 3300 },
+  shoulder_lift: { id: 2, drive_mode: 0, homing_offset: -340, range_min: 850, range_max: 3200 },
+  elbow_flex: { id: 3, drive_mode: 0, homing_offset: 60, range_min: 900, range_max: 3100 },
+  wrist_flex: { id: 4, drive_mode: 0, homing_offset: -25, range_min: 870, range_max: 3150 },
+  wrist_roll: { id: 5, drive_mode: 0, homing_offset: 1010, range_min: 100, range_max: 3990 },
+  gripper: { id: 6, drive_mode: 0, homing_offset: -700, range_min: 2000, range_max: 3400 },
+};
+
+const POSE = { shoulder_pan: 35, shoulder_lift: -60, elbow_flex: 72, wrist_flex: -15, wrist_roll: 50, gripper: 80 };
+
+describe('SerialBridge', () => {
+  let robot: SO101;  // the simulated robot the bridge drives or follows
+  let arm: SO101;    // stands in for the real arm behind the serial port
+  let bridge: SerialBridge | null;
+
+  const connect = async (options: SerialBridgeOptions) => {
+    bridge = new SerialBridge(robot, new VirtualSerialPort(new VirtualServoBus(arm)), options);
+    expect(await bridge.connect()).toBe(true);
+    return bridge;
+  };
+
+  beforeEach(async () => {
+    robot = await loadRobot(new SO101(), 'urdf/so101.urdf');
+    arm = await loadRobot(new SO101(), 'urdf/so101.urdf');
+    robot.setCalibration(CALIBRATION);
+    arm.setCalibration(CALIBRATION);
+    bridge = null;
+  });
+
+  afterEach(async () => {
+    await bridge?.disconnect();
+  });
+
+  it('converts between pivot values and servo positions through the calibration', async () => {
+    const bridge = await connect({ mode: 'leader' });
+    const ticks = bridge.pivotValueToTicks('elbow_flex', 72);
+    expect(bridge.ticksToPivotValue('elbow_flex', ticks)).toBeCloseTo(72, 0);
+    expect(bridge.pivotValueToTicks('elbow_flex', -100)).toBeCloseTo(CALIBRATION.elbow_flex.range_min, -1);
+    expect(bridge.pivotValueToTicks('elbow_flex', 100)).toBeCloseTo(CALIBRATION.elbow_flex.range_max, -1);
+  });
+
+  it('sets the robot to the leader arm', async () => {
+    arm.setPivotValues(POSE, { immediate: true });
+    const bridge = await connect({ mode: 'leader' });
+
+    expect(await bridge.step()).toBe(true);
+    Object.entries(POSE).forEach(([name, value]) => expect(robot.pivotMap[name].value).toBeCloseTo(value, 0));
+
+    // reading a leader that was held still succeeds too
+    expect(await bridge.step()).toBe(true);
+  });
+
+  it('drives the follower arm to the robot', async () => {
+    const bridge = await connect({ mode: 'follower' });
+    robot.setPivotValues(POSE);
+
+    expect(await bridge.step()).toBe(true);
+    Object.entries(POSE).forEach(([name, value]) => expect(arm.pivotMap[name].value).toBeCloseTo(value, 0));
+  });
+
+  it(`leaves the robot as it is when a servo doesn't answer in time`, async () => {
+    arm.setPivotValues(POSE, { immediate: true });
+    const bridge = await connect({ mode: 'leader', ids: { gripper: 20 }, timeout: 10 });
+    const before = robot.getState().pivots;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await bridge.readPositions()).toBeNull();
+    expect(await bridge.readLeader()).toBe(false);
+    expect(warn).toHaveBeenCalledWith('Only 5 of 6 servos answered in time');
+    expect(robot.getState().pivots).toEqual(before);
+    warn.mockRestore();
+  });
+
+  it(`doesn't step before connecting`, async () => {
+    bridge = new SerialBridge(robot, new VirtualSerialPort(new VirtualServoBus(arm)), { mode: 'leader' });
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(await bridge.step()).toBe(false);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,350 @@
+import type { Robot } from '../robots/Robot';
+import { TICKS_PER_REVOLUTION, jointValueToPosition, positionToJointValue } from '../robots/Calibration';
+import {
+  FeetechPacket,
+  FeetechPacketReader,
+  STS3215_CONTROL_TABLE,
+  decodeValue,
+  encodeSyncRead,
+  encodeSyncWrite,
+  encodeValue,
+} from './feetech';
+import { VirtualServoBus, assignServoIds } from './servoBus';
+
+/**
+ * Connects a simulated robot to a real arm's servo bus over WebSerial. As a leader, the real arm is moved by hand
+ * and the robot's pivots follow its present positions; as a follower, the real arm is driven to the robot's pivots.
+ * Servo positions map to pivot values through the robot's calibration, see Robot.setCalibration
+ */
+
+export type SerialBridgeMode = 'leader' | 'follower';
+
+/**
+ * The part of WebSerial's SerialPort the bridge uses, so other ports like VirtualSerialPort can stand in
+ */
+export interface SerialPortLike {
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface SerialBridgeOptions {
+  mode: SerialBridgeMode;
+  ids?: { [pivotName: string]: number };  // Servo ID of each pivot, see assignServoIds
+  baudRate?: number;                      // Defaults to the STS3215's 1 Mbps
+  interval?: number;                      // Milliseconds between steps once started, defaults to 20
+  timeout?: number;                       // Milliseconds to wait for the servos' replies, defaults to 50
+}
+
+const DEFAULT_BAUD_RATE = 1_000_000;
+const DEFAULT_INTERVAL = 20;
+const DEFAULT_TIMEOUT = 50;
+
+export class SerialBridge {
+  readonly robot: Robot;
+  readonly port: SerialPortLike;
+  readonly options: SerialBridgeOptions;
+  readonly pivots: Map<number, string>;  // Pivot names keyed by servo ID
+
+  private connected: boolean;
+  private running: boolean;
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null;
+  private readLoop: Promise<void> | null;
+  private packetReader: FeetechPacketReader;
+  private received: FeetechPacket[];
+  private notifyReceived: (() => void) | null;
+  private transactions: Promise<unknown>;
+
+  constructor(robot: Robot, port: SerialPortLike, options: SerialBridgeOptions) {
+    this.robot = robot;
+    this.port = port;
+    this.options = options;
+    this.pivots = assignServoIds(robot, options.ids);
+    this.connected = false;
+    this.running = false;
+    this.reader = null;
+    this.writer = null;
+    this.readLoop = null;
+    this.packetReader = new FeetechPacketReader();
+    this.received = [];
+    this.notifyReceived = null;
+    this.transactions = Promise.resolve();
+  }
+
+  /**
+   * Ask the user to pick a serial port, WebSerial is only available in Chromium based browsers
+   * @returns The port, or null if WebSerial isn't available or no port was picked
+   */
+  static async requestPort(): Promise<SerialPortLike | null> {
+    const serial = typeof navigator !== 'undefined' ? (navigator as any).serial : undefined;
+    if (!serial) {
+      console.error(`WebSerial isn't available in this browser`);
+      return null;
+    }
+    try {
+      return await serial.requestPort();
+    } catch (error) {
+      console.warn(`No serial port was picked: ${error}`);
+      return null;
+    }
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Open the port and set up the arm: a leader's torque is disabled so it can be moved by hand,
+   * a follower's is enabled
+   * @returns Boolean indicating whether the port was opened
+   */
+  async connect(): Promise<boolean> {
+    if (this.connected) return true;
+
+    try {
+      await this.port.open({ baudRate: this.options.baudRate ?? DEFAULT_BAUD_RATE });
+    } catch (error) {
+      console.error(`Failed to open the serial port: ${error}`);
+      return false;
+    }
+    if (!this.port.readable || !this.port.writable) {
+      console.error(`The serial port can't be read from and written to`);
+      await this.port.close();
+      return false;
+    }
+
+    this.reader = this.port.readable.getReader();
+    this.writer = this.port.writable.getWriter();
+    this.connected = true;
+    this.readLoop = this.receive(this.reader);
+
+    const [address, size] = STS3215_CONTROL_TABLE.Torque_Enable;
+    await this.send(this.syncWrite(address, size, () => this.options.mode === 'follower' ? 1 : 0));
+    return true;
+  }
+
+  /**
+   * Stop, and close the port once the last step has finished
+   */
+  async disconnect(): Promise<void> {
+    if (!this.connected) return;
+
+    this.stop();
+    await this.transactions;
+    this.connected = false;
+
+    await this.reader?.cancel();
+    await this.readLoop;
+    this.reader?.releaseLock();
+    await this.writer?.close().catch(() => undefined);
+    this.writer?.releaseLock();
+    this.reader = null;
+    this.writer = null;
+    this.readLoop = null;
+    this.packetReader.clear();
+
+    await this.port.close();
+  }
+
+  /**
+   * Pivot value for a servo position, through the robot's calibration
+   * @param ticks Position after the servo's homing offset
+   */
+  ticksToPivotValue(name: string, ticks: number): number {
+    return this.robot.convertPivotValue(name, positionToJointValue(ticks), 'rad', 'pivot');
+  }
+
+  /**
+   * Servo position for a pivot value, see ticksToPivotValue
+   */
+  pivotValueToTicks(name: string, value: number): number {
+    const ticks = Math.round(jointValueToPosition(this.robot.convertPivotValue(name, value, 'pivot', 'rad')));
+    return Math.min(Math.max(ticks, 0), TICKS_PER_REVOLUTION - 1);
+  }
+
+  /**
+   * Read every servo's present position
+   * @returns Positions in ticks keyed by pivot name, or null if a servo didn't answer in time
+   */
+  async readPositions(): Promise<{ [pivotName: string]: number } | null> {
+    const [address, size] = STS3215_CONTROL_TABLE.Present_Position;
+    const ids = Array.from(this.pivots.keys());
+    const replies = await this.request(encodeSyncRead(ids, address, size), ids.length);
+    if (!replies) return null;
+
+    const positions: { [pivotName: string]: number } = {};
+    replies.forEach(reply => {
+      const name = this.pivots.get(reply.id);
+      if (name && reply.parameters.length === size) positions[name] = decodeValue(reply.parameters);
+    });
+    return positions;
+  }
+
+  /**
+   * Set the robot's pivots to the real arm's present positions
+   * @returns Boolean indicating whether every servo answered
+   */
+  async readLeader(): Promise<boolean> {
+    const positions = await this.readPositions();
+    if (!positions) return false;
+
+    const values: { [pivotName: string]: number } = {};
+    Object.entries(positions).forEach(([name, ticks]) => values[name] = this.ticksToPivotValue(name, ticks));
+    // setPivotValues is also false for joints that didn't move, which is fine for a leader held still
+    this.robot.setPivotValues(values);
+    return Object.keys(values).length === this.pivots.size;
+  }
+
+  /**
+   * Send the robot's pivot values to the real arm as goal positions
+   * @returns Boolean indicating whether the packet was sent
+   */
+  async writeFollower(): Promise<boolean> {
+    const [address, size] = STS3215_CONTROL_TABLE.Goal_Position;
+    return this.send(this.syncWrite(address, size, name => this.pivotValueToTicks(name, this.robot.pivotMap[name].value)));
+  }
+
+  /**
+   * Read the leader or write the follower once, depending on the mode
+   */
+  async step(): Promise<boolean> {
+    if (!this.connected) {
+      console.error(`The serial bridge must be connected before calling this function`);
+      return false;
+    }
+    return this.options.mode === 'leader' ? this.readLeader() : this.writeFollower();
+  }
+
+  /**
+   * Keep stepping every `interval` milliseconds until stopped
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const loop = async () => {
+      if (!this.running) return;
+      const started = Date.now();
+      await this.step();
+      if (this.running) setTimeout(loop, Math.max(0, (this.options.interval ?? DEFAULT_INTERVAL) - (Date.now() - started)));
+    };
+    loop();
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  // a sync write of one value per servo
+  private syncWrite(address: number, size: number, value: (pivotName: string) => number): Uint8Array {
+    const data: { [id: number]: number[] } = {};
+    this.pivots.forEach((name, id) => data[id] = encodeValue(value(name), size));
+    return encodeSyncWrite(address, size, data);
+  }
+
+  private async send(bytes: Uint8Array): Promise<boolean> {
+    return (await this.request(bytes, 0)) !== null;
+  }
+
+  // send a packet and wait for a number of replies, one request at a time so the replies aren't mixed up
+  private request(bytes: Uint8Array, replies: number): Promise<FeetechPacket[] | null> {
+    const transaction = this.transactions.then(async () => {
+      if (!this.writer) return null;
+
+      this.received = [];
+      try {
+        await this.writer.write(bytes);
+      } catch (error) {
+        console.error(`Failed to write to the serial port: ${error}`);
+        return null;
+      }
+
+      const deadline = Date.now() + (this.options.timeout ?? DEFAULT_TIMEOUT);
+      while (this.received.length < replies && Date.now() < deadline) {
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, deadline - Date.now());
+          this.notifyReceived = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        this.notifyReceived = null;
+      }
+
+      if (this.received.length < replies) {
+        console.warn(`Only ${this.received.length} of ${replies} servos answered in time`);
+        return null;
+      }
+      return this.received.splice(0, replies);
+    });
+    this.transactions = transaction.catch(() => undefined);
+    return transaction;
+  }
+
+  private async receive(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> {
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        this.received.push(...this.packetReader.push(value));
+        this.notifyReceived?.();
+      }
+    } catch (error) {
+      if (this.connected) console.error(`Failed to read from the serial port: ${error}`);
+    }
+  }
+}
+
+/**
+ * A serial port with a VirtualServoBus on the other end, to run the bridge without hardware
+ */
+export class VirtualSerialPort implements SerialPortLike {
+  readonly bus: VirtualServoBus;
+
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+
+  private controller: ReadableStreamDefaultController<Uint8Array> | null;
+
+  constructor(bus: VirtualServoBus) {
+    this.bus = bus;
+    this.readable = null;
+    this.writable = null;
+    this.controller = null;
+  }
+
+  async open(_options: { baudRate: number }): Promise<void> {
+    if (this.readable) {
+      throw Error('The port is already open');
+    }
+
+    this.readable = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller;
+      },
+    });
+    this.writable = new WritableStream<Uint8Array>({
+      write: chunk => {
+        const reply = this.bus.handle(chunk);
+        if (reply.length > 0) this.controller?.enqueue(reply);
+      },
+    });
+  }
+
+  async close(): Promise<void> {
+    try {
+      this.controller?.close();
+    } catch {
+      // already closed by cancelling the reader
+    }
+    this.controller = null;
+    this.readable = null;
+    this.writable = null;
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Position controlled servo model, so a joint lags behind its commanded position,
+ * is limited in speed and torque, and stalls when the load is too large.
+ * Positions are in the joint's units (radians), torques in N·m
+ */
+
+export interface ServoParameters {
+  kp: number;           // Proportional gain, N·m per radian of error
+  ki: number;           // Integral gain, N·m per radian second
+  kd: number;           // Derivative gain, N·m per radian per second
+  maxTorque: number;    // Stall torque, N·m
+  maxSpeed: number;     // No-load speed, radians per second
+  deadband: number;     // Errors smaller than this are ignored, radians
+  backlash: number;     // Total play between the motor and the output, radians
+  inertia: number;      // Inertia seen by the motor, kg·m²
+  damping: number;      // Viscous friction, N·m per radian per second
+  friction: number;     // Gearbox friction against being back-driven by the load, N·m
+  maxIntegral: number;  // Anti-windup limit of the integral term, radian seconds
+}
+
+/**
+ * Everything that changes while a servo runs, see ServoActuator.getState
+ */
+export interface ServoActuatorState {
+  target: number;
+  position: number;
+  motorPosition: number;
+  velocity: number;
+  torque: number;
+  load: number;
+  stalled: boolean;
+  integral: number;
+}
+
+const STS3215_TICKS_PER_REVOLUTION = 4096;
+
+/**
+ * Feetech STS3215 at 12V: 30 kg·cm stall torque, 0.222 s per 60 degrees,
+ * one encoder tick of deadband, and a 1:345 gearbox that is hard to back-drive
+ */
+export const STS3215_PARAMETERS: ServoParameters = {
+  kp: 20,
+  ki: 0,
+  kd: 0.5,
+  maxTorque: 2.94,
+  maxSpeed: (Math.PI / 3) / 0.222,
+  deadband: (2 * Math.PI) / STS3215_TICKS_PER_REVOLUTION,
+  backlash: 0.0044,
+  inertia: 0.002,
+  damping: 0.01,
+  friction: 1.5,
+  maxIntegral: 0.5,
+};
+
+// the position loop is stiff, so it's integrated in small steps regardless of the frame rate
+const MAX_STEP = 0.001;
+
+// below this speed a servo pushing at its torque limit counts as stalled, radians per second
+const STALL_SPEED = 0.05;
+
+export class ServoActuator {
+  readonly parameters: ServoParameters;
+
+  target: number;          // Commanded position
+  position: number;        // Output shaft position
+  motorPosition: number;   // Position before the backlash
+  velocity: number;        // Motor velocity
+  torque: number;          // Torque produced by the motor in the last step
+  load: number;            // External torque on the output in the last step
+  stalled: boolean;        // Pushing at the torque limit without moving
+
+  private integral: number;
+
+  /**
+   * @param position Initial position, also used as the initial target
+   * @param parameters Servo parameters, defaults to the STS3215
+   */
+  constructor(position: number, parameters: Partial<ServoParameters> = {}) {
+    this.parameters = { ...STS3215_PARAMETERS, ...parameters };
+    this.target = position;
+    this.position = position;
+    this.motorPosition = position;
+    this.velocity = 0;
+    this.torque = 0;
+    this.load = 0;
+    this.stalled = false;
+    this.integral = 0;
+  }
+
+  /**
+   * Set the commanded position
+   */
+  setTarget(target: number): void {
+    this.target = target;
+  }
+
+  /**
+   * Move the servo to a position instantly, at rest, e.g. when the robot is reset
+   */
+  reset(position: number): void {
+    this.target = position;
+    this.position = position;
+    this.motorPosition = position;
+    this.velocity = 0;
+    this.torque = 0;
+    this.integral = 0;
+    this.stalled = false;
+  }
+
+  getState(): ServoActuatorState {
+    const { target, position, motorPosition, velocity, torque, load, stalled, integral } = this;
+    return { target, position, motorPosition, velocity, torque, load, stalled, integral };
+  }
+
+  /**
+   * Continue from a state taken with getState
+   */
+  setState(state: ServoActuatorState): void {
+    this.target = state.target;
+    this.position = state.position;
+    this.motorPosition = state.motorPosition;
+    this.velocity = state.velocity;
+    this.torque = state.torque;
+    this.load = state.load;
+    this.stalled = state.stalled;
+    this.integral = state.integral;
+  }
+
+  /**
+   * Advance the servo
+   * @param delta Seconds to advance by
+   * @param load External torque acting on the output in N·m, or a function giving it for an output position
+   *   so stiff loads like contacts are followed within the step
+   * @returns The new output position
+   */
+  step(delta: number, load: number | ((position: number) => number) = 0): number {
+    const p = this.parameters;
+    const loadAt = typeof load === 'function' ? load : () => load;
+
+    let remaining = Math.max(0, delta);
+    while (remaining > 0) {
+      const dt = Math.min(MAX_STEP, remaining);
+      remaining -= dt;
+      const load = loadAt(this.position);
+      this.load = load;
+
+      // the encoder sits on the output shaft, so the loop sees the backlash
+      let error = this.target - this.position;
+      if (Math.abs(error) <= p.deadband) {
+        error = 0;
+      } else {
+        this.integral = Math.max(-p.maxIntegral, Math.min(p.maxIntegral, this.integral + error * dt));
+      }
+
+      const commandedTorque = p.kp * error + p.ki * this.integral - p.kd * this.velocity;
+      this.torque = Math.max(-p.maxTorque, Math.min(p.maxTorque, commandedTorque));
+
+      // the gearbox resists being back-driven, so friction only acts while the load turns the motor against its torque
+      const drivingTorque = this.torque + load - p.damping * this.velocity;
+      const motion = this.velocity !== 0 ? this.velocity : drivingTorque;
+      const backDriven = load !== 0 && Math.sign(load) !== Math.sign(this.torque) && Math.sign(motion) === Math.sign(load);
+      const friction = backDriven ? p.friction : 0;
+      if (this.velocity === 0 && Math.abs(drivingTorque) <= friction) {
+        // held still by the gearbox
+      } else {
+        const direction = this.velocity !== 0 ? Math.sign(this.velocity) : Math.sign(drivingTorque);
+        const velocity = this.velocity + ((drivingTorque - friction * direction) / p.inertia) * dt;
+
+        // friction can stop the motor but never push it backwards
+        this.velocity = Math.sign(velocity) !== direction ? 0 : Math.max(-p.maxSpeed, Math.min(p.maxSpeed, velocity));
+      }
+      this.motorPosition += this.velocity * dt;
+
+      // the output only follows once the motor has taken up the play in the gears
+      const play = p.backlash / 2;
+      this.position = Math.max(this.motorPosition - play, Math.min(this.motorPosition + play, this.position));
+
+      // pushing as hard as it can without making progress towards the target
+      const remainingError = this.target - this.position;
+      this.stalled = Math.abs(commandedTorque) >= p.maxTorque
+        && Math.abs(remainingError) > p.deadband
+        && this.velocity * Math.sign(remainingError) < STALL_SPEED;
+    }
+
+    return this.position;
+  }
+}
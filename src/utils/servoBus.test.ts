@@ -0,0 +1,110 @@
+/** @jest-environment jsdom */
+import { SO101 } from '../robots/SO101';
+import { LeKiwi } from '../robots/LeKiwi';
+import { TICKS_PER_REVOLUTION, jointValueToPosition } from '../robots/Calibration';
+import { loadRobot } from '../testing/loadRobot';
+import {
+  FeetechPacket,
+  FeetechPacketReader,
+  STS3215_CONTROL_TABLE,
+  STS3215_MODEL_NUMBER,
+  decodeValue,
+  encodePing,
+  encodeRead,
+  encodeSyncRead,
+  encodeValue,
+  encodeWrite,
+} from './feetech';
+import { VirtualServoBus, assignServoIds } from './servoBus';
+
+const send = (bus: VirtualServoBus, bytes: Uint8Array): FeetechPacket[] => new FeetechPacketReader().push(bus.handle(bytes));
+
+describe('VirtualServoBus', () => {
+  let robot: SO101;
+  let bus: VirtualServoBus;
+
+  beforeEach(async () => {
+    robot = await loadRobot(new SO101(), 'urdf/so101.urdf');
+    bus = new VirtualServoBus(robot);
+  });
+
+  it('puts a servo on the bus for each pivot', () => {
+    expect(bus.ids).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(bus.getPivotName(1)).toBe('shoulder_pan');
+    expect(bus.getPivotName(6)).toBe('gripper');
+    expect(bus.getPivotName(7)).toBeNull();
+  });
+
+  it('answers a PING and a READ of the model number', () => {
+    expect(send(bus, encodePing(2))).toEqual([{ id: 2, instruction: 0, parameters: [] }]);
+
+    const [address, size] = STS3215_CONTROL_TABLE.Model_Number;
+    const [reply] = send(bus, encodeRead(2, address, size));
+    expect(decodeValue(reply.parameters)).toBe(STS3215_MODEL_NUMBER);
+  });
+
+  it(`doesn't answer for an ID that isn't on the bus`, () => {
+    expect(bus.handle(encodePing(42))).toHaveLength(0);
+  });
+
+  it('answers a SYNC_READ of Present_Position with each pivot position in ID order', () => {
+    robot.setPivotValue('elbow_flex', 40, { immediate: true });
+    const [address, size] = STS3215_CONTROL_TABLE.Present_Position;
+    const replies = send(bus, encodeSyncRead(bus.ids, address, size));
+
+    expect(replies.map(reply => reply.id)).toEqual(bus.ids);
+    replies.forEach(reply => {
+      const pivot = robot.pivotMap[bus.getPivotName(reply.id)!];
+      expect(decodeValue(reply.parameters)).toBe(Math.round(jointValueToPosition(pivot.jointValue!)) % TICKS_PER_REVOLUTION);
+    });
+  });
+
+  it('moves the pivot to a Goal_Position write', () => {
+    const [address, size] = STS3215_CONTROL_TABLE.Goal_Position;
+    const joint = 2.5;
+    expect(bus.handle(encodeWrite(3, address, encodeValue(jointValueToPosition(joint), size)))).toHaveLength(6);
+
+    const expected = robot.convertPivotValue('elbow_flex', joint, 'rad', 'pivot');
+    expect(robot.pivotMap.elbow_flex.value).toBeCloseTo(expected, 1);
+  });
+
+  it(`ignores a Goal_Position write while the torque is disabled`, () => {
+    const before = robot.pivotMap.elbow_flex.value;
+    const [torqueAddress] = STS3215_CONTROL_TABLE.Torque_Enable;
+    const [goalAddress, size] = STS3215_CONTROL_TABLE.Goal_Position;
+    bus.handle(encodeWrite(3, torqueAddress, [0]));
+    bus.handle(encodeWrite(3, goalAddress, encodeValue(jointValueToPosition(2.5), size)));
+
+    expect(robot.pivotMap.elbow_flex.value).toBe(before);
+  });
+});
+
+describe('assignServoIds', () => {
+  it(`uses LeRobot's IDs whatever the pivot order`, () => {
+    const robot = new LeKiwi();
+    expect(Object.keys(robot.pivotMap)[0]).toBe('gripper');
+
+    const ids = assignServoIds(robot);
+    expect(ids.get(1)).toBe('shoulder_pan');
+    expect(ids.get(6)).toBe('gripper');
+  });
+
+  it('prefers the given IDs and leaves out pivots whose ID is taken', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const ids = assignServoIds(new SO101(), { gripper: 11, wrist_roll: 4 });
+    warn.mockRestore();
+
+    expect(ids.get(11)).toBe('gripper');
+    expect(ids.get(4)).toBe('wrist_flex');
+    expect(Array.from(ids.values())).not.toContain('wrist_roll');
+  });
+
+  it('leaves out pivots without an ID', () => {
+    const robot = new SO101();
+    robot.servoIds = { shoulder_pan: 1 };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(Array.from(assignServoIds(robot).entries())).toEqual([[1, 'shoulder_pan']]);
+    expect(warn).toHaveBeenCalledTimes(5);
+    warn.mockRestore();
+  });
+});
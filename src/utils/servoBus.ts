@@ -0,0 +1,268 @@
+import type { Robot } from '../robots/Robot';
+import { TICKS_PER_REVOLUTION, jointValueToPosition, positionToJointValue } from '../robots/Calibration';
+import {
+  BROADCAST_ID,
+  FeetechPacket,
+  FeetechPacketReader,
+  INSTRUCTIONS,
+  STATUS_ERRORS,
+  STS3215_CONTROL_TABLE,
+  STS3215_MODEL_NUMBER,
+  STS3215_SIGN_BITS,
+  decodeValue,
+  encodePacket,
+  encodeValue,
+} from './feetech';
+
+/**
+ * A bus of simulated STS3215 servos, one for each pivot of a robot, that answers Feetech packets
+ * the way the real arm does. Host software sends it the bytes it would write to the serial port
+ * and gets back the bytes the servos would reply with
+ */
+
+export interface VirtualServoBusOptions {
+  ids?: { [pivotName: string]: number };  // Servo ID of each pivot, see assignServoIds
+}
+
+interface VirtualServo {
+  pivot: string;
+  registers: Uint8Array;
+  encoderOffset: number;                   // Homing offset the URDF's zero position was calibrated with, in ticks
+  registered: [number, number[]] | null;   // Address and data of a REG_WRITE waiting for ACTION
+}
+
+// a servo moving slower than this reports that it isn't moving, ticks per second
+const MOVING_THRESHOLD = 1;
+
+// what an STS3215 reports besides its motion, 12V and room temperature
+const PRESENT_VOLTAGE = 120;
+const PRESENT_TEMPERATURE = 30;
+
+const register = (name: string) => STS3215_CONTROL_TABLE[name];
+
+/**
+ * Servo ID of each pivot: the given ID, then the calibration's, then the robot's default, see Robot.servoIds.
+ * Pivots without an ID, or whose ID is already taken, are left out
+ * @returns Pivot names keyed by servo ID
+ */
+export function assignServoIds(robot: Robot, ids: { [pivotName: string]: number } = {}): Map<number, string> {
+  const pivots = new Map<number, string>();
+  Object.entries(robot.pivotMap).forEach(([name, pivot]) => {
+    const id = ids[name] ?? pivot.calibration?.id ?? robot.servoIds[name];
+    if (id === undefined) {
+      console.warn(`Pivot '${name}' has no servo ID, it isn't on the bus`);
+      return;
+    }
+    if (pivots.has(id)) {
+      console.warn(`Servo ID ${id} is already used, pivot '${name}' isn't on the bus`);
+      return;
+    }
+    pivots.set(id, name);
+  });
+  return pivots;
+}
+
+export class VirtualServoBus {
+  readonly robot: Robot;
+
+  private servos: Map<number, VirtualServo>;
+  private reader: FeetechPacketReader;
+
+  constructor(robot: Robot, options: VirtualServoBusOptions = {}) {
+    this.robot = robot;
+    this.servos = new Map();
+    this.reader = new FeetechPacketReader();
+
+    assignServoIds(robot, options.ids).forEach((name, id) => {
+      const pivot = robot.pivotMap[name];
+      const encoderOffset = pivot.calibration?.homing_offset ?? 0;
+      const servo: VirtualServo = { pivot: name, registers: new Uint8Array(256), encoderOffset, registered: null };
+      this.servos.set(id, servo);
+
+      this.setRegister(servo, 'Firmware_Major_Version', 3);
+      this.setRegister(servo, 'Firmware_Minor_Version', 10);
+      this.setRegister(servo, 'Model_Number', STS3215_MODEL_NUMBER);
+      this.setRegister(servo, 'ID', id);
+      this.setRegister(servo, 'Response_Status_Level', 1);
+      this.setRegister(servo, 'Min_Position_Limit', pivot.calibration?.range_min ?? 0);
+      this.setRegister(servo, 'Max_Position_Limit', pivot.calibration?.range_max ?? TICKS_PER_REVOLUTION - 1);
+      this.setRegister(servo, 'Max_Torque_Limit', 1000);
+      this.setRegister(servo, 'Homing_Offset', encoderOffset);
+      this.setRegister(servo, 'Torque_Enable', 1);
+      this.setRegister(servo, 'Torque_Limit', 1000);
+    });
+  }
+
+  /**
+   * IDs of the servos on the bus, in ascending order
+   */
+  get ids(): number[] {
+    return Array.from(this.servos.keys()).sort((a, b) => a - b);
+  }
+
+  /**
+   * Pivot a servo drives
+   * @returns The pivot name, or null if no servo has the ID
+   */
+  getPivotName(id: number): string | null {
+    return this.servos.get(id)?.pivot ?? null;
+  }
+
+  /**
+   * Receive bytes sent by the host and execute every packet completed by them
+   * @returns Bytes of the servos' replies, empty if none answered
+   */
+  handle(bytes: ArrayLike<number>): Uint8Array {
+    const replies = this.reader.push(bytes).flatMap(packet => this.execute(packet));
+    const size = replies.reduce((total, reply) => total + reply.length, 0);
+    const result = new Uint8Array(size);
+    let offset = 0;
+    replies.forEach(reply => {
+      result.set(reply, offset);
+      offset += reply.length;
+    });
+    return result;
+  }
+
+  // the replies to a packet, like the real servos nothing answers while the robot isn't loaded
+  private execute(packet: FeetechPacket): Uint8Array[] {
+    if (this.robot.initializationStatus !== 'initialized') return [];
+
+    const broadcast = packet.id === BROADCAST_ID;
+    const targets = broadcast
+      ? this.ids.map(id => this.servos.get(id)!)
+      : this.servos.has(packet.id) ? [this.servos.get(packet.id)!] : [];
+    const [address, length] = packet.parameters;
+
+    switch (packet.instruction) {
+      case INSTRUCTIONS.PING:
+        return targets.map(servo => this.status(servo, []));
+
+      case INSTRUCTIONS.READ:
+        if (broadcast) return [];
+        return targets.map(servo => this.status(servo, this.readRegisters(servo, address, length)));
+
+      case INSTRUCTIONS.WRITE:
+      case INSTRUCTIONS.REG_WRITE:
+        return targets.flatMap(servo => {
+          const data = packet.parameters.slice(1);
+          if (packet.instruction === INSTRUCTIONS.WRITE) {
+            this.writeRegisters(servo, address, data);
+          } else {
+            servo.registered = [address, data];
+          }
+          return broadcast || this.getRegister(servo, 'Response_Status_Level') === 0 ? [] : [this.status(servo, [])];
+        });
+
+      case INSTRUCTIONS.ACTION:
+        targets.forEach(servo => {
+          if (servo.registered) this.writeRegisters(servo, ...servo.registered);
+          servo.registered = null;
+        });
+        return [];
+
+      case INSTRUCTIONS.SYNC_READ:
+        return packet.parameters.slice(2).flatMap(id => {
+          const servo = this.servos.get(id);
+          return servo ? [this.status(servo, this.readRegisters(servo, address, length))] : [];
+        });
+
+      case INSTRUCTIONS.SYNC_WRITE:
+        for (let i = 2; i + length < packet.parameters.length; i += length + 1) {
+          const servo = this.servos.get(packet.parameters[i]);
+          if (servo) this.writeRegisters(servo, address, packet.parameters.slice(i + 1, i + 1 + length));
+        }
+        return [];
+
+      default:
+        console.warn(`Feetech instruction 0x${packet.instruction.toString(16)} isn't supported, it's ignored`);
+        return [];
+    }
+  }
+
+  // a servo whose ID was just written answers with the new one
+  private status(servo: VirtualServo, parameters: number[]): Uint8Array {
+    const id = this.getRegister(servo, 'ID');
+    const error = this.robot.servos[servo.pivot]?.stalled ? STATUS_ERRORS.OVERLOAD : 0;
+    return encodePacket({ id, instruction: error, parameters });
+  }
+
+  private getRegister(servo: VirtualServo, name: string): number {
+    const [address, size] = register(name);
+    return decodeValue(servo.registers.subarray(address, address + size), STS3215_SIGN_BITS[name]);
+  }
+
+  private setRegister(servo: VirtualServo, name: string, value: number): void {
+    const [address, size] = register(name);
+    servo.registers.set(encodeValue(value, size, STS3215_SIGN_BITS[name]), address);
+  }
+
+  private readRegisters(servo: VirtualServo, address: number, length: number): number[] {
+    this.refresh(servo);
+    return Array.from(servo.registers.subarray(address, Math.min(address + length, servo.registers.length)));
+  }
+
+  private writeRegisters(servo: VirtualServo, address: number, data: number[]): void {
+    const torqueWasEnabled = this.getRegister(servo, 'Torque_Enable') === 1;
+    const id = this.getRegister(servo, 'ID');
+    servo.registers.set(data.slice(0, servo.registers.length - address), address);
+
+    const writes = (name: string) => {
+      const [start, size] = register(name);
+      return address < start + size && address + data.length > start;
+    };
+
+    if (writes('ID')) this.moveServo(servo, id);
+
+    // like the real servo, enabling the torque holds the position it's at
+    if (writes('Torque_Enable') && !torqueWasEnabled && this.getRegister(servo, 'Torque_Enable') === 1) {
+      this.refresh(servo);
+      this.setRegister(servo, 'Goal_Position', this.getRegister(servo, 'Present_Position'));
+    }
+
+    if (writes('Goal_Position') && this.getRegister(servo, 'Torque_Enable') === 1) {
+      let goal = this.getRegister(servo, 'Goal_Position');
+      const min = this.getRegister(servo, 'Min_Position_Limit');
+      const max = this.getRegister(servo, 'Max_Position_Limit');
+      if (min < max) goal = Math.min(Math.max(goal, min), max);
+      this.robot.setPivot(servo.pivot, positionToJointValue(this.toCalibratedPosition(servo, goal)), 'rad');
+    }
+  }
+
+  // re-key a servo whose ID register was written, unless another servo has the new ID
+  private moveServo(servo: VirtualServo, previousId: number): void {
+    const id = this.getRegister(servo, 'ID');
+    if (id === previousId) return;
+    if (this.servos.has(id) || id === BROADCAST_ID) {
+      console.warn(`Servo ID ${id} is already used, servo ${previousId} keeps its ID`);
+      this.setRegister(servo, 'ID', previousId);
+      return;
+    }
+    this.servos.delete(previousId);
+    this.servos.set(id, servo);
+  }
+
+  // position after the calibration's homing offset for a position after the servo's current homing offset
+  private toCalibratedPosition(servo: VirtualServo, position: number): number {
+    return position + this.getRegister(servo, 'Homing_Offset') - servo.encoderOffset;
+  }
+
+  // update the Present_ registers from the pivot's joint and servo model
+  private refresh(servo: VirtualServo): void {
+    const pivot = this.robot.pivotMap[servo.pivot];
+    const jointValue = pivot.jointValue ?? this.robot.pivotValueToJointValue(servo.pivot, pivot.value);
+    const reading = jointValueToPosition(jointValue) + servo.encoderOffset - this.getRegister(servo, 'Homing_Offset');
+    const position = ((Math.round(reading) % TICKS_PER_REVOLUTION) + TICKS_PER_REVOLUTION) % TICKS_PER_REVOLUTION;
+
+    const model = this.robot.servos[servo.pivot];
+    const velocity = model ? (model.velocity * TICKS_PER_REVOLUTION) / (2 * Math.PI) : 0;
+    const load = model ? (model.load / model.parameters.maxTorque) * 1000 : 0;
+
+    this.setRegister(servo, 'Present_Position', position);
+    this.setRegister(servo, 'Present_Velocity', velocity);
+    this.setRegister(servo, 'Present_Load', load);
+    this.setRegister(servo, 'Present_Voltage', PRESENT_VOLTAGE);
+    this.setRegister(servo, 'Present_Temperature', PRESENT_TEMPERATURE);
+    this.setRegister(servo, 'Moving', Math.abs(velocity) >= MOVING_THRESHOLD ? 1 : 0);
+  }
+}
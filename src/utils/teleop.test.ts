@@ -0,0 +1,85 @@
+/** @jest-environment jsdom */
+import { SO101 } from '../robots/SO101';
+import { loadRobot } from '../testing/loadRobot';
+import { TeleopLink } from './teleop';
+
+describe('TeleopLink', () => {
+  let leader: SO101;
+  let follower: SO101;
+
+  beforeEach(async () => {
+    leader = await loadRobot(new SO101(), 'urdf/so101.urdf');
+    follower = await loadRobot(new SO101(), 'urdf/so101.urdf');
+  });
+
+  it('sends the leader pivots to the same follower pivots', () => {
+    const link = new TeleopLink(leader, follower);
+    expect(link.mappings.map(mapping => mapping.leader)).toEqual(Object.keys(leader.pivotMap));
+
+    leader.setPivotValues({ shoulder_pan: 30, elbow_flex: -40, gripper: 80 }, { immediate: true });
+    link.update(0.02);
+
+    expect(follower.pivotMap.shoulder_pan.value).toBeCloseTo(30);
+    expect(follower.pivotMap.elbow_flex.value).toBeCloseTo(-40);
+    expect(follower.pivotMap.gripper.value).toBeCloseTo(80);
+  });
+
+  it('inverts, scales and offsets around the middle of the leader range', () => {
+    const link = new TeleopLink(leader, follower, {
+      pivots: { shoulder_pan: { follower: 'wrist_roll', invert: true, scale: 0.5, offset: 10 } },
+    });
+    const [mapping] = link.mappings;
+    expect(mapping).toMatchObject({ leader: 'shoulder_pan', follower: 'wrist_roll' });
+    expect(link.mapValue(mapping, 0)).toBeCloseTo(10);
+    expect(link.mapValue(mapping, 40)).toBeCloseTo(-10);
+
+    leader.setPivotValue('shoulder_pan', 40, { immediate: true });
+    link.update(0.02);
+    expect(follower.pivotMap.wrist_roll.value).toBeCloseTo(-10);
+    expect(follower.pivotMap.shoulder_pan.value).toBe(0);
+  });
+
+  it('commands the follower with the reading from the latency ago', () => {
+    const link = new TeleopLink(leader, follower, { pivots: { elbow_flex: {} }, latency: 0.1 });
+
+    // read at 0.05 and 0.1 s, sent at 0.15 and 0.2 s
+    leader.setPivotValue('elbow_flex', 50, { immediate: true });
+    link.update(0.05);
+    leader.setPivotValue('elbow_flex', -50, { immediate: true });
+    link.update(0.05);
+    expect(follower.pivotMap.elbow_flex.value).toBe(0);
+
+    link.update(0.05);
+    expect(follower.pivotMap.elbow_flex.value).toBeCloseTo(50);
+    link.update(0.05);
+    expect(follower.pivotMap.elbow_flex.value).toBeCloseTo(-50);
+  });
+
+  it('limits how fast the follower command changes', () => {
+    const link = new TeleopLink(leader, follower, { pivots: { elbow_flex: {} }, maxVelocity: 100 });
+
+    leader.setPivotValue('elbow_flex', 60, { immediate: true });
+    link.update(0.1);
+    expect(follower.pivotMap.elbow_flex.value).toBeCloseTo(10);
+    link.update(0.1);
+    expect(follower.pivotMap.elbow_flex.value).toBeCloseTo(20);
+  });
+
+  it(`skips pivots either robot doesn't have`, () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const link = new TeleopLink(leader, follower, { pivots: { tail: {}, gripper: { follower: 'claw' }, elbow_flex: {} } });
+
+    expect(link.mappings.map(mapping => mapping.leader)).toEqual(['elbow_flex']);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it(`doesn't move the follower while inactive`, () => {
+    const link = new TeleopLink(leader, follower);
+    link.active = false;
+
+    leader.setPivotValue('elbow_flex', 50, { immediate: true });
+    link.update(0.02);
+    expect(follower.pivotMap.elbow_flex.value).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+import type { PivotUnit, Robot } from '../robots/Robot';
+import { stepTowards } from './jointLimits';
+
+/**
+ * Leader-follower teleoperation between two robots, like LeRobot's teleoperate loop:
+ * every update the leader's pivot positions are read and sent to the follower's pivots
+ */
+
+export interface TeleopPivotMapping {
+  follower?: string;     // Follower pivot driven by this leader pivot, defaults to the same name
+  invert?: boolean;      // Mirror the value around the middle of the leader pivot's range
+  scale?: number;        // Multiplies the distance from the middle of the leader pivot's range, defaults to 1
+  offset?: number;       // Added after scaling, in the link's unit
+  maxVelocity?: number;  // Fastest the follower's command may change, in the link's unit per second
+}
+
+export interface TeleopOptions {
+  pivots?: { [leaderPivot: string]: TeleopPivotMapping };  // Defaults to every pivot both robots have
+  unit?: PivotUnit;      // Unit the values are read, mapped and sent in, defaults to 'pivot'
+  latency?: number;      // Seconds between reading the leader and commanding the follower
+  maxVelocity?: number;  // Rate limit of pivots without their own, in the link's unit per second
+}
+
+/**
+ * A leader pivot and the follower pivot it drives, both found on their robots
+ */
+export interface ResolvedTeleopMapping extends TeleopPivotMapping {
+  leader: string;
+  follower: string;
+}
+
+export class TeleopLink {
+  readonly leader: Robot;
+  readonly follower: Robot;
+  readonly options: TeleopOptions;
+  readonly mappings: ResolvedTeleopMapping[];
+
+  active: boolean;  // Updates do nothing while false
+
+  private elapsed: number;
+  private samples: { time: number, values: number[] }[];  // Leader readings waiting out the latency
+  private commanded: (number | undefined)[];               // Last value sent for each mapping
+
+  constructor(leader: Robot, follower: Robot, options: TeleopOptions = {}) {
+    this.leader = leader;
+    this.follower = follower;
+    this.options = options;
+    this.active = true;
+    this.elapsed = 0;
+    this.samples = [];
+
+    const pivots: { [leaderPivot: string]: TeleopPivotMapping } = options.pivots
+      ?? Object.fromEntries(Object.keys(leader.pivotMap).filter(name => follower.pivotMap[name]).map(name => [name, {}]));
+    this.mappings = [];
+    Object.entries(pivots).forEach(([name, mapping]) => {
+      const followerName = mapping.follower ?? name;
+      if (!leader.pivotMap[name]) {
+        console.warn(`Leader pivot '${name}' not found, it isn't teleoperated`);
+      } else if (!follower.pivotMap[followerName]) {
+        console.warn(`Follower pivot '${followerName}' not found, leader pivot '${name}' isn't teleoperated`);
+      } else {
+        this.mappings.push({ ...mapping, leader: name, follower: followerName });
+      }
+    });
+    this.commanded = this.mappings.map(() => undefined);
+  }
+
+  private get unit(): PivotUnit {
+    return this.options.unit ?? 'pivot';
+  }
+
+  // where the leader's pivot actually is, which lags behind its command for servos and dynamic links
+  private readLeader(name: string): number {
+    const pivot = this.leader.pivotMap[name];
+    return pivot.jointValue !== undefined
+      ? this.leader.convertPivotValue(name, pivot.jointValue, 'rad', this.unit)
+      : this.leader.convertPivotValue(name, pivot.value, 'pivot', this.unit);
+  }
+
+  /**
+   * Value the follower is commanded to for a leader value, after inversion, scaling and offset
+   */
+  mapValue(mapping: ResolvedTeleopMapping, value: number): number {
+    const pivot = this.leader.pivotMap[mapping.leader];
+    const ends = [pivot.lower, pivot.upper].map(end => this.leader.convertPivotValue(mapping.leader, end, 'pivot', this.unit));
+    const middle = (ends[0] + ends[1]) / 2;
+    const direction = mapping.invert ? -1 : 1;
+    return middle + direction * (mapping.scale ?? 1) * (value - middle) + (mapping.offset ?? 0);
+  }
+
+  /**
+   * Read the leader and command the follower with the reading from `latency` seconds ago
+   * @param delta Seconds since the last update
+   */
+  update(delta: number): void {
+    // the leader doesn't have to be loaded, its pivots can be set directly
+    if (!this.active || !this.follower.robot) return;
+
+    this.elapsed += delta;
+    this.samples.push({ time: this.elapsed, values: this.mappings.map(mapping => this.readLeader(mapping.leader)) });
+
+    // the newest reading that's old enough, older ones are never needed again
+    const latency = this.options.latency ?? 0;
+    let sample: { time: number, values: number[] } | undefined;
+    while (this.samples.length > 0 && this.samples[0].time <= this.elapsed - latency + 1e-9) {
+      sample = this.samples.shift();
+    }
+    if (!sample) return;
+
+    this.mappings.forEach((mapping, index) => {
+      let target = this.mapValue(mapping, sample!.values[index]);
+      const maxVelocity = mapping.maxVelocity ?? this.options.maxVelocity;
+      const previous = this.commanded[index] ?? this.follower.getPivot(mapping.follower, this.unit);
+      if (maxVelocity !== undefined && previous !== null) {
+        target = stepTowards(previous, target, maxVelocity, delta);
+      }
+      this.commanded[index] = target;
+      this.follower.setPivot(mapping.follower, target, this.unit);
+    });
+  }
+
+  /**
+   * Forget pending readings and the rate limiter's state, e.g. after the follower was moved by something else
+   */
+  reset(): void {
+    this.elapsed = 0;
+    this.samples = [];
+    this.commanded = this.mappings.map(() => undefined);
+  }
+}
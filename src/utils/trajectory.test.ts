@@ -0,0 +1,87 @@
+import { Trajectory, TrajectoryProfile, createSynchronizedTrajectories, minimumTrapezoidalDuration } from './trajectory';
+
+const LIMITS = { maxVelocity: 2, maxAcceleration: 4 };
+const PROFILES: TrajectoryProfile[] = ['trapezoidal', 'quintic'];
+
+// largest speed and acceleration along the trajectory, from finite differences
+const peaks = (trajectory: Trajectory, steps = 2000) => {
+  const dt = trajectory.duration / steps;
+  const values = Array.from({ length: steps + 1 }, (_, i) => trajectory.sample(i * dt));
+  const velocities = values.slice(1).map((value, i) => (value - values[i]) / dt);
+  const accelerations = velocities.slice(1).map((velocity, i) => (velocity - velocities[i]) / dt);
+  return {
+    velocity: Math.max(...velocities.map(Math.abs)),
+    acceleration: Math.max(...accelerations.map(Math.abs)),
+  };
+};
+
+describe('Trajectory', () => {
+  it.each(PROFILES)('starts and ends at rest on the given values (%s)', profile => {
+    const trajectory = new Trajectory(-1, 3, 2, profile);
+
+    expect(trajectory.sample(0)).toBe(-1);
+    expect(trajectory.sample(2)).toBe(3);
+    expect(trajectory.sample(5)).toBe(3);
+    expect(trajectory.isFinished(1.99)).toBe(false);
+    expect(trajectory.isFinished(2)).toBe(true);
+
+    // the value barely moves right after the start and right before the end
+    expect(trajectory.sample(1e-4) - trajectory.sample(0)).toBeLessThan(1e-5);
+    expect(trajectory.sample(2) - trajectory.sample(2 - 1e-4)).toBeLessThan(1e-5);
+  });
+
+  it.each(PROFILES)('moves towards the end without overshooting (%s)', profile => {
+    const trajectory = new Trajectory(3, -1, 2, profile);
+    let previous = trajectory.sample(0);
+    for (let t = 0.01; t <= 2; t += 0.01) {
+      const value = trajectory.sample(t);
+      expect(value).toBeLessThanOrEqual(previous);
+      expect(value).toBeGreaterThanOrEqual(-1);
+      previous = value;
+    }
+  });
+
+  it('jumps to the end of a trajectory without duration', () => {
+    const trajectory = new Trajectory(0, 1, 0);
+    expect(trajectory.sample(0)).toBe(1);
+    expect(trajectory.isFinished(0)).toBe(true);
+  });
+});
+
+describe('createSynchronizedTrajectories', () => {
+  it.each(PROFILES)('stays within the velocity and acceleration limits (%s)', profile => {
+    // a long move that cruises, and one too short to reach the top speed
+    [5, 0.3].forEach(distance => {
+      const { axis } = createSynchronizedTrajectories({ axis: 1 }, { axis: 1 + distance }, LIMITS, profile);
+      const { velocity, acceleration } = peaks(axis);
+
+      expect(velocity).toBeLessThanOrEqual(LIMITS.maxVelocity * 1.001);
+      expect(acceleration).toBeLessThanOrEqual(LIMITS.maxAcceleration * 1.01);
+      expect(axis.sample(axis.duration)).toBe(1 + distance);
+    });
+  });
+
+  it('takes no longer than the limits require', () => {
+    const { axis } = createSynchronizedTrajectories({ axis: 0 }, { axis: 5 }, LIMITS);
+    expect(axis.duration).toBeCloseTo(minimumTrapezoidalDuration(5, LIMITS.maxVelocity, LIMITS.maxAcceleration));
+    expect(peaks(axis).velocity).toBeCloseTo(LIMITS.maxVelocity, 2);
+  });
+
+  it.each(PROFILES)('finishes every axis together, at the pace of the slowest (%s)', profile => {
+    const trajectories = createSynchronizedTrajectories({ near: 0, far: 0, back: 2 }, { near: 0.5, far: 4, back: 1 }, LIMITS, profile);
+    const { duration } = trajectories.far;
+
+    Object.values(trajectories).forEach(trajectory => {
+      expect(trajectory.duration).toBe(duration);
+      expect(peaks(trajectory).velocity).toBeLessThanOrEqual(LIMITS.maxVelocity * 1.001);
+    });
+    expect(trajectories.near.sample(duration)).toBe(0.5);
+    expect(trajectories.back.sample(duration)).toBe(1);
+  });
+
+  it('uses the given duration instead of the limits', () => {
+    const { axis } = createSynchronizedTrajectories({ axis: 0 }, { axis: 1 }, { ...LIMITS, duration: 3 });
+    expect(axis.duration).toBe(3);
+    expect(axis.sample(1.5)).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Time-parameterized single-axis trajectories used to move pivots smoothly
+ * instead of teleporting them to their target values
+ */
+
+export type TrajectoryProfile = 'trapezoidal' | 'quintic';
+
+export interface TrajectoryLimits {
+  duration?: number;         // Total duration in seconds, overrides the velocity/acceleration limits
+  maxVelocity?: number;      // Maximum velocity in units per second
+  maxAcceleration?: number;  // Maximum acceleration in units per second squared
+}
+
+// peak velocity and acceleration of the quintic blend 10s^3 - 15s^4 + 6s^5
+// for a unit distance travelled in unit time
+const QUINTIC_PEAK_VELOCITY = 1.875;
+const QUINTIC_PEAK_ACCELERATION = 5.7735;
+
+/**
+ * Minimum duration of a trapezoidal (or triangular, for short moves) velocity profile
+ * @param distance Absolute distance to travel
+ * @param maxVelocity Maximum velocity
+ * @param maxAcceleration Maximum acceleration
+ * @returns Duration in seconds
+ */
+export function minimumTrapezoidalDuration(distance: number, maxVelocity: number, maxAcceleration: number): number {
+  if (distance <= 0) return 0;
+
+  // the move is too short to reach the maximum velocity, so the profile is a triangle
+  if (distance < (maxVelocity * maxVelocity) / maxAcceleration) {
+    return 2 * Math.sqrt(distance / maxAcceleration);
+  }
+
+  return distance / maxVelocity + maxVelocity / maxAcceleration;
+}
+
+/**
+ * Minimum duration of a quintic polynomial profile
+ * @param distance Absolute distance to travel
+ * @param maxVelocity Maximum velocity
+ * @param maxAcceleration Maximum acceleration
+ * @returns Duration in seconds
+ */
+export function minimumQuinticDuration(distance: number, maxVelocity: number, maxAcceleration: number): number {
+  if (distance <= 0) return 0;
+
+  return Math.max(
+    (QUINTIC_PEAK_VELOCITY * distance) / maxVelocity,
+    Math.sqrt((QUINTIC_PEAK_ACCELERATION * distance) / maxAcceleration)
+  );
+}
+
+/**
+ * A trajectory from a start value to an end value over a fixed duration,
+ * with zero velocity at both ends
+ */
+export class Trajectory {
+  readonly start: number;
+  readonly end: number;
+  readonly duration: number;
+  readonly profile: TrajectoryProfile;
+
+  // time spent accelerating (and decelerating) for the trapezoidal profile
+  private accelerationTime: number;
+
+  /**
+   * @param start Start value
+   * @param end End value
+   * @param duration Duration in seconds
+   * @param profile Velocity profile shape
+   * @param maxAcceleration Acceleration limit used to size the ramps of a trapezoidal profile
+   */
+  constructor(start: number, end: number, duration: number, profile: TrajectoryProfile = 'trapezoidal', maxAcceleration?: number) {
+    this.start = start;
+    this.end = end;
+    this.duration = Math.max(0, duration);
+    this.profile = profile;
+
+    const distance = Math.abs(end - start);
+    const T = this.duration;
+
+    // default to spending a third of the move on each ramp
+    let accelerationTime = T / 3;
+    if (maxAcceleration && maxAcceleration > 0 && T > 0) {
+      // solve d = a * ta * (T - ta) for the shortest ramp that fits the acceleration limit
+      const discriminant = (T * T) / 4 - distance / maxAcceleration;
+      accelerationTime = discriminant >= 0 ? T / 2 - Math.sqrt(discriminant) : T / 2;
+    }
+    this.accelerationTime = Math.min(Math.max(accelerationTime, 0), T / 2);
+  }
+
+  /**
+   * Fraction of the distance covered at normalized time s (0 to 1)
+   */
+  private blend(s: number): number {
+    if (s <= 0) return 0;
+    if (s >= 1) return 1;
+
+    if (this.profile === 'quintic') {
+      return s * s * s * (10 + s * (-15 + 6 * s));
+    }
+
+    const T = this.duration;
+    const ta = this.accelerationTime;
+    const t = s * T;
+
+    // a pure cruise (no ramps) degenerates to linear interpolation
+    if (ta <= 0) return s;
+
+    // peak velocity for a unit distance
+    const v = 1 / (T - ta);
+    const a = v / ta;
+
+    if (t < ta) {
+      return 0.5 * a * t * t;
+    }
+
+    if (t <= T - ta) {
+      return 0.5 * a * ta * ta + v * (t - ta);
+    }
+
+    const remaining = T - t;
+    return 1 - 0.5 * a * remaining * remaining;
+  }
+
+  /**
+   * Value of the trajectory at the given time
+   * @param elapsed Seconds since the start of the trajectory
+   */
+  sample(elapsed: number): number {
+    if (this.duration === 0) return this.end;
+    return this.start + (this.end - this.start) * this.blend(elapsed / this.duration);
+  }
+
+  /**
+   * Whether the trajectory has reached its end value at the given time
+   * @param elapsed Seconds since the start of the trajectory
+   */
+  isFinished(elapsed: number): boolean {
+    return elapsed >= this.duration;
+  }
+}
+
+/**
+ * Creates one trajectory per axis, all synchronised to finish at the same time
+ * (the duration needed by the slowest axis, or the requested duration)
+ * @param start Start values keyed by axis name
+ * @param end Target values keyed by axis name
+ * @param limits Duration or velocity/acceleration limits
+ * @param profile Velocity profile shape
+ * @returns Trajectories keyed by axis name
+ */
+export function createSynchronizedTrajectories(
+  start: { [key: string]: number },
+  end: { [key: string]: number },
+  limits: Required<Pick<TrajectoryLimits, 'maxVelocity' | 'maxAcceleration'>> & Pick<TrajectoryLimits, 'duration'>,
+  profile: TrajectoryProfile = 'trapezoidal'
+): { [key: string]: Trajectory } {
+  let duration = limits.duration;
+
+  if (duration === undefined) {
+    duration = 0;
+    for (const key of Object.keys(end)) {
+      const distance = Math.abs(end[key] - start[key]);
+      const minimumDuration = profile === 'quintic'
+        ? minimumQuinticDuration(distance, limits.maxVelocity, limits.maxAcceleration)
+        : minimumTrapezoidalDuration(distance, limits.maxVelocity, limits.maxAcceleration);
+      duration = Math.max(duration, minimumDuration);
+    }
+  }
+
+  const trajectories: { [key: string]: Trajectory } = {};
+  for (const key of Object.keys(end)) {
+    trajectories[key] = new Trajectory(start[key], end[key], duration, profile, limits.maxAcceleration);
+  }
+
+  return trajectories;
+}
@@ -0,0 +1,87 @@
+/** @jest-environment jsdom */
+import * as THREE from 'three';
+import URDFLoader, { URDFLink } from 'urdf-loader';
+import { CompoundShape, computeLinkCollisionShapes, linkCollisionMeshesLoaded } from './urdfGeometry';
+
+const URDF = `<robot name="shapes">
+  <link name="base">
+    <collision><geometry><box size="0.1 0.2 0.3"/></geometry><origin xyz="0 0 1" rpy="0 0 1.5707963"/></collision>
+    <collision><geometry><box size="0.1 0.1 0.1"/></geometry><origin rpy="0 0 0.7853982"/></collision>
+    <collision><geometry><cylinder radius="0.05" length="0.4"/></geometry><origin xyz="1 0 0" rpy="0.7853982 0 0"/></collision>
+    <collision><geometry><mesh filename="part.stl" scale="2 2 2"/></geometry><origin xyz="0 1 0"/></collision>
+  </link>
+</robot>`;
+
+// the hull's points, back in the link's frame
+const hullPoints = (shape: CompoundShape): THREE.Vector3[] => {
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i < shape.points!.length; i += 3) {
+    points.push(new THREE.Vector3(shape.points![i] + shape.x, shape.points![i + 1] + shape.y, shape.points![i + 2] + shape.z));
+  }
+  return points;
+};
+
+describe('computeLinkCollisionShapes', () => {
+  let meshLoaded: (mesh: THREE.Object3D) => void;
+  let link: URDFLink;
+
+  beforeEach(() => {
+    const loader = new URDFLoader();
+    loader.parseCollision = true;
+    loader.loadMeshCb = (path, manager, done) => { meshLoaded = done; };
+    link = loader.parse(URDF).links.base;
+  });
+
+  const loadMesh = () => meshLoaded(new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.1, 0.1)));
+
+  it('waits for the collision mesh to load', () => {
+    expect(linkCollisionMeshesLoaded(link)).toBe(false);
+    loadMesh();
+    expect(linkCollisionMeshesLoaded(link)).toBe(true);
+  });
+
+  it('keeps boxes turned by 90 degrees as boxes', () => {
+    loadMesh();
+    const [box] = computeLinkCollisionShapes(link);
+    expect(box).toMatchObject({ shape: 'box', x: 0, y: 0, z: 1 });
+    expect(box.width).toBeCloseTo(0.2);
+    expect(box.height).toBeCloseTo(0.1);
+    expect(box.depth).toBeCloseTo(0.3);
+  });
+
+  it('turns other boxes and cylinders into hulls of their corners and rims', () => {
+    loadMesh();
+    const [, box, cylinder] = computeLinkCollisionShapes(link);
+
+    expect(box.shape).toBe('hull');
+    const corners = hullPoints(box);
+    expect(corners).toHaveLength(8);
+    corners.forEach(corner => expect(Math.hypot(corner.x, corner.y)).toBeCloseTo(Math.SQRT2 * 0.05));
+
+    expect(cylinder).toMatchObject({ shape: 'hull', x: 1 });
+    const direction = new THREE.Vector3(0, -Math.SQRT1_2, Math.SQRT1_2);
+    hullPoints(cylinder).forEach(point => {
+      const offset = point.sub(new THREE.Vector3(1, 0, 0));
+      const along = offset.dot(direction);
+      expect(Math.abs(along)).toBeCloseTo(0.2);
+      expect(offset.sub(direction.clone().multiplyScalar(along)).length()).toBeCloseTo(0.05);
+    });
+  });
+
+  it(`uses the hull of the collision mesh's vertices, placed and scaled like the mesh`, () => {
+    loadMesh();
+    const mesh = computeLinkCollisionShapes(link)[3];
+
+    expect(mesh).toMatchObject({ shape: 'hull', x: 0, z: 0 });
+    expect(mesh.y).toBeCloseTo(1);
+    const bounds = new THREE.Box3().setFromPoints(hullPoints(mesh));
+    expect(bounds.getSize(new THREE.Vector3()).toArray().map(size => size.toFixed(3))).toEqual(['0.200', '0.200', '0.200']);
+  });
+
+  it('skips a collision mesh that never loaded', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(computeLinkCollisionShapes(link).map(shape => shape.shape)).toEqual(['box', 'hull', 'hull']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`'part.stl'`));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,351 @@
+import { URDFLink } from 'urdf-loader';
+import * as THREE from 'three';
+import { ConvexHull } from 'three/examples/jsm/math/ConvexHull.js';
+
+/**
+ * Helpers for deriving physics shapes and mass properties from URDF links
+ */
+
+// the visual groups that belong to the link itself, not to links further down the chain
+function getOwnVisuals(link: URDFLink): THREE.Object3D[] {
+  return link.children.filter(child => (child as any).isURDFVisual);
+}
+
+/**
+ * Whether the URDF declares any visual geometry for the link
+ * @param link The URDF link
+ */
+export function linkHasVisualGeometry(link: URDFLink): boolean {
+  if (!link.urdfNode) return getOwnVisuals(link).length > 0;
+  return Array.from(link.urdfNode.children).some(node => node.nodeName.toLowerCase() === 'visual');
+}
+
+/**
+ * Whether every visual of the link has received its meshes. Mesh files are loaded asynchronously
+ * by urdf-loader, primitives (box, cylinder, sphere) are available straight away
+ * @param link The URDF link
+ */
+export function linkMeshesLoaded(link: URDFLink): boolean {
+  const visuals = getOwnVisuals(link);
+  if (visuals.length === 0) return false;
+
+  return visuals.every(visual => {
+    let found = false;
+    visual.traverse(child => {
+      if ((child as THREE.Mesh).isMesh) found = true;
+    });
+    return found;
+  });
+}
+
+/**
+ * Axis-aligned bounds of the link's own visual meshes, in the link's frame and URDF units.
+ * Meshes of child links are not included
+ * @param link The URDF link
+ * @returns The bounds, or null if the link has no meshes (yet)
+ */
+export function computeLinkGeometryBounds(link: URDFLink): THREE.Box3 | null {
+  link.updateWorldMatrix(true, true);
+  const linkInverse = link.matrixWorld.clone().invert();
+
+  const bounds = new THREE.Box3();
+  const meshBounds = new THREE.Box3();
+  const relative = new THREE.Matrix4();
+
+  for (const visual of getOwnVisuals(link)) {
+    visual.traverse(child => {
+      const mesh = child as THREE.Mesh;
+      if (!mesh.isMesh || !mesh.geometry) return;
+
+      if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+      relative.multiplyMatrices(linkInverse, mesh.matrixWorld);
+      meshBounds.copy(mesh.geometry.boundingBox!).applyMatrix4(relative);
+      bounds.union(meshBounds);
+    });
+  }
+
+  return bounds.isEmpty() ? null : bounds;
+}
+
+/**
+ * A child shape of a link's compound body, offsets and sizes are in the link's frame and URDF units
+ */
+export interface CompoundShape {
+  shape: 'box' | 'cylinder' | 'sphere' | 'hull';
+  width?: number;
+  height?: number;
+  depth?: number;
+  radius?: number;
+  axis?: 'x' | 'y' | 'z';
+  points?: number[]; // x, y, z of each hull corner, relative to the shape's offset
+  x: number;
+  y: number;
+  z: number;
+}
+
+// shapes thinner than this confuse the physics engine
+const MIN_SHAPE_SIZE = 0.001;
+
+// how far a direction may be from a link axis to still count as lined up with it
+const AXIS_ALIGNED_TOLERANCE = 1e-3;
+
+// sides of the prism that stands in for a cylinder that isn't lined up with a link axis
+const CYLINDER_HULL_SIDES = 16;
+
+function parseTuple(value: string | null | undefined, fallback: [number, number, number]): [number, number, number] {
+  if (!value) return fallback;
+  const numbers = value.trim().split(/\s+/).map(parseFloat);
+  if (numbers.length !== 3 || numbers.some(Number.isNaN)) return fallback;
+  return numbers as [number, number, number];
+}
+
+function childElement(element: Element, name: string): Element | null {
+  return Array.from(element.children).find(child => child.nodeName.toLowerCase() === name) ?? null;
+}
+
+function getCollisionElements(link: URDFLink): Element[] {
+  if (!link.urdfNode) return [];
+  return Array.from(link.urdfNode.children).filter(node => node.nodeName.toLowerCase() === 'collision');
+}
+
+// the <geometry> child element (box, cylinder, sphere or mesh) of a <visual> or <collision>
+function getGeometryElement(element: Element): Element | null {
+  const geometry = childElement(element, 'geometry');
+  return geometry?.children[0] ?? null;
+}
+
+// transform of a <visual> or <collision> relative to its link, from its <origin>
+function getOriginMatrix(element: Element): THREE.Matrix4 {
+  const origin = childElement(element, 'origin');
+  const [x, y, z] = parseTuple(origin?.getAttribute('xyz'), [0, 0, 0]);
+  const [roll, pitch, yaw] = parseTuple(origin?.getAttribute('rpy'), [0, 0, 0]);
+
+  // URDF rpy is applied as fixed-axis roll, pitch then yaw, the same as urdf-loader
+  const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(roll, pitch, yaw, 'ZYX'));
+  return new THREE.Matrix4().compose(new THREE.Vector3(x, y, z), quaternion, new THREE.Vector3(1, 1, 1));
+}
+
+/**
+ * Whether the URDF declares any collision geometry for the link
+ * @param link The URDF link
+ */
+export function linkHasCollisionGeometry(link: URDFLink): boolean {
+  return getCollisionElements(link).length > 0;
+}
+
+// the collider group loaded for a <collision> element, urdf-loader only adds them with parseCollision
+function getCollider(link: URDFLink, collision: Element): THREE.Object3D | null {
+  return link.children.find(child => (child as any).isURDFCollider && (child as any).urdfNode === collision) ?? null;
+}
+
+/**
+ * Whether the link's collision meshes have loaded. Mesh files are loaded asynchronously like the visuals,
+ * a mesh without a collider (the URDF was loaded without parseCollision) counts as ready, it is skipped by computeLinkCollisionShapes
+ * @param link The URDF link
+ */
+export function linkCollisionMeshesLoaded(link: URDFLink): boolean {
+  return getCollisionElements(link).every(collision => {
+    if (getGeometryElement(collision)?.nodeName.toLowerCase() !== 'mesh') return true;
+
+    const collider = getCollider(link, collision);
+    let found = false;
+    collider?.traverse(child => {
+      if ((child as THREE.Mesh).isMesh) found = true;
+    });
+    return !collider || found;
+  });
+}
+
+// the vertices of the collider's meshes, in the link's frame
+function getColliderPoints(link: URDFLink, collider: THREE.Object3D): THREE.Vector3[] {
+  link.updateWorldMatrix(true, true);
+  const linkInverse = link.matrixWorld.clone().invert();
+  const relative = new THREE.Matrix4();
+  const points: THREE.Vector3[] = [];
+
+  collider.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    const position = mesh.isMesh ? mesh.geometry?.getAttribute('position') : undefined;
+    if (!position) return;
+
+    relative.multiplyMatrices(linkInverse, mesh.matrixWorld);
+    for (let i = 0; i < position.count; i++) {
+      points.push(new THREE.Vector3().fromBufferAttribute(position, i).applyMatrix4(relative));
+    }
+  });
+  return points;
+}
+
+// convex hull around points in the link's frame, its offset is the center of their bounds and its points are relative to that
+function hullShape(points: THREE.Vector3[]): CompoundShape {
+  // only the hull's corners are kept, meshes have far more vertices than the physics engine wants
+  const corners = new Set<THREE.Vector3>();
+  new ConvexHull().setFromPoints(points).faces.forEach(face => {
+    let edge = face.edge;
+    do {
+      corners.add(edge.head().point);
+      edge = edge.next;
+    } while (edge !== face.edge);
+  });
+
+  const hull = corners.size >= 4 ? Array.from(corners) : points;
+  const center = new THREE.Box3().setFromPoints(hull).getCenter(new THREE.Vector3());
+  return {
+    shape: 'hull',
+    points: hull.flatMap(point => [point.x - center.x, point.y - center.y, point.z - center.z]),
+    x: center.x,
+    y: center.y,
+    z: center.z
+  };
+}
+
+// the link axis a direction lines up with, if any
+function alignedAxis(direction: THREE.Vector3): 'x' | 'y' | 'z' | null {
+  const axes: ['x', 'y', 'z'] = ['x', 'y', 'z'];
+  return axes.find(axis => Math.abs(Math.abs(direction[axis]) - 1) < AXIS_ALIGNED_TOLERANCE) ?? null;
+}
+
+/**
+ * Physics shapes for the link's URDF <collision> elements, as children of one compound body.
+ * Spheres, and boxes and cylinders lined up with the link axes, are kept as they are. Other boxes and cylinders,
+ * and meshes, become the convex hull around them. Meshes come from the link's colliders, see linkCollisionMeshesLoaded
+ * @param link The URDF link
+ * @returns One shape per usable collision element
+ */
+export function computeLinkCollisionShapes(link: URDFLink): CompoundShape[] {
+  const shapes: CompoundShape[] = [];
+
+  for (const collision of getCollisionElements(link)) {
+    const geometry = getGeometryElement(collision);
+    if (!geometry) continue;
+
+    const matrix = getOriginMatrix(collision);
+    const position = new THREE.Vector3().setFromMatrixPosition(matrix);
+
+    switch (geometry.nodeName.toLowerCase()) {
+      case 'box': {
+        const size = new THREE.Vector3(...parseTuple(geometry.getAttribute('size'), [0, 0, 0]));
+        const box = new THREE.Box3().setFromCenterAndSize(new THREE.Vector3(), size);
+
+        // lined up with the link axes, possibly turned by 90 degrees, the box's bounds are the box itself
+        const axes = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+        if (axes.every(axis => alignedAxis(axis.transformDirection(matrix)))) {
+          box.applyMatrix4(matrix).getSize(size);
+          shapes.push({
+            shape: 'box',
+            width: Math.max(size.x, MIN_SHAPE_SIZE),
+            height: Math.max(size.y, MIN_SHAPE_SIZE),
+            depth: Math.max(size.z, MIN_SHAPE_SIZE),
+            x: position.x,
+            y: position.y,
+            z: position.z
+          });
+        } else {
+          const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(i => new THREE.Vector3(
+            i & 1 ? box.max.x : box.min.x,
+            i & 2 ? box.max.y : box.min.y,
+            i & 4 ? box.max.z : box.min.z
+          ).applyMatrix4(matrix));
+          shapes.push(hullShape(corners));
+        }
+        break;
+      }
+
+      case 'sphere': {
+        const radius = parseFloat(geometry.getAttribute('radius') ?? '') || 0;
+        shapes.push({ shape: 'sphere', radius: Math.max(radius, MIN_SHAPE_SIZE), x: position.x, y: position.y, z: position.z });
+        break;
+      }
+
+      case 'cylinder': {
+        const radius = parseFloat(geometry.getAttribute('radius') ?? '') || 0;
+        const length = parseFloat(geometry.getAttribute('length') ?? '') || 0;
+
+        // URDF cylinders run along their local z axis
+        const direction = new THREE.Vector3(0, 0, 1).transformDirection(matrix);
+        const axis = alignedAxis(direction);
+        if (axis) {
+          shapes.push({
+            shape: 'cylinder',
+            radius: Math.max(radius, MIN_SHAPE_SIZE),
+            height: Math.max(length, MIN_SHAPE_SIZE),
+            axis,
+            x: position.x,
+            y: position.y,
+            z: position.z
+          });
+        } else {
+          // the hull of both rims, as a many sided prism
+          const rims: THREE.Vector3[] = [];
+          for (let i = 0; i < CYLINDER_HULL_SIDES; i++) {
+            const angle = (2 * Math.PI * i) / CYLINDER_HULL_SIDES;
+            for (const z of [-length / 2, length / 2]) {
+              rims.push(new THREE.Vector3(radius * Math.cos(angle), radius * Math.sin(angle), z).applyMatrix4(matrix));
+            }
+          }
+          shapes.push(hullShape(rims));
+        }
+        break;
+      }
+
+      case 'mesh': {
+        const filename = geometry.getAttribute('filename') ?? '';
+        const collider = getCollider(link, collision);
+        const points = collider ? getColliderPoints(link, collider) : [];
+        if (points.length < 4) {
+          console.warn(`Collision mesh '${filename}' of link '${link.name}' isn't loaded, it is skipped.`);
+          break;
+        }
+
+        shapes.push(hullShape(points));
+        break;
+      }
+
+      default:
+        console.warn(`Unsupported collision geometry '${geometry.nodeName}' on link '${link.name}', it is skipped.`);
+    }
+  }
+
+  return shapes;
+}
+
+/**
+ * Mass properties of a link, in the link's frame and URDF units
+ */
+export interface LinkInertial {
+  mass: number;                // kg
+  centerOfMass: THREE.Vector3; // Offset of the center of mass from the link origin, meters
+  inertia: THREE.Vector3;      // Diagonal of the inertia tensor about the center of mass, kg·m²
+}
+
+/**
+ * Mass properties from the link's URDF <inertial> element. The inertia tensor is rotated from the
+ * inertial frame into the link's frame and only its diagonal is kept, as physics engines take principal moments
+ * @param link The URDF link
+ * @returns The mass properties, or null if the link has no <inertial> with a mass
+ */
+export function getLinkInertial(link: URDFLink): LinkInertial | null {
+  if (!link.urdfNode) return null;
+
+  const inertial = childElement(link.urdfNode, 'inertial');
+  const mass = parseFloat(inertial ? childElement(inertial, 'mass')?.getAttribute('value') ?? '' : '');
+  if (!inertial || !Number.isFinite(mass)) return null;
+
+  const matrix = getOriginMatrix(inertial);
+  const centerOfMass = new THREE.Vector3().setFromMatrixPosition(matrix);
+
+  const element = childElement(inertial, 'inertia');
+  const value = (name: string) => parseFloat(element?.getAttribute(name) ?? '') || 0;
+  const tensor = new THREE.Matrix3().set(
+    value('ixx'), value('ixy'), value('ixz'),
+    value('ixy'), value('iyy'), value('iyz'),
+    value('ixz'), value('iyz'), value('izz')
+  );
+
+  // I_link = R I R^T, with R the rotation of the inertial frame
+  const rotation = new THREE.Matrix3().setFromMatrix4(matrix);
+  const rotated = rotation.clone().multiply(tensor).multiply(rotation.clone().transpose());
+  const e = rotated.elements;
+
+  return { mass, centerOfMass, inertia: new THREE.Vector3(e[0], e[4], e[8]) };
+}